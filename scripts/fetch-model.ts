@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Downloads the COCO-SSD weights into public/ so the on-device detector works offline.
+
+import fs from "fs";
+import path from "path";
+
+const SOURCE = "https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2";
+const TARGET = path.resolve("public/models/coco-ssd");
+
+async function download(file: string) {
+  const res = await fetch(`${SOURCE}/${file}`);
+  if (!res.ok) throw new Error(`GET ${file} failed with ${res.status}`);
+  const data = Buffer.from(await res.arrayBuffer());
+  fs.writeFileSync(path.join(TARGET, file), data);
+  console.log(`${file} (${Math.round(data.length / 1024)} KB)`);
+  return data;
+}
+
+async function main() {
+  fs.mkdirSync(TARGET, { recursive: true });
+  const manifest = JSON.parse((await download("model.json")).toString());
+  for (const group of manifest.weightsManifest as { paths: string[] }[]) {
+    for (const file of group.paths) await download(file);
+  }
+  console.log(`Model saved to ${TARGET}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
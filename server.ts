@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import "./server/env";
+import path from "path";
+import express from "express";
+import { api } from "./server/api";
+import { syncMonitors } from "./server/monitor";
+import { mediaRouter } from "./server/routes/media";
+import { startMqtt } from "./server/mqtt";
+import { startRetention } from "./server/retention";
+import { startSchedules } from "./server/schedule";
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  const app = express();
+
+  // Snapshots arrive as base64 data URLs, well above the default 100kb limit.
+  app.use(express.json({ limit: '10mb' }));
+  app.use("/api", api);
+  app.use("/media", mediaRouter);
+
+  if (process.env.NODE_ENV !== "production") {
+    const { createServer: createViteServer } = await import("vite");
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: "spa",
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, "0.0.0.0", () => {
+    console.log(`SentryAI server running on http://localhost:${PORT}`);
+    // Cameras with a stream source are watched here, whether or not a browser is open
+    syncMonitors();
+    startRetention();
+    startSchedules();
+    startMqtt();
+  });
+}
+
+startServer();
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { broadcast } from "./live";
+import { getSecurityState } from "./security";
+import type { AlarmState } from "../src/types";
+
+/**
+ * The one alarm shared by every dashboard: any camera may raise it, it sounds
+ * once the entry delay runs out, and a dismiss or disarm from any device
+ * clears it everywhere.
+ */
+
+let alarm: AlarmState | null = null;
+let sirenTimer: ReturnType<typeof setTimeout> | undefined;
+
+const publish = () => broadcast({ type: 'alarm', alarm });
+
+export const getAlarm = () => alarm;
+
+/** Starts the entry delay countdown; a countdown already running or an alarm already sounding is kept. */
+export function raiseAlarm(cameraId: string, zone: string | null) {
+  if (alarm) return alarm;
+  const { entryDelay } = getSecurityState();
+  const deadline = Date.now() + entryDelay * 1000;
+  alarm = { cameraId, zone, deadline, sounding: entryDelay === 0, muted: false };
+  if (!alarm.sounding) {
+    sirenTimer = setTimeout(() => {
+      if (!alarm) return;
+      alarm = { ...alarm, sounding: true };
+      publish();
+    }, entryDelay * 1000);
+  }
+  publish();
+  return alarm;
+}
+
+/** Silences the siren everywhere until the next alarm; the alarm stays up until it is dismissed or the system disarmed. */
+export function muteAlarm() {
+  if (!alarm || alarm.muted) return;
+  alarm = { ...alarm, muted: true };
+  publish();
+}
+
+export function clearAlarm() {
+  clearTimeout(sirenTimer);
+  if (!alarm) return;
+  alarm = null;
+  publish();
+}
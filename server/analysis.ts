@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { falsePositiveExamples } from "./events";
+import { analyzeImage, geminiErrorStatus } from "./gemini";
+import { maskFrame } from "./privacy";
+import { budgetRetryAfter, recordCall } from "./usage";
+import type { AnalysisResult, TriggerSource } from "../src/types";
+
+// Recent false positives from the same camera sent along with each frame
+const FEW_SHOT_EXAMPLES = 3;
+
+// Gemini doesn't say how long to back off, so callers are told to wait this long
+const RATE_LIMIT_RETRY_AFTER = 10;
+
+export type FrameAnalysis =
+  | { outcome: 'ok'; result: AnalysisResult }
+  | { outcome: 'over-budget' | 'rate-limited'; retryAfter: number }
+  | { outcome: 'error'; error: string };
+
+/**
+ * Runs one frame past Gemini within the call budget and records the call,
+ * whether it came from a browser or a stream monitored by the server.
+ */
+export async function analyzeFrame(image: string, triggerSource: TriggerSource, cameraId?: string): Promise<FrameAnalysis> {
+  const retryAfter = budgetRetryAfter();
+  if (retryAfter) {
+    recordCall({ cameraId, triggerSource, outcome: 'over-budget' });
+    return { outcome: 'over-budget', retryAfter };
+  }
+
+  const started = performance.now();
+  try {
+    const examples = falsePositiveExamples(cameraId, FEW_SHOT_EXAMPLES);
+    const { result, usage } = await analyzeImage(await maskFrame(image, cameraId), examples);
+    recordCall({ cameraId, triggerSource, outcome: 'ok', latencyMs: performance.now() - started, ...usage });
+    return { outcome: 'ok', result };
+  } catch (err) {
+    const latencyMs = performance.now() - started;
+    const error = err instanceof Error ? err.message : String(err);
+    if (geminiErrorStatus(err) === 429) {
+      recordCall({ cameraId, triggerSource, outcome: 'rate-limited', latencyMs, error });
+      return { outcome: 'rate-limited', retryAfter: RATE_LIMIT_RETRY_AFTER };
+    }
+    console.error(`AI Analysis failed (${triggerSource}):`, err);
+    recordCall({ cameraId, triggerSource, outcome: 'error', latencyMs, error });
+    return { outcome: 'error', error };
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from "express";
+import { analyzeRouter } from "./routes/analyze";
+import { authenticate, authRouter, requireRole } from "./routes/auth";
+import { eventsRouter } from "./routes/events";
+import { incidentsRouter } from "./routes/incidents";
+import { liveRouter } from "./routes/live";
+import { notificationsRouter } from "./routes/notifications";
+import { securityRouter } from "./routes/security";
+import { settingsRouter } from "./routes/settings";
+import { streamsRouter } from "./routes/streams";
+import { usageRouter } from "./routes/usage";
+import { usersRouter } from "./routes/users";
+
+export const api = Router();
+
+api.use("/auth", authRouter);
+
+// Everything else needs a session; viewers may read, and routes that change things ask for more
+api.use(authenticate);
+api.use("/analyze", requireRole('operator'), analyzeRouter);
+api.use("/events", eventsRouter);
+api.use("/incidents", incidentsRouter);
+api.use("/live", liveRouter);
+api.use("/notifications", requireRole('admin'), notificationsRouter);
+api.use("/security", securityRouter);
+api.use("/settings", settingsRouter);
+api.use("/streams", streamsRouter);
+api.use("/usage", usageRouter);
+api.use("/users", requireRole('admin'), usersRouter);
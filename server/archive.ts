@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from "fs";
+import path from "path";
+import { mediaPath } from "./db";
+import { getEvent, importEvent, isClipExtension, listEventsWithMedia } from "./events";
+import { archivedIncidents, importIncident } from "./incidents";
+import { indexEvent } from "./search";
+import { getSetting } from "./settings";
+import { budgetRetryAfter } from "./usage";
+import { writeTar, type TarFile } from "./tar";
+import { ARCHIVE_VERSION } from "../src/types";
+import type { ArchivedEvent, ArchiveManifest, Camera, EventQuery, EventRecord, ImportResult } from "../src/types";
+
+/**
+ * Moves events between installs, or out to someone else, as a tar archive
+ * of a JSON manifest, the same events as CSV and their snapshots and clips.
+ * The manifest's shape is `ArchiveManifest`; its `version` goes up whenever
+ * that shape changes in a way older builds can't read.
+ */
+
+export const MANIFEST_FILE = "manifest.json";
+
+const CSV_COLUMNS = [
+  "id", "timestamp", "camera", "trigger_source", "suspicious", "reason", "zone", "rule",
+  "detections", "label", "caption", "tags", "incident_id",
+];
+
+const cameraNames = () => new Map(getSetting<Camera[]>("cameras", []).map(c => [c.id, c.name]));
+
+const toIso = (epoch?: number) => (epoch === undefined ? undefined : new Date(epoch).toISOString());
+
+// Quoted when needed; cells a spreadsheet would run as a formula are prefixed with an apostrophe
+function csvCell(value: string | number | boolean | undefined) {
+  let text = value === undefined ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The events as a spreadsheet: one row each, detections as "label confidence%" pairs. */
+export function eventsCsv(events: EventRecord[]) {
+  const names = cameraNames();
+  const rows = events.map(event => [
+    event.id,
+    event.timestamp,
+    event.cameraId ? names.get(event.cameraId) ?? event.cameraId : undefined,
+    event.triggerSource,
+    event.isSuspicious,
+    event.reason,
+    event.zone,
+    event.rule,
+    event.detections?.map(d => `${d.label} ${Math.round(d.confidence * 100)}%`).join("; "),
+    event.label,
+    event.caption,
+    event.tags?.join("; "),
+    event.incidentId,
+  ].map(csvCell).join(","));
+  // Excel only reads UTF-8 with a byte order mark
+  return "\uFEFF" + [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+const fileStamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+
+export function exportCsv(query: EventQuery) {
+  const csv = eventsCsv(listEventsWithMedia(query).map(({ event }) => event));
+  return { filename: `sentry-events-${fileStamp()}.csv`, csv };
+}
+
+/** The matching events as an archive, read from disk as it is streamed out. */
+export function exportArchive(query: EventQuery) {
+  // Events whose snapshot went missing can't be imported again, so they are left out
+  const rows = listEventsWithMedia(query).filter(({ snapshot }) => fs.existsSync(mediaPath(snapshot)));
+  const names = cameraNames();
+
+  const entries = rows.map(({ event, snapshot, clip }) => {
+    const clipFile = clip && fs.existsSync(mediaPath(clip)) ? clip : undefined;
+    const archived: ArchivedEvent = {
+      id: event.id,
+      timestamp: event.timestamp,
+      cameraId: event.cameraId,
+      incidentId: event.incidentId,
+      triggerSource: event.triggerSource,
+      isSuspicious: event.isSuspicious,
+      reason: event.reason,
+      zone: event.zone,
+      rule: event.rule,
+      detections: event.detections ?? [],
+      label: event.label,
+      caption: event.caption,
+      tags: event.tags,
+      phash: event.phash,
+      image: `media/${event.id}.jpg`,
+      clip: clipFile && `media/${event.id}${path.extname(clipFile)}`,
+    };
+    return { archived, snapshot, clip: clipFile };
+  });
+
+  const cameraIds = [...new Set(entries.flatMap(({ archived }) => (archived.cameraId ? [archived.cameraId] : [])))];
+  const manifest: ArchiveManifest = {
+    format: 'sentryai-archive',
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    filters: { cameraId: query.cameraId, from: toIso(query.from), to: toIso(query.to) },
+    cameras: cameraIds.map(id => ({ id, name: names.get(id) ?? id })),
+    incidents: archivedIncidents([...new Set(entries.flatMap(({ archived }) => (archived.incidentId ? [archived.incidentId] : [])))]),
+    events: entries.map(({ archived }) => archived),
+  };
+
+  function* files(): Generator<TarFile> {
+    yield { name: MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest, null, 2)) };
+    yield { name: "events.csv", data: Buffer.from(eventsCsv(rows.map(({ event }) => event))) };
+    for (const { archived, snapshot, clip } of entries) {
+      yield { name: archived.image, data: fs.readFileSync(mediaPath(snapshot)) };
+      if (clip && archived.clip) yield { name: archived.clip, data: fs.readFileSync(mediaPath(clip)) };
+    }
+  }
+
+  return { filename: `sentry-events-${fileStamp()}.tar`, chunks: writeTar(files()) };
+}
+
+const isJpeg = (data: Buffer) => data.length > 2 && data[0] === 0xff && data[1] === 0xd8;
+
+/** The first media path the manifest names that the archive doesn't hold as a usable file, if any. */
+export function findMissingMedia(manifest: ArchiveManifest, files: Map<string, Buffer>) {
+  for (const event of manifest.events) {
+    const image = files.get(event.image);
+    if (!image || !isJpeg(image)) return event.image;
+    if (event.clip && (!files.has(event.clip) || !isClipExtension(path.extname(event.clip).slice(1)))) return event.clip;
+  }
+  return undefined;
+}
+
+/**
+ * Adds the archive's events, skipping ones already stored, so importing the
+ * same archive twice changes nothing. Imported events are indexed for search
+ * in the background, one at a time.
+ */
+export function importArchive(manifest: ArchiveManifest, files: Map<string, Buffer>): ImportResult {
+  const imported: EventRecord[] = [];
+  const incidents = new Map(manifest.incidents.map(incident => [incident.id, incident]));
+  for (const event of manifest.events) {
+    if (getEvent(event.id)) continue;
+    const incident = event.incidentId ? incidents.get(event.incidentId) : undefined;
+    if (incident) importIncident(incident);
+    const clip = event.clip ? { data: files.get(event.clip)!, extension: path.extname(event.clip).slice(1) } : undefined;
+    const record = importEvent(event, files.get(event.image)!, clip);
+    if (record) imported.push(record);
+  }
+
+  (async () => {
+    for (const event of imported) {
+      const indexed = await indexEvent(event).catch(err => {
+        console.warn(`Imported event ${event.id} has no search embedding:`, err);
+        return false;
+      });
+      // Once the AI budget runs out, the rest are left to keyword search instead of each recording a refusal
+      if (!indexed && budgetRetryAfter()) break;
+    }
+  })();
+  return { imported: imported.length, skipped: manifest.events.length - imported.length };
+}
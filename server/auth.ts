@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash, randomBytes, randomUUID, scryptSync, timingSafeEqual } from "crypto";
+import { db } from "./db";
+import type { User, UserRole } from "../src/types";
+
+interface UserRow {
+  id: string;
+  username: string;
+  role: UserRole;
+  password_salt: string;
+  password_hash: string;
+  created_at: number;
+}
+
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+
+// Like the PIN keypad, repeated wrong passwords lock the account for a while
+const MAX_LOGIN_FAILURES = 5;
+const LOGIN_LOCKOUT = 60_000;
+
+const loginFailures = new Map<string, { count: number; lockedUntil: number }>();
+
+const hashPassword = (password: string, salt: string) => scryptSync(password, salt, 32).toString('hex');
+// Tokens are random, so a fast hash is enough to keep a copied database from holding live sessions
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Checked against when the username doesn't exist, so a miss takes as long as a wrong password
+const DUMMY_SALT = randomBytes(16).toString('hex');
+const DUMMY_HASH = hashPassword(randomBytes(16).toString('hex'), DUMMY_SALT);
+
+function toUser(row: UserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+const getRow = (id: string) => db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+
+export function countUsers(role?: UserRole) {
+  const { count } = (role
+    ? db.prepare('SELECT COUNT(*) AS count FROM users WHERE role = ?').get(role)
+    : db.prepare('SELECT COUNT(*) AS count FROM users').get()) as { count: number };
+  return count;
+}
+
+export function listUsers() {
+  const rows = db.prepare('SELECT * FROM users ORDER BY username COLLATE NOCASE').all() as UserRow[];
+  return rows.map(toUser);
+}
+
+export function getUser(id: string) {
+  const row = getRow(id);
+  return row ? toUser(row) : null;
+}
+
+/** Returns null when the username is taken (case-insensitively). */
+export function createUser(username: string, password: string, role: UserRole) {
+  const salt = randomBytes(16).toString('hex');
+  const row: UserRow = {
+    id: randomUUID(),
+    username,
+    role,
+    password_salt: salt,
+    password_hash: hashPassword(password, salt),
+    created_at: Date.now(),
+  };
+  const { changes } = db.prepare(`
+    INSERT OR IGNORE INTO users (id, username, role, password_salt, password_hash, created_at)
+    VALUES (@id, @username, @role, @password_salt, @password_hash, @created_at)
+  `).run(row);
+  return changes ? toUser(row) : null;
+}
+
+/** A new password signs the user out everywhere. */
+export function updateUser(id: string, { role, password }: { role?: UserRole; password?: string }) {
+  const row = getRow(id);
+  if (!row) return null;
+  if (role) {
+    db.prepare('UPDATE users SET role = ? WHERE id = ?').run(role, id);
+  }
+  if (password) {
+    const salt = randomBytes(16).toString('hex');
+    db.prepare('UPDATE users SET password_salt = ?, password_hash = ? WHERE id = ?').run(salt, hashPassword(password, salt), id);
+    db.prepare('DELETE FROM sessions WHERE user_id = ?').run(id);
+  }
+  return getUser(id);
+}
+
+export function deleteUser(id: string) {
+  return db.transaction(() => {
+    db.prepare('DELETE FROM sessions WHERE user_id = ?').run(id);
+    return db.prepare('DELETE FROM users WHERE id = ?').run(id).changes > 0;
+  })();
+}
+
+/** Seconds until `username` may try again, or 0 when logins are accepted. */
+export function loginLockout(username: string) {
+  const lockedUntil = loginFailures.get(username.toLowerCase())?.lockedUntil ?? 0;
+  return Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+}
+
+export function verifyLogin(username: string, password: string) {
+  const key = username.toLowerCase();
+  const row = db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined;
+  const matches = timingSafeEqual(
+    Buffer.from(hashPassword(password, row?.password_salt ?? DUMMY_SALT), 'hex'),
+    Buffer.from(row?.password_hash ?? DUMMY_HASH, 'hex')
+  );
+  if (matches && row) {
+    loginFailures.delete(key);
+    return toUser(row);
+  }
+  const failures = loginFailures.get(key) ?? { count: 0, lockedUntil: 0 };
+  if (++failures.count >= MAX_LOGIN_FAILURES) {
+    failures.count = 0;
+    failures.lockedUntil = Date.now() + LOGIN_LOCKOUT;
+  }
+  loginFailures.set(key, failures);
+  return null;
+}
+
+/** Starts a session and returns its token, which is only ever held by the browser. */
+export function createSession(userId: string) {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now);
+  db.prepare('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)').run(hashToken(token), userId, now + SESSION_TTL);
+  return { token, maxAge: SESSION_TTL };
+}
+
+export function getSessionUser(token: string) {
+  const row = db.prepare(`
+    SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.token_hash = ? AND sessions.expires_at > ?
+  `).get(hashToken(token), Date.now()) as UserRow | undefined;
+  return row ? toUser(row) : null;
+}
+
+export function deleteSession(token: string) {
+  db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token));
+}
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+export const DATA_DIR = path.resolve(process.env.DATA_DIR || 'data');
+export const MEDIA_DIR = path.join(DATA_DIR, 'media');
+
+fs.mkdirSync(MEDIA_DIR, { recursive: true });
+
+export const db = new Database(path.join(DATA_DIR, 'sentry.db'));
+db.pragma('journal_mode = WAL');
+
+// Each entry upgrades the schema by one version; append only, never edit.
+const MIGRATIONS = [
+  `CREATE TABLE events (
+    id TEXT PRIMARY KEY,
+    timestamp INTEGER NOT NULL,
+    trigger_source TEXT NOT NULL,
+    is_suspicious INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    snapshot TEXT NOT NULL
+  );
+  CREATE INDEX events_timestamp ON events (timestamp);`,
+  `ALTER TABLE events ADD COLUMN clip TEXT;`,
+  `ALTER TABLE events ADD COLUMN zone TEXT;
+  CREATE TABLE settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );`,
+  // Zones moved into per-camera settings; carry existing ones over to a default camera
+  `ALTER TABLE events ADD COLUMN camera_id TEXT;
+  CREATE INDEX events_camera ON events (camera_id, timestamp);
+  UPDATE settings SET key = 'cameras', value = json_array(json_object(
+    'id', 'default', 'name', 'Camera 1', 'deviceId', '', 'audioDeviceId', '',
+    'sensitivity', 85, 'audioSensitivity', 60, 'isSmartGuard', json('true'),
+    'zones', json(value)
+  )) WHERE key = 'zones';`,
+  `ALTER TABLE events ADD COLUMN detections TEXT;`,
+  `ALTER TABLE events ADD COLUMN rule TEXT;`,
+  `CREATE TABLE audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    detail TEXT
+  );
+  CREATE INDEX audit_log_timestamp ON audit_log (timestamp);`,
+  `ALTER TABLE events ADD COLUMN label TEXT;
+  ALTER TABLE events ADD COLUMN phash TEXT;
+  CREATE INDEX events_label ON events (label, camera_id);`,
+  `CREATE TABLE analysis_calls (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    camera_id TEXT,
+    trigger_source TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    latency_ms INTEGER NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    error TEXT
+  );
+  CREATE INDEX analysis_calls_timestamp ON analysis_calls (timestamp);`,
+  // Existing events are grouped the way new ones are: more than two minutes apart starts a new incident
+  `CREATE TABLE incidents (
+    id TEXT PRIMARY KEY,
+    camera_id TEXT,
+    started_at INTEGER NOT NULL,
+    ended_at INTEGER NOT NULL,
+    report TEXT,
+    reported_at INTEGER
+  );
+  CREATE INDEX incidents_camera ON incidents (camera_id, ended_at);
+  ALTER TABLE events ADD COLUMN incident_id TEXT;
+  CREATE INDEX events_incident ON events (incident_id);
+  CREATE TEMP TABLE event_incidents AS
+    WITH gaps AS (
+      SELECT id, camera_id, timestamp,
+        COALESCE(timestamp - LAG(timestamp) OVER (PARTITION BY camera_id ORDER BY timestamp) > 120000, 1) AS starts
+      FROM events
+    ), groups AS (
+      SELECT id, camera_id, timestamp,
+        SUM(starts) OVER (PARTITION BY camera_id ORDER BY timestamp ROWS UNBOUNDED PRECEDING) AS grp
+      FROM gaps
+    )
+    SELECT id, camera_id, timestamp,
+      FIRST_VALUE(id) OVER (PARTITION BY camera_id, grp ORDER BY timestamp) AS incident_id
+    FROM groups;
+  INSERT INTO incidents (id, camera_id, started_at, ended_at)
+    SELECT incident_id, camera_id, MIN(timestamp), MAX(timestamp) FROM event_incidents GROUP BY incident_id;
+  UPDATE events SET incident_id = (SELECT incident_id FROM event_incidents WHERE event_incidents.id = events.id);
+  DROP TABLE event_incidents;`,
+  // The full-text index reads its columns from events by rowid and is kept in step by triggers
+  `ALTER TABLE events ADD COLUMN caption TEXT;
+  ALTER TABLE events ADD COLUMN tags TEXT;
+  ALTER TABLE events ADD COLUMN embedding BLOB;
+  CREATE VIRTUAL TABLE events_fts USING fts5(reason, caption, tags, content = 'events', tokenize = 'porter');
+  CREATE TRIGGER events_fts_insert AFTER INSERT ON events BEGIN
+    INSERT INTO events_fts (rowid, reason, caption, tags) VALUES (new.rowid, new.reason, new.caption, new.tags);
+  END;
+  CREATE TRIGGER events_fts_delete AFTER DELETE ON events BEGIN
+    INSERT INTO events_fts (events_fts, rowid, reason, caption, tags) VALUES ('delete', old.rowid, old.reason, old.caption, old.tags);
+  END;
+  CREATE TRIGGER events_fts_update AFTER UPDATE OF reason, caption, tags ON events BEGIN
+    INSERT INTO events_fts (events_fts, rowid, reason, caption, tags) VALUES ('delete', old.rowid, old.reason, old.caption, old.tags);
+    INSERT INTO events_fts (rowid, reason, caption, tags) VALUES (new.rowid, new.reason, new.caption, new.tags);
+  END;
+  INSERT INTO events_fts (events_fts) VALUES ('rebuild');`,
+  // Only hashes are stored: of passwords with a per-user salt, and of session tokens
+  `CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    role TEXT NOT NULL,
+    password_salt TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE INDEX sessions_user ON sessions (user_id);`,
+];
+
+db.transaction(() => {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let v = version; v < MIGRATIONS.length; v++) {
+    db.exec(MIGRATIONS[v]);
+  }
+  db.pragma(`user_version = ${MIGRATIONS.length}`);
+})();
+
+export function mediaPath(file: string) {
+  return path.join(MEDIA_DIR, file);
+}
+
+export function mediaUrl(file: string) {
+  return `/media/${file}`;
+}
+
+export function writeMedia(file: string, data: Buffer) {
+  fs.writeFileSync(mediaPath(file), data);
+}
+
+export function writeDataUrl(file: string, dataUrl: string) {
+  writeMedia(file, Buffer.from(dataUrl.split(',')[1], 'base64'));
+}
+
+export function removeMedia(file: string) {
+  fs.rmSync(mediaPath(file), { force: true });
+}
@@ -0,0 +1,9 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import dotenv from "dotenv";
+
+// Imported first by server.ts so every other module sees the loaded variables.
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
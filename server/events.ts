@@ -0,0 +1,384 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from "crypto";
+import fs from "fs";
+import { db, mediaPath, mediaUrl, removeMedia, writeDataUrl, writeMedia } from "./db";
+import type { ArchivedEvent, Detection, EventLabel, EventQuery, EventRecord, EventSource, IgnoredFrame, LabelStats } from "../src/types";
+
+interface EventRow {
+  id: string;
+  timestamp: number;
+  trigger_source: EventSource;
+  is_suspicious: number;
+  reason: string;
+  snapshot: string;
+  clip: string | null;
+  zone: string | null;
+  camera_id: string | null;
+  /** JSON-encoded `Detection[]`. */
+  detections: string | null;
+  rule: string | null;
+  label: EventLabel | null;
+  phash: string | null;
+  incident_id: string | null;
+  caption: string | null;
+  /** JSON-encoded `string[]`. */
+  tags: string | null;
+  /** Float32 vector of the event's text, filled in after the event is saved. */
+  embedding?: Buffer | null;
+}
+
+export interface NewEvent {
+  image: string;
+  isSuspicious: boolean;
+  reason: string;
+  triggerSource: EventSource;
+  zone?: string;
+  cameraId?: string;
+  detections?: Detection[];
+  rule?: string;
+  phash?: string;
+  caption?: string;
+  tags?: string[];
+  timestamp?: number;
+}
+
+function toRecord(row: EventRow): EventRecord {
+  return {
+    id: row.id,
+    timestamp: new Date(row.timestamp).toISOString(),
+    image: mediaUrl(row.snapshot),
+    isSuspicious: Boolean(row.is_suspicious),
+    reason: row.reason,
+    triggerSource: row.trigger_source,
+    clip: row.clip ? mediaUrl(row.clip) : undefined,
+    zone: row.zone ?? undefined,
+    cameraId: row.camera_id ?? undefined,
+    detections: row.detections ? JSON.parse(row.detections) : undefined,
+    rule: row.rule ?? undefined,
+    label: row.label ?? undefined,
+    phash: row.phash ?? undefined,
+    incidentId: row.incident_id ?? undefined,
+    caption: row.caption ?? undefined,
+    tags: row.tags ? JSON.parse(row.tags) : undefined,
+  };
+}
+
+function whereFilters({ cameraId, incidentId, from, to }: EventQuery) {
+  const clauses: string[] = [];
+  const params: Record<string, string | number> = {};
+  if (cameraId !== undefined) {
+    clauses.push('camera_id = @cameraId');
+    params.cameraId = cameraId;
+  }
+  if (incidentId !== undefined) {
+    clauses.push('incident_id = @incidentId');
+    params.incidentId = incidentId;
+  }
+  if (from !== undefined) {
+    clauses.push('timestamp >= @from');
+    params.from = from;
+  }
+  if (to !== undefined) {
+    clauses.push('timestamp <= @to');
+    params.to = to;
+  }
+  return { sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+// Events from the same camera at most this far apart belong to one incident
+export const INCIDENT_GAP = 2 * 60_000;
+
+/** Joins the camera's incident that is still open at `timestamp`, or starts a new one. */
+function assignIncident(cameraId: string | null, timestamp: number) {
+  const open = db.prepare(`
+    SELECT id FROM incidents
+    WHERE camera_id IS @cameraId AND ended_at >= @timestamp - @gap AND started_at <= @timestamp + @gap
+    ORDER BY ended_at DESC LIMIT 1
+  `).get({ cameraId, timestamp, gap: INCIDENT_GAP }) as { id: string } | undefined;
+
+  if (open) {
+    db.prepare(`
+      UPDATE incidents SET started_at = MIN(started_at, @timestamp), ended_at = MAX(ended_at, @timestamp) WHERE id = @id
+    `).run({ id: open.id, timestamp });
+    return open.id;
+  }
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO incidents (id, camera_id, started_at, ended_at) VALUES (?, ?, ?, ?)
+  `).run(id, cameraId, timestamp, timestamp);
+  return id;
+}
+
+export function createEvent(event: NewEvent): EventRecord {
+  const id = randomUUID();
+  const timestamp = event.timestamp ?? Date.now();
+  const cameraId = event.cameraId ?? null;
+  const row: EventRow = {
+    id,
+    timestamp,
+    trigger_source: event.triggerSource,
+    is_suspicious: event.isSuspicious ? 1 : 0,
+    reason: event.reason,
+    snapshot: `${id}.jpg`,
+    clip: null,
+    zone: event.zone ?? null,
+    camera_id: cameraId,
+    detections: event.detections?.length ? JSON.stringify(event.detections) : null,
+    rule: event.rule ?? null,
+    label: null,
+    phash: event.phash ?? null,
+    incident_id: null,
+    caption: event.caption ?? null,
+    tags: event.tags?.length ? JSON.stringify(event.tags) : null,
+  };
+  writeDataUrl(row.snapshot, event.image);
+  db.transaction(() => {
+    row.incident_id = assignIncident(cameraId, timestamp);
+    db.prepare(`
+      INSERT INTO events (id, timestamp, trigger_source, is_suspicious, reason, snapshot, zone, camera_id, detections, rule, phash, incident_id, caption, tags)
+      VALUES (@id, @timestamp, @trigger_source, @is_suspicious, @reason, @snapshot, @zone, @camera_id, @detections, @rule, @phash, @incident_id, @caption, @tags)
+    `).run(row);
+  })();
+  return toRecord(row);
+}
+
+export function listEvents(query: EventQuery) {
+  const { sql, params } = whereFilters(query);
+  const rows = db.prepare(`
+    SELECT * FROM events ${sql} ORDER BY timestamp DESC LIMIT @limit OFFSET @offset
+  `).all({ ...params, limit: query.limit ?? 50, offset: query.offset ?? 0 }) as EventRow[];
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM events ${sql}`).get(params) as { total: number };
+  return { events: rows.map(toRecord), total };
+}
+
+/** Every matching event oldest first, with the names of its media files, for an export. */
+export function listEventsWithMedia(query: EventQuery) {
+  const { sql, params } = whereFilters(query);
+  const rows = db.prepare(`SELECT * FROM events ${sql} ORDER BY timestamp`).all(params) as EventRow[];
+  return rows.map(row => ({ event: toRecord(row), snapshot: row.snapshot, clip: row.clip ?? undefined }));
+}
+
+export function getEvent(id: string) {
+  const row = db.prepare('SELECT * FROM events WHERE id = ?').get(id) as EventRow | undefined;
+  return row && toRecord(row);
+}
+
+/**
+ * The key frames of each incident, in time order. Its events are split into
+ * `count` equal runs and the most telling frame of each is taken: suspicious
+ * first, then the one with the most detections. Picked in one query, so a
+ * page of incidents doesn't load every one's events.
+ */
+export function incidentKeyFrames(incidentIds: string[], count: number) {
+  const rows = db.prepare(`
+    SELECT * FROM (
+      SELECT *, ROW_NUMBER() OVER (PARTITION BY incident_id, run ORDER BY score DESC, timestamp) AS pick FROM (
+        SELECT *,
+          NTILE(@count) OVER (PARTITION BY incident_id ORDER BY timestamp) AS run,
+          is_suspicious * 100 + COALESCE(json_array_length(detections), 0) AS score
+        FROM events WHERE incident_id IN (SELECT value FROM json_each(@ids))
+      )
+    ) WHERE pick = 1 ORDER BY timestamp
+  `).all({ ids: JSON.stringify(incidentIds), count }) as EventRow[];
+  const frames = new Map<string, EventRecord[]>(incidentIds.map(id => [id, []]));
+  for (const row of rows) frames.get(row.incident_id!)?.push(toRecord(row));
+  return frames;
+}
+
+/** Every event's media files, newest first, for enforcing a storage quota. */
+export function listMedia() {
+  return db.prepare('SELECT timestamp, snapshot, clip FROM events ORDER BY timestamp DESC').all() as Pick<EventRow, 'timestamp' | 'snapshot' | 'clip'>[];
+}
+
+const CLIP_EXTENSIONS: Record<string, string> = {
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+};
+
+export function isClipType(mimeType: string) {
+  return mimeType in CLIP_EXTENSIONS;
+}
+
+export function isClipExtension(extension: string) {
+  return Object.values(CLIP_EXTENSIONS).includes(extension);
+}
+
+/** Stores a recorded clip for an event, replacing any earlier one. */
+export function attachClip(id: string, data: Buffer, mimeType: string) {
+  const row = db.prepare('SELECT clip FROM events WHERE id = ?').get(id) as Pick<EventRow, 'clip'> | undefined;
+  if (!row) return undefined;
+
+  const clip = `${id}.${CLIP_EXTENSIONS[mimeType]}`;
+  if (row.clip && row.clip !== clip) removeMedia(row.clip);
+  writeMedia(clip, data);
+  db.prepare('UPDATE events SET clip = ? WHERE id = ?').run(clip, id);
+  return getEvent(id);
+}
+
+/**
+ * Stores an event from an archive under its original id and time, in its
+ * original incident when that exists. Returns undefined when an event with
+ * the id is already stored.
+ */
+export function importEvent(event: ArchivedEvent, snapshot: Buffer, clip?: { data: Buffer; extension: string }) {
+  if (getEvent(event.id)) return undefined;
+
+  const timestamp = Date.parse(event.timestamp);
+  const cameraId = event.cameraId ?? null;
+  const row: EventRow = {
+    id: event.id,
+    timestamp,
+    trigger_source: event.triggerSource,
+    is_suspicious: event.isSuspicious ? 1 : 0,
+    reason: event.reason,
+    snapshot: `${event.id}.jpg`,
+    clip: clip ? `${event.id}.${clip.extension}` : null,
+    zone: event.zone ?? null,
+    camera_id: cameraId,
+    detections: event.detections.length ? JSON.stringify(event.detections) : null,
+    rule: event.rule ?? null,
+    label: event.label ?? null,
+    phash: event.phash ?? null,
+    incident_id: null,
+    caption: event.caption ?? null,
+    tags: event.tags?.length ? JSON.stringify(event.tags) : null,
+  };
+  writeMedia(row.snapshot, snapshot);
+  if (clip) writeMedia(row.clip!, clip.data);
+  db.transaction(() => {
+    const known = event.incidentId !== undefined && db.prepare('SELECT 1 FROM incidents WHERE id = ?').get(event.incidentId);
+    row.incident_id = known ? event.incidentId! : assignIncident(cameraId, timestamp);
+    db.prepare(`
+      INSERT INTO events (id, timestamp, trigger_source, is_suspicious, reason, snapshot, clip, zone, camera_id, detections, rule, label, phash, incident_id, caption, tags)
+      VALUES (@id, @timestamp, @trigger_source, @is_suspicious, @reason, @snapshot, @clip, @zone, @camera_id, @detections, @rule, @label, @phash, @incident_id, @caption, @tags)
+    `).run(row);
+  })();
+  return toRecord(row);
+}
+
+export function setLabel(id: string, label: EventLabel | null) {
+  const { changes } = db.prepare('UPDATE events SET label = ? WHERE id = ?').run(label, id);
+  return changes ? getEvent(id) : undefined;
+}
+
+export function setEmbedding(id: string, embedding: Float32Array) {
+  db.prepare('UPDATE events SET embedding = ? WHERE id = ?').run(Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength), id);
+}
+
+/** The latest events matching the filters, with their embeddings, for ranking against a search. */
+export function searchCandidates(query: EventQuery, limit: number) {
+  const { sql, params } = whereFilters(query);
+  const rows = db.prepare(`
+    SELECT rowid, * FROM events ${sql} ORDER BY timestamp DESC LIMIT @limit
+  `).all({ ...params, limit }) as (EventRow & { rowid: number })[];
+  return rows.map(row => ({
+    rowid: row.rowid,
+    event: toRecord(row),
+    // Copied, since a Buffer's offset into its pool need not be 4-byte aligned
+    embedding: row.embedding ? new Float32Array(new Uint8Array(row.embedding).buffer) : undefined,
+  }));
+}
+
+/** Full-text matches as rowid → BM25 rank, where more negative is a better match. */
+export function keywordRanks(match: string) {
+  const rows = db.prepare(`
+    SELECT rowid, bm25(events_fts, 1, 1, 2) AS rank FROM events_fts WHERE events_fts MATCH ?
+  `).all(match) as { rowid: number; rank: number }[];
+  return new Map(rows.map(row => [row.rowid, row.rank]));
+}
+
+/** Hashes of every frame reported as a false positive. */
+export function listIgnoredFrames(): IgnoredFrame[] {
+  const rows = db.prepare(`
+    SELECT camera_id, zone, phash FROM events WHERE label = 'false-positive' AND phash IS NOT NULL
+  `).all() as Pick<EventRow, 'camera_id' | 'zone' | 'phash'>[];
+  return rows.map(row => ({ cameraId: row.camera_id ?? undefined, zone: row.zone ?? undefined, phash: row.phash! }));
+}
+
+/** The latest false positives from a camera, as few-shot examples for the AI. */
+export function falsePositiveExamples(cameraId: string | undefined, limit: number) {
+  const rows = db.prepare(`
+    SELECT snapshot, reason FROM events
+    WHERE label = 'false-positive' AND (@cameraId IS NULL OR camera_id = @cameraId)
+    ORDER BY timestamp DESC LIMIT @limit
+  `).all({ cameraId: cameraId ?? null, limit }) as Pick<EventRow, 'snapshot' | 'reason'>[];
+  return rows.flatMap(row => {
+    const file = mediaPath(row.snapshot);
+    return fs.existsSync(file) ? [{ image: fs.readFileSync(file).toString('base64'), reason: row.reason }] : [];
+  });
+}
+
+export function labelStats(query: EventQuery): LabelStats[] {
+  const { sql, params } = whereFilters(query);
+  return db.prepare(`
+    SELECT trigger_source AS triggerSource,
+      COUNT(*) AS total,
+      COUNT(*) FILTER (WHERE label = 'false-positive') AS falsePositives,
+      COUNT(*) FILTER (WHERE label = 'confirmed') AS confirmed
+    FROM events ${sql} GROUP BY trigger_source ORDER BY trigger_source
+  `).all(params) as LabelStats[];
+}
+
+// JPEG COM segments hold at most 64 KiB including the two length bytes
+const MAX_COMMENT = 0xffff - 2;
+const SHORTENED_TEXT = 1000; // Characters of the reason and caption kept when the metadata is too big
+
+/**
+ * The event's metadata as JSON that fits in one comment. Metadata that is too
+ * big loses its detections and tags, then has its text shortened, and is
+ * marked `truncated`; cutting the JSON itself would leave it unreadable.
+ */
+function frameComment(event: EventRecord) {
+  const { image, clip, ...metadata } = event;
+  const shorten = (text?: string) => (text && text.length > SHORTENED_TEXT ? `${text.slice(0, SHORTENED_TEXT)}…` : text);
+  const trimmed = { ...metadata, detections: undefined, tags: undefined, truncated: true };
+  const candidates = [
+    metadata,
+    trimmed,
+    { ...trimmed, reason: shorten(metadata.reason), caption: shorten(metadata.caption) },
+    { id: event.id, timestamp: event.timestamp, triggerSource: event.triggerSource, cameraId: event.cameraId, truncated: true },
+  ];
+  for (const candidate of candidates) {
+    const comment = Buffer.from(JSON.stringify({ ...candidate, source: "SentryAI" }));
+    if (comment.length <= MAX_COMMENT) return comment;
+  }
+  throw new Error(`Event ${event.id} has metadata too large for a JPEG comment`);
+}
+
+/**
+ * The event's snapshot with its metadata embedded as JSON in a JPEG comment
+ * (readable with e.g. `exiftool -Comment`), so the frame stays self-describing.
+ */
+export function exportFrame(id: string) {
+  const event = getEvent(id);
+  const row = db.prepare('SELECT snapshot FROM events WHERE id = ?').get(id) as Pick<EventRow, 'snapshot'> | undefined;
+  if (!event || !row || !fs.existsSync(mediaPath(row.snapshot))) return undefined;
+
+  const jpeg = fs.readFileSync(mediaPath(row.snapshot));
+  const comment = frameComment(event);
+  const header = Buffer.from([0xff, 0xfe, (comment.length + 2) >> 8, (comment.length + 2) & 0xff]);
+  // The comment goes straight after the SOI marker
+  return {
+    filename: `sentry-${event.timestamp.replace(/[:.]/g, '-')}-${id.slice(0, 8)}.jpg`,
+    data: Buffer.concat([jpeg.subarray(0, 2), header, comment, jpeg.subarray(2)]),
+  };
+}
+
+/** Deletes matching events and their media files, returning how many were removed. */
+export function deleteEvents(query: EventQuery & { id?: string }) {
+  const { sql, params } = query.id
+    ? { sql: 'WHERE id = @id', params: { id: query.id } }
+    : whereFilters(query);
+  const rows = db.prepare(`DELETE FROM events ${sql} RETURNING snapshot, clip`).all(params) as Pick<EventRow, 'snapshot' | 'clip'>[];
+  // Incidents go with their last event
+  db.prepare('DELETE FROM incidents WHERE id NOT IN (SELECT incident_id FROM events WHERE incident_id IS NOT NULL)').run();
+  rows.forEach(row => {
+    removeMedia(row.snapshot);
+    if (row.clip) removeMedia(row.clip);
+  });
+  return rows.length;
+}
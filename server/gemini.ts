@@ -0,0 +1,339 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, ThinkingLevel, Type, type Schema } from "@google/genai";
+import { THREAT_CATEGORIES, type AnalysisResult, type Detection, type SearchInterpretation, type ThreatCategory } from "../src/types";
+
+export const GEMINI_MODEL = "gemini-3-flash-preview";
+
+let ai: GoogleGenAI | null = null;
+
+// The key is read on the server only and never reaches the browser bundle.
+function getAI() {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new Error("GEMINI_API_KEY is not set");
+  }
+  ai ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  return ai;
+}
+
+// Boxes use Gemini's native [ymin, xmin, ymax, xmax] on a 0-1000 grid, which it localizes best
+const RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    isSuspicious: { type: Type.BOOLEAN },
+    reason: { type: Type.STRING, description: "Short description of what you see" },
+    objects: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          class: { type: Type.STRING, description: "Object class, e.g. person, vehicle, dog, package" },
+          box: {
+            type: Type.ARRAY,
+            items: { type: Type.NUMBER },
+            description: "[ymin, xmin, ymax, xmax] normalized to 0-1000",
+          },
+          confidence: { type: Type.NUMBER, description: "0 to 1" },
+          threat: { type: Type.STRING, enum: [...THREAT_CATEGORIES], nullable: true },
+        },
+        required: ["class", "box", "confidence"],
+      },
+    },
+    caption: {
+      type: Type.STRING,
+      description: "One or two sentences describing the whole scene for someone searching the archive later: each person's clothing and colours, vehicles, animals, carried objects, what they are doing and where in the frame, and whether it looks like day or night",
+    },
+    tags: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Up to 12 short lowercase search keywords, e.g. \"person\", \"red jacket\", \"front door\", \"night\"",
+    },
+  },
+  required: ["isSuspicious", "reason", "objects", "caption", "tags"],
+};
+
+interface GeminiObject {
+  class?: unknown;
+  box?: unknown;
+  confidence?: unknown;
+  threat?: unknown;
+}
+
+const MAX_TAGS = 12;
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+function toDetection(object: GeminiObject): Detection | null {
+  const box = object.box;
+  if (typeof object.class !== 'string' || !Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === 'number')) {
+    return null;
+  }
+  const [ymin, xmin, ymax, xmax] = box.map(n => clamp01(n / 1000));
+  return {
+    label: object.class.toLowerCase(),
+    confidence: typeof object.confidence === 'number' ? clamp01(object.confidence) : 0.5,
+    box: [xmin, ymin, Math.max(0, xmax - xmin), Math.max(0, ymax - ymin)],
+    threat: THREAT_CATEGORIES.includes(object.threat as ThreatCategory) ? object.threat as ThreatCategory : undefined,
+  };
+}
+
+/** A frame the owner reported as a false alarm; `image` is base64 JPEG without the data URL prefix. */
+export interface FewShotExample {
+  image: string;
+  reason: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  /** Includes thinking tokens, which are billed as output. */
+  outputTokens: number;
+}
+
+/** The HTTP status Gemini answered with, when the error came from the API. */
+export function geminiErrorStatus(err: unknown) {
+  const status = (err as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+export async function analyzeImage(
+  base64Image: string,
+  falsePositives: FewShotExample[] = []
+): Promise<{ result: AnalysisResult; usage: TokenUsage }> {
+  // Simplified and more direct prompt to avoid AI over-thinking
+  const prompt = "Is there a human being visible in this security frame? Look closely at the entire image. If you see even a part of a person, respond with isSuspicious: true. List every person, vehicle, animal or carried object you can see with a bounding box, and set threat only when the object itself is a security concern.";
+
+  const response = await getAI().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: [
+      {
+        parts: [
+          { text: prompt },
+          ...falsePositives.flatMap(example => [
+            { text: `The owner marked this earlier frame from the same camera as a false alarm (it was flagged as: "${example.reason}"). Do not flag frames that only show the same scene, lighting changes, shadows or these objects.` },
+            { inlineData: { mimeType: "image/jpeg", data: example.image } },
+          ]),
+          ...(falsePositives.length ? [{ text: "Now analyze this frame:" }] : []),
+          { inlineData: { mimeType: "image/jpeg", data: base64Image.split(',')[1] } }
+        ]
+      }
+    ],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: RESPONSE_SCHEMA,
+      // Use standard thinking for better accuracy if low-latency is failing
+      thinkingConfig: { thinkingLevel: ThinkingLevel.LOW }
+    }
+  });
+
+  const { promptTokenCount = 0, candidatesTokenCount = 0, thoughtsTokenCount = 0 } = response.usageMetadata ?? {};
+  const usage = { inputTokens: promptTokenCount, outputTokens: candidatesTokenCount + thoughtsTokenCount };
+
+  const text = response.text || "{}";
+  const result = JSON.parse(text.substring(text.indexOf('{'), text.lastIndexOf('}') + 1));
+  const objects: GeminiObject[] = Array.isArray(result.objects) ? result.objects : [];
+
+  return {
+    result: {
+      isSuspicious: Boolean(result.isSuspicious),
+      reason: result.reason || "Person detected",
+      detections: objects.map(toDetection).filter((d): d is Detection => d !== null),
+      caption: typeof result.caption === 'string' && result.caption ? result.caption : undefined,
+      tags: Array.isArray(result.tags)
+        ? result.tags.filter((tag: unknown): tag is string => typeof tag === 'string').map((tag: string) => tag.toLowerCase()).slice(0, MAX_TAGS)
+        : undefined,
+    },
+    usage,
+  };
+}
+
+const FACES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    faces: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.ARRAY,
+        items: { type: Type.NUMBER },
+        description: "[ymin, xmin, ymax, xmax] of one face, normalized to 0-1000",
+      },
+    },
+  },
+  required: ["faces"],
+};
+
+/** Boxes around every human face in a frame, as `[x, y, width, height]` normalized to 0..1. */
+export async function findFaces(base64Image: string): Promise<{ faces: [number, number, number, number][]; usage: TokenUsage }> {
+  const response = await getAI().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: [
+      {
+        parts: [
+          { text: "Find every human face in this security frame, including faces that are small, turned away, partly hidden or seen through a window. Return a bounding box for each one, or an empty list if there are none." },
+          { inlineData: { mimeType: "image/jpeg", data: base64Image } }
+        ]
+      }
+    ],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: FACES_SCHEMA,
+      thinkingConfig: { thinkingLevel: ThinkingLevel.LOW }
+    }
+  });
+
+  const { promptTokenCount = 0, candidatesTokenCount = 0, thoughtsTokenCount = 0 } = response.usageMetadata ?? {};
+  const usage = { inputTokens: promptTokenCount, outputTokens: candidatesTokenCount + thoughtsTokenCount };
+
+  const text = response.text || "{}";
+  const result = JSON.parse(text.substring(text.indexOf('{'), text.lastIndexOf('}') + 1));
+  const boxes: unknown[] = Array.isArray(result.faces) ? result.faces : [];
+  const faces = boxes.flatMap(box => {
+    if (!Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === 'number')) return [];
+    const [ymin, xmin, ymax, xmax] = box.map(n => clamp01(n / 1000));
+    return xmax > xmin && ymax > ymin ? [[xmin, ymin, xmax - xmin, ymax - ymin] as [number, number, number, number]] : [];
+  });
+  return { faces, usage };
+}
+
+/** One key frame of an incident; `image` is base64 JPEG without the data URL prefix. */
+export interface ReportFrame {
+  image: string;
+  time: string;
+  trigger: string;
+  zone?: string;
+  /** What the detector said about the frame when it was recorded. */
+  reason: string;
+}
+
+export interface ReportContext {
+  cameraName: string;
+  startedAt: string;
+  endedAt: string;
+  eventCount: number;
+}
+
+/** Asks Gemini for a Markdown incident narrative built from the key frames, in order. */
+export async function writeIncidentReport(context: ReportContext, frames: ReportFrame[]): Promise<{ report: string; usage: TokenUsage }> {
+  const prompt = [
+    `Write a security incident report for camera "${context.cameraName}", covering ${context.eventCount} recorded events between ${context.startedAt} and ${context.endedAt}.`,
+    "The key frames follow in time order, each with the time it was captured and what the detector said about it.",
+    "Respond in Markdown only: a level-2 heading with a short title, a two or three sentence summary, a \"### Timeline\" bullet list with one entry per frame starting with its time in bold, and a \"### Assessment\" section with a threat level (Low, Medium or High) and any recommended follow-up.",
+    "Describe only what is visible. Do not guess identities and do not mention these instructions.",
+  ].join(" ");
+
+  const response = await getAI().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: [
+      {
+        parts: [
+          { text: prompt },
+          ...frames.flatMap((frame, i) => [
+            { text: `Frame ${i + 1} at ${frame.time} (${frame.trigger}${frame.zone ? `, zone "${frame.zone}"` : ""}): ${frame.reason}` },
+            { inlineData: { mimeType: "image/jpeg", data: frame.image } },
+          ]),
+        ]
+      }
+    ],
+    config: {
+      thinkingConfig: { thinkingLevel: ThinkingLevel.LOW }
+    }
+  });
+
+  const { promptTokenCount = 0, candidatesTokenCount = 0, thoughtsTokenCount = 0 } = response.usageMetadata ?? {};
+  const usage = { inputTokens: promptTokenCount, outputTokens: candidatesTokenCount + thoughtsTokenCount };
+
+  const report = response.text?.trim();
+  if (!report) {
+    throw new Error("Gemini returned an empty report");
+  }
+  // Models sometimes wrap Markdown answers in a code fence
+  return { report: report.replace(/^```(?:markdown)?\n([\s\S]*)\n```$/, "$1"), usage };
+}
+
+export const EMBEDDING_MODEL = "gemini-embedding-001";
+// Shorter than the model's native size; plenty for ranking a home archive and a quarter of the storage
+export const EMBEDDING_DIMENSIONS = 768;
+
+/** Embeds texts for archive search: stored events as documents, searches as queries. */
+export async function embedTexts(texts: string[], kind: "document" | "query"): Promise<Float32Array[]> {
+  const response = await getAI().models.embedContent({
+    model: EMBEDDING_MODEL,
+    contents: texts,
+    config: {
+      taskType: kind === "document" ? "RETRIEVAL_DOCUMENT" : "RETRIEVAL_QUERY",
+      outputDimensionality: EMBEDDING_DIMENSIONS,
+    },
+  });
+  const embeddings = response.embeddings ?? [];
+  if (embeddings.length !== texts.length || embeddings.some(e => !e.values?.length)) {
+    throw new Error("Gemini returned no embeddings");
+  }
+  return embeddings.map(e => Float32Array.from(e.values!));
+}
+
+const SEARCH_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING, description: "What to look for, with every time expression removed; empty if the query only names a time" },
+    from: { type: Type.STRING, nullable: true, description: "Start of the time range the query names, ISO 8601 with UTC offset" },
+    to: { type: Type.STRING, nullable: true, description: "End of the time range the query names, ISO 8601 with UTC offset" },
+  },
+  required: ["text"],
+};
+
+const parseTime = (value: unknown) => {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+/**
+ * Splits a natural-language archive search into what to look for and the
+ * time range it mentions ("last Tuesday night"), resolved in the searcher's
+ * time zone.
+ */
+export async function interpretSearch(query: string, timeZone: string): Promise<{ interpretation: SearchInterpretation; usage: TokenUsage }> {
+  const now = new Date();
+  const localNow = now.toLocaleString("en-US", { timeZone, dateStyle: "full", timeStyle: "long" });
+  const offset = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+    .formatToParts(now).find(part => part.type === "timeZoneName")?.value ?? "GMT";
+
+  const response = await getAI().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: [
+      {
+        parts: [
+          {
+            text: [
+              `It is now ${localNow} (${offset}).`,
+              "A user is searching the event archive of their home security cameras. Separate what they are looking for from when.",
+              "Resolve relative times to an absolute range in their time zone: \"night\" is 20:00 to 06:00 the next morning, \"morning\" 06:00 to 12:00, \"afternoon\" 12:00 to 18:00, \"evening\" 18:00 to 22:00, and a bare day is the whole day.",
+              "Leave from and to empty when no time is mentioned.",
+              `Query: ${JSON.stringify(query)}`,
+            ].join(" "),
+          },
+        ]
+      }
+    ],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: SEARCH_SCHEMA,
+      thinkingConfig: { thinkingLevel: ThinkingLevel.LOW }
+    }
+  });
+
+  const { promptTokenCount = 0, candidatesTokenCount = 0, thoughtsTokenCount = 0 } = response.usageMetadata ?? {};
+  const usage = { inputTokens: promptTokenCount, outputTokens: candidatesTokenCount + thoughtsTokenCount };
+
+  const text = response.text || "{}";
+  const result = JSON.parse(text.substring(text.indexOf('{'), text.lastIndexOf('}') + 1));
+  return {
+    interpretation: {
+      text: typeof result.text === 'string' ? result.text.trim() : query,
+      from: parseTime(result.from),
+      to: parseTime(result.to),
+    },
+    usage,
+  };
+}
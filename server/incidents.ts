@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from "fs";
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import Markdown from "react-markdown";
+import { db, mediaPath } from "./db";
+import { incidentKeyFrames } from "./events";
+import { geminiErrorStatus, writeIncidentReport } from "./gemini";
+import { escapeHtml } from "./notify";
+import { getSetting } from "./settings";
+import { budgetRetryAfter, recordCall } from "./usage";
+import type { ArchivedIncident, Camera, EventQuery, EventRecord, Incident } from "../src/types";
+
+interface IncidentRow {
+  id: string;
+  camera_id: string | null;
+  started_at: number;
+  ended_at: number;
+  report: string | null;
+  reported_at: number | null;
+  event_count: number;
+  suspicious_count: number;
+}
+
+const MAX_KEY_FRAMES = 6;
+
+const keyFrames = (id: string) => incidentKeyFrames([id], MAX_KEY_FRAMES).get(id)!;
+
+function toIncident(row: IncidentRow, keyFrames: EventRecord[]): Incident {
+  return {
+    id: row.id,
+    cameraId: row.camera_id ?? undefined,
+    startedAt: new Date(row.started_at).toISOString(),
+    endedAt: new Date(row.ended_at).toISOString(),
+    eventCount: row.event_count,
+    suspiciousCount: row.suspicious_count,
+    keyFrames: keyFrames.map(e => e.image),
+    report: row.report ?? undefined,
+    reportedAt: row.reported_at ? new Date(row.reported_at).toISOString() : undefined,
+  };
+}
+
+// An incident matches a time range when any part of it falls inside
+function whereFilters({ cameraId, from, to }: EventQuery) {
+  const clauses: string[] = [];
+  const params: Record<string, string | number> = {};
+  if (cameraId !== undefined) {
+    clauses.push('i.camera_id = @cameraId');
+    params.cameraId = cameraId;
+  }
+  if (from !== undefined) {
+    clauses.push('i.ended_at >= @from');
+    params.from = from;
+  }
+  if (to !== undefined) {
+    clauses.push('i.started_at <= @to');
+    params.to = to;
+  }
+  return { sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+const SELECT_INCIDENTS = `
+  SELECT i.*, COUNT(e.id) AS event_count, COALESCE(SUM(e.is_suspicious), 0) AS suspicious_count
+  FROM incidents i JOIN events e ON e.incident_id = i.id
+`;
+
+export function listIncidents(query: EventQuery) {
+  const { sql, params } = whereFilters(query);
+  const rows = db.prepare(`
+    ${SELECT_INCIDENTS} ${sql} GROUP BY i.id ORDER BY i.started_at DESC LIMIT @limit OFFSET @offset
+  `).all({ ...params, limit: query.limit ?? 20, offset: query.offset ?? 0 }) as IncidentRow[];
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM incidents i ${sql}`).get(params) as { total: number };
+  const frames = incidentKeyFrames(rows.map(row => row.id), MAX_KEY_FRAMES);
+  return { incidents: rows.map(row => toIncident(row, frames.get(row.id)!)), total };
+}
+
+export function getIncident(id: string) {
+  const row = db.prepare(`${SELECT_INCIDENTS} WHERE i.id = ? GROUP BY i.id`).get(id) as IncidentRow | undefined;
+  return row && toIncident(row, keyFrames(id));
+}
+
+/** The given incidents as they go into an export archive. */
+export function archivedIncidents(ids: string[]): ArchivedIncident[] {
+  const rows = db.prepare(`
+    SELECT * FROM incidents WHERE id IN (SELECT value FROM json_each(?)) ORDER BY started_at
+  `).all(JSON.stringify(ids)) as Omit<IncidentRow, 'event_count' | 'suspicious_count'>[];
+  return rows.map(row => ({
+    id: row.id,
+    cameraId: row.camera_id ?? undefined,
+    startedAt: new Date(row.started_at).toISOString(),
+    endedAt: new Date(row.ended_at).toISOString(),
+    report: row.report ?? undefined,
+    reportedAt: row.reported_at ? new Date(row.reported_at).toISOString() : undefined,
+  }));
+}
+
+/** Adds an incident from an archive, or widens the stored one with the same id to cover it. */
+export function importIncident(incident: ArchivedIncident) {
+  db.prepare(`
+    INSERT INTO incidents (id, camera_id, started_at, ended_at, report, reported_at)
+    VALUES (@id, @cameraId, @startedAt, @endedAt, @report, @reportedAt)
+    ON CONFLICT (id) DO UPDATE SET started_at = MIN(started_at, excluded.started_at), ended_at = MAX(ended_at, excluded.ended_at)
+  `).run({
+    id: incident.id,
+    cameraId: incident.cameraId ?? null,
+    startedAt: Date.parse(incident.startedAt),
+    endedAt: Date.parse(incident.endedAt),
+    report: incident.report ?? null,
+    reportedAt: incident.reportedAt ? Date.parse(incident.reportedAt) : null,
+  });
+}
+
+const snapshotFile = (event: EventRecord) => mediaPath(event.image.split("/").pop()!);
+
+const cameraName = (cameraId?: string) =>
+  getSetting<Camera[]>("cameras", []).find(c => c.id === cameraId)?.name ?? "Unknown camera";
+
+export type ReportGeneration =
+  | { outcome: 'ok'; incident: Incident }
+  | { outcome: 'over-budget'; retryAfter: number };
+
+/**
+ * Has Gemini write the incident's report from its key frames and stores it.
+ * The call counts against the AI budget and is recorded like frame analysis.
+ */
+export async function generateReport(id: string): Promise<ReportGeneration | undefined> {
+  const incident = getIncident(id);
+  if (!incident) return undefined;
+  const retryAfter = budgetRetryAfter();
+  if (retryAfter) {
+    recordCall({ cameraId: incident.cameraId, triggerSource: 'report', outcome: 'over-budget' });
+    return { outcome: 'over-budget', retryAfter };
+  }
+
+  const frames = keyFrames(id)
+    .filter(event => fs.existsSync(snapshotFile(event)))
+    .map(event => ({
+      image: fs.readFileSync(snapshotFile(event)).toString("base64"),
+      time: new Date(event.timestamp).toLocaleTimeString(),
+      trigger: event.triggerSource,
+      zone: event.zone,
+      reason: event.reason,
+    }));
+  if (!frames.length) {
+    throw new Error("None of the incident's snapshots are on disk");
+  }
+
+  const started = performance.now();
+  let report: string;
+  try {
+    const written = await writeIncidentReport({
+      cameraName: cameraName(incident.cameraId),
+      startedAt: new Date(incident.startedAt).toLocaleString(),
+      endedAt: new Date(incident.endedAt).toLocaleString(),
+      eventCount: incident.eventCount,
+    }, frames);
+    recordCall({ cameraId: incident.cameraId, triggerSource: 'report', outcome: 'ok', latencyMs: performance.now() - started, ...written.usage });
+    report = written.report;
+  } catch (err) {
+    const outcome = geminiErrorStatus(err) === 429 ? 'rate-limited' : 'error';
+    const error = err instanceof Error ? err.message : String(err);
+    recordCall({ cameraId: incident.cameraId, triggerSource: 'report', outcome, latencyMs: performance.now() - started, error });
+    throw err;
+  }
+  db.prepare('UPDATE incidents SET report = ?, reported_at = ? WHERE id = ?').run(report, Date.now(), id);
+  return { outcome: 'ok', incident: getIncident(id)! };
+}
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 820px; margin: 40px auto; padding: 0 24px; color: #18181b; line-height: 1.55; }
+  header { border-bottom: 2px solid #10b981; padding-bottom: 12px; margin-bottom: 24px; }
+  header p { margin: 4px 0; color: #52525b; font-size: 13px; }
+  .brand { font-weight: 800; letter-spacing: 0.1em; text-transform: uppercase; color: #10b981; font-size: 12px; }
+  .frames { display: grid; grid-template-columns: repeat(2, 1fr); gap: 16px; margin-top: 32px; }
+  figure { margin: 0; break-inside: avoid; }
+  figure img { width: 100%; border-radius: 8px; }
+  figcaption { font-size: 12px; color: #52525b; margin-top: 4px; }
+  footer { margin-top: 32px; font-size: 11px; color: #a1a1aa; }
+  @media print { body { margin: 0; } }
+`;
+
+/**
+ * The report as a single HTML file with its key frames inlined, so it can be
+ * archived or shared without the app. With `print` it opens the print dialog,
+ * which is how it becomes a PDF.
+ */
+export function reportHtml(id: string, print = false) {
+  const incident = getIncident(id);
+  if (!incident?.report) return undefined;
+
+  const frames = keyFrames(id)
+    .filter(event => fs.existsSync(snapshotFile(event)))
+    .map(event => `
+      <figure>
+        <img src="data:image/jpeg;base64,${fs.readFileSync(snapshotFile(event)).toString("base64")}" alt="Key frame">
+        <figcaption><strong>${escapeHtml(new Date(event.timestamp).toLocaleTimeString())}</strong> · ${escapeHtml(event.reason)}</figcaption>
+      </figure>`)
+    .join("");
+
+  const camera = escapeHtml(cameraName(incident.cameraId));
+  const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Incident report · ${camera} · ${escapeHtml(new Date(incident.startedAt).toLocaleString())}</title>
+<style>${REPORT_STYLES}</style>
+${print ? '<script>addEventListener("load", () => print());</script>' : ""}
+</head>
+<body>
+<header>
+  <div class="brand">SentryAI incident report</div>
+  <p>${camera} · ${escapeHtml(new Date(incident.startedAt).toLocaleString())} – ${escapeHtml(new Date(incident.endedAt).toLocaleTimeString())}</p>
+  <p>${incident.eventCount} events, ${incident.suspiciousCount} flagged suspicious</p>
+</header>
+<article>${renderToStaticMarkup(createElement(Markdown, null, incident.report))}</article>
+<section class="frames">${frames}</section>
+<footer>Report written ${escapeHtml(new Date(incident.reportedAt!).toLocaleString())} · Incident ${incident.id}</footer>
+</body>
+</html>
+`;
+  return {
+    filename: `incident-${incident.startedAt.replace(/[:.]/g, '-')}-${id.slice(0, 8)}.html`,
+    html,
+  };
+}
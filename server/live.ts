@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { LiveMessage } from "../src/types";
+
+type Listener = (message: LiveMessage) => void;
+
+const listeners = new Set<Listener>();
+
+/** Receives every message broadcast from now on, until the returned function is called. */
+export function subscribeLive(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Pushes a message to every open dashboard. */
+export function broadcast(message: LiveMessage) {
+  listeners.forEach(listener => listener(message));
+}
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { getSetting, putSetting } from "./settings";
+
+/**
+ * Snapshots and clips need a session, except through links signed here for
+ * places that can't send one, like notifications. A link names its file and
+ * when it expires, and is signed with a secret the server keeps to itself.
+ */
+
+const LINK_TTL = 7 * 24 * 60 * 60_000; // Long enough to open an alert from the notification a few days later
+
+let secret: Buffer | undefined;
+
+// Created on first use; the settings API only serves known keys, so it never leaves the server
+function linkSecret() {
+  if (!secret) {
+    const stored = getSetting<string | null>("mediaSecret", null) ?? putSetting("mediaSecret", randomBytes(32).toString("base64url"));
+    secret = Buffer.from(stored);
+  }
+  return secret;
+}
+
+const signature = (file: string, expires: number) =>
+  createHmac("sha256", linkSecret()).update(`${file}\n${expires}`).digest("base64url");
+
+/** An absolute link to a `/media/...` URL that works without a session until it expires. */
+export function signedMediaUrl(url: string, baseUrl: string) {
+  const link = new URL(url, baseUrl);
+  const file = link.pathname.split("/").pop()!;
+  const expires = Date.now() + LINK_TTL;
+  link.searchParams.set("expires", String(expires));
+  link.searchParams.set("signature", signature(file, expires));
+  return link.href;
+}
+
+export function verifyMediaLink(file: string, expires: unknown, given: unknown) {
+  const time = Number(expires);
+  if (typeof given !== "string" || !Number.isSafeInteger(time) || time < Date.now()) return false;
+  const expected = Buffer.from(signature(file, time));
+  const actual = Buffer.from(given);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,364 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import sharp from "sharp";
+import { createAnalysisQueue } from "../src/lib/analysisQueue";
+import type { Detector } from "../src/lib/detectors";
+import { FRAME_HEIGHT, FRAME_WIDTH, MOTION_HEIGHT, MOTION_WIDTH } from "../src/lib/frame";
+import {
+  createHealthCheck,
+  healthReason,
+  MAX_ANALYSIS_FAILURES,
+  RECONNECT_DELAYS,
+  RECONNECTS_BEFORE_REPORT,
+  reconnectsOver,
+  type HealthIssue,
+} from "../src/lib/health";
+import { createMotionTrigger } from "../src/lib/motionTrigger";
+import { hashPixels, isIgnored } from "../src/lib/phash";
+import { appliesInMode, createRuleEngine, DEFAULT_RULES } from "../src/lib/rules";
+import { isArmed } from "../src/lib/security";
+import { createTamperCheck, tamperReason, type TamperKind } from "../src/lib/tamper";
+import { raiseAlarm } from "./alarm";
+import { analyzeFrame } from "./analysis";
+import { createEvent, listIgnoredFrames } from "./events";
+import { notifyAll, publicBaseUrl } from "./notify";
+import { broadcast } from "./live";
+import { redactSnapshot } from "./privacy";
+import { indexEvent } from "./search";
+import { getSecurityState } from "./security";
+import { getSetting } from "./settings";
+import { isNetworkSource, openStream, type Stream } from "./stream";
+import type { AnalysisResult, ArmedMode, Camera, EventRecord, Rule, StreamState, StreamStatus, TriggerSource, Zone } from "../src/types";
+
+/**
+ * Watches a camera that has a `source` without a browser: frames decoded by
+ * ffmpeg go through the same motion trigger, analysis queue and rules as in
+ * the app, and matching events are stored, notified and pushed to open
+ * dashboards from here. Sound isn't analyzed for streams. A watchdog restarts
+ * streams that stall, freeze or go black, and reports cameras that stay down or are
+ * tampered with.
+ */
+
+const FPS = 10; // Same rate the browser feeds its analysis worker
+const WATCHDOG_INTERVAL = 1000;
+
+// Only Gemini runs on the server; the on-device detector needs a browser
+const serverDetector: Detector = {
+  name: 'gemini',
+  detect: async ({ image, triggerSource, cameraId }) => {
+    const analysis = await analyzeFrame(image, triggerSource, cameraId);
+    if (analysis.outcome === 'error') throw new Error(analysis.error);
+    if (analysis.outcome !== 'ok') throw new Error(`Analysis ${analysis.outcome}, retry in ${analysis.retryAfter}s`);
+    return { ...analysis.result, detector: 'gemini' };
+  },
+};
+
+// Dwell is counted per rule and camera, so one engine serves every monitor
+const ruleEngine = createRuleEngine();
+
+export interface MonitorOptions {
+  /** Overrides the stored arming state, e.g. for a test run from the command line. */
+  mode?: ArmedMode;
+  /** Restart network streams and files that fail; off, a failure ends the monitor. */
+  restart?: boolean;
+  onEvent?: (event: EventRecord) => void;
+  /** The stream is over for good: a file played out, or it failed with `restart` off. */
+  onEnded?: (error?: string) => void;
+}
+
+export interface CameraMonitor {
+  status: () => StreamStatus;
+  latestFrame: () => Buffer | null;
+  /** Calls `listener` with every new JPEG frame, and with null when the monitor stops, until the returned function is called. */
+  subscribe: (listener: (jpeg: Buffer | null) => void) => () => void;
+  /** Applies changed zones and sensitivity; a changed source needs a new monitor. */
+  update: (camera: Camera) => void;
+  stop: () => void;
+}
+
+type Verdict = Pick<AnalysisResult, 'isSuspicious' | 'reason' | 'detections' | 'caption' | 'tags'>;
+
+export function createCameraMonitor(initial: Camera, options: MonitorOptions = {}): CameraMonitor {
+  const { restart = true } = options;
+  let camera = initial;
+  const source = initial.source!;
+  const motionTrigger = createMotionTrigger(MOTION_WIDTH, MOTION_HEIGHT);
+  let analyzing = false;
+  const queue = createAnalysisQueue(serverDetector, busy => { analyzing = busy; });
+  const listeners = new Set<(jpeg: Buffer | null) => void>();
+
+  let stream: Stream | null = null;
+  let restartTimer: ReturnType<typeof setTimeout> | undefined;
+  let failures = 0;
+  let stopped = false;
+  let state: StreamState = 'starting';
+  let error: string | undefined;
+  let motion = 0;
+  let lastFrameAt: number | undefined;
+  let jpeg: Buffer | null = null;
+  let lastTrigger = 0;
+
+  // Watchdog state, as in the browser: the issue reported once restarts ran out, and failed AI calls in a row
+  const health = createHealthCheck();
+  let reportedIssue: HealthIssue | null = null;
+  let reportedStatus: HealthIssue | null = null; // Reported without reconnecting, e.g. a black picture
+  let analysisFailures = 0;
+  const tamper = createTamperCheck(MOTION_WIDTH, MOTION_HEIGHT);
+
+  motionTrigger.configure(camera.zones, camera.sensitivity);
+
+  const securityState = () => {
+    const stored = getSecurityState();
+    return options.mode ? { ...stored, mode: options.mode, changedAt: 0 } : stored;
+  };
+
+  // The same checks App runs on a browser camera's detections
+  const record = async (image: string, phash: string, triggerSource: TriggerSource, zone: Zone | null, verdict: Verdict) => {
+    const security = securityState();
+    if (!isArmed(security)) return;
+
+    const rules = getSetting<Rule[]>("rules", DEFAULT_RULES).filter(rule => appliesInMode(rule, security.mode));
+    const fired = ruleEngine.evaluate(rules, {
+      cameraId: camera.id,
+      triggerSource,
+      zone: zone?.name ?? null,
+      isSuspicious: verdict.isSuspicious,
+      detections: verdict.detections,
+    });
+    if (!fired.length || isIgnored(listIgnoredFrames(), camera.id, zone?.name, phash)) return;
+
+    // The alarm goes first; redacting may wait on Gemini to find faces
+    const actions = new Set(fired.flatMap(rule => rule.actions));
+    if (actions.has('alarm')) raiseAlarm(camera.id, zone?.name ?? null);
+    const event = createEvent({
+      image: await redactSnapshot(image, camera.id),
+      isSuspicious: true,
+      reason: verdict.reason,
+      triggerSource,
+      zone: zone?.name,
+      cameraId: camera.id,
+      detections: verdict.detections,
+      rule: fired[0].name,
+      phash,
+      caption: verdict.caption,
+      tags: verdict.tags,
+    });
+    if (actions.has('notify')) notifyAll(event, publicBaseUrl());
+    broadcast({ type: 'event', event });
+    indexEvent(event).catch(err => console.warn("Event saved without a search embedding:", err));
+    options.onEvent?.(event);
+  };
+
+  // As in App: no rules or false-positive checks, always the alarm and a notification
+  const recordTamper = async (kind: TamperKind, frame: Buffer) => {
+    if (!isArmed(securityState())) return;
+    raiseAlarm(camera.id, null);
+    const event = createEvent({
+      image: await redactSnapshot(`data:image/jpeg;base64,${frame.toString("base64")}`, camera.id),
+      isSuspicious: true,
+      reason: tamperReason(kind),
+      triggerSource: 'tamper',
+      cameraId: camera.id,
+    });
+    notifyAll(event, publicBaseUrl());
+    broadcast({ type: 'event', event });
+    indexEvent(event).catch(err => console.warn("Event saved without a search embedding:", err));
+    options.onEvent?.(event);
+  };
+
+  // Archived whether or not the system is armed, but only sent out while it is
+  const recordHealth = async (issue: HealthIssue | null) => {
+    const frame = jpeg ?? await sharp({
+      create: { width: FRAME_WIDTH, height: FRAME_HEIGHT, channels: 3, background: "#000" },
+    }).jpeg().toBuffer();
+    const event = createEvent({
+      image: await redactSnapshot(`data:image/jpeg;base64,${frame.toString("base64")}`, camera.id),
+      isSuspicious: false,
+      reason: healthReason(issue),
+      triggerSource: 'system',
+      cameraId: camera.id,
+    });
+    if (isArmed(securityState())) notifyAll(event, publicBaseUrl());
+    broadcast({ type: 'event', event });
+    indexEvent(event).catch(err => console.warn("Event saved without a search embedding:", err));
+    options.onEvent?.(event);
+  };
+
+  const reportHealth = (issue: HealthIssue | null) => {
+    recordHealth(issue).catch(err => console.error(`Failed to record camera health (${camera.name}):`, err));
+  };
+
+  const onMotionFrame = (rgba: Uint8ClampedArray) => {
+    lastFrameAt = Date.now();
+    health.frame(rgba, lastFrameAt);
+    const tampered = tamper.frame(rgba, lastFrameAt);
+    if (tampered && jpeg) {
+      recordTamper(tampered, jpeg).catch(err => console.error(`Failed to record tampering (${camera.name}):`, err));
+    }
+    const sample = motionTrigger.process(rgba);
+    motion = sample.level;
+    // Tampering takes priority; the motion it causes would only raise duplicate alerts
+    if (sample.zoneId === undefined || !jpeg || tamper.active()) return;
+
+    const now = Date.now();
+    if (now - lastTrigger <= (camera.isSmartGuard ? 1000 : 300)) return;
+    lastTrigger = now;
+
+    const zone = camera.zones.find(z => z.id === sample.zoneId) ?? null;
+    const image = `data:image/jpeg;base64,${jpeg.toString("base64")}`;
+    const phash = hashPixels(rgba, MOTION_WIDTH, MOTION_HEIGHT);
+    if (!camera.isSmartGuard) {
+      record(image, phash, 'motion', zone, { isSuspicious: true, reason: "Instant Motion Alert", detections: [] })
+        .catch(err => console.error(`Failed to record event (${camera.name}):`, err));
+      return;
+    }
+    queue.submit({ image, triggerSource: 'motion', cameraId: camera.id, phash })
+      .then(result => {
+        if (!result || stopped) return;
+        analysisFailures = 0;
+        const reason = result.reason || (result.isSuspicious ? "Person detected" : "Nothing suspicious");
+        return record(image, phash, 'motion', zone, { ...result, reason });
+      })
+      .catch(err => {
+        console.error(`AI Analysis failed (${camera.name}):`, err);
+        if (++analysisFailures === MAX_ANALYSIS_FAILURES) reportHealth('analysis');
+      });
+  };
+
+  const end = (reason?: string) => {
+    state = 'ended';
+    error = reason;
+    options.onEnded?.(reason);
+  };
+
+  // Restarts after a backoff; once enough restarts in a row failed, the camera is reported
+  const retry = (issue: HealthIssue, reason: string) => {
+    state = 'retrying';
+    error = reason;
+    console.warn(`Stream for ${camera.name} stopped (${reason}), restarting`);
+    const attempt = failures++;
+    if (attempt >= RECONNECTS_BEFORE_REPORT && reportedIssue === null) {
+      reportedIssue = issue;
+      reportHealth(issue);
+    }
+    restartTimer = setTimeout(start, RECONNECT_DELAYS[Math.min(attempt, RECONNECT_DELAYS.length - 1)]);
+  };
+
+  const checkHealth = () => {
+    if (!stream) return;
+    const issue = health.status(Date.now());
+    if (issue === undefined) return;
+    if (issue && !reconnectsOver(issue)) {
+      if (reportedStatus !== issue) reportHealth(issue);
+      reportedStatus = issue;
+      return;
+    }
+    reportedStatus = null;
+    if (issue === null) {
+      // Only a stream that stayed healthy for a while counts as recovered
+      if (reportedIssue) reportHealth(null);
+      reportedIssue = null;
+      failures = 0;
+      return;
+    }
+    stream.stop();
+    stream = null;
+    motion = 0;
+    motionTrigger.reset();
+    if (!restart) return end(healthReason(issue));
+    retry(issue, healthReason(issue));
+  };
+
+  // Restarts keep the tamper reference, so a lens covered meanwhile still counts as covered
+  const start = () => {
+    health.reset(Date.now());
+    stream = openStream({
+      source,
+      fps: FPS,
+      liveWidth: FRAME_WIDTH,
+      motionWidth: MOTION_WIDTH,
+      motionHeight: MOTION_HEIGHT,
+      loop: camera.loop,
+      onJpeg: (frame) => {
+        jpeg = frame;
+        state = 'running';
+        error = undefined;
+        listeners.forEach(listener => listener(frame));
+      },
+      onMotionFrame,
+      onExit: (reason) => {
+        stream = null;
+        motion = 0;
+        motionTrigger.reset();
+        // A file that played to the end is done; a live stream closing is always a failure
+        if (!reason && !isNetworkSource(source)) return end();
+        if (!restart) return end(reason ?? "Stream closed");
+        retry('unavailable', reason ?? "Stream closed");
+      },
+    });
+  };
+
+  tamper.reset(Date.now());
+  start();
+  const watchdog = setInterval(checkHealth, WATCHDOG_INTERVAL);
+
+  return {
+    status: () => ({
+      cameraId: camera.id,
+      state,
+      error,
+      motion,
+      analyzing,
+      lastFrameAt: lastFrameAt ? new Date(lastFrameAt).toISOString() : undefined,
+    }),
+    latestFrame: () => jpeg,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    update: (next) => {
+      camera = next;
+      motionTrigger.configure(next.zones, next.sensitivity);
+    },
+    stop: () => {
+      stopped = true;
+      clearTimeout(restartTimer);
+      clearInterval(watchdog);
+      stream?.stop();
+      listeners.forEach(listener => listener(null));
+      listeners.clear();
+    },
+  };
+}
+
+const monitors = new Map<string, { camera: Camera; monitor: CameraMonitor }>();
+
+/** Starts, updates and stops monitors to match the saved cameras. */
+export function syncMonitors(cameras = getSetting<Camera[]>("cameras", [])) {
+  const wanted = new Map(cameras.filter(c => c.source).map(c => [c.id, c]));
+
+  monitors.forEach(({ camera, monitor }, id) => {
+    const next = wanted.get(id);
+    if (!next || next.source !== camera.source || next.loop !== camera.loop) {
+      monitor.stop();
+      monitors.delete(id);
+    }
+  });
+
+  wanted.forEach((camera, id) => {
+    const running = monitors.get(id);
+    if (running) {
+      running.monitor.update(camera);
+      running.camera = camera;
+    } else {
+      monitors.set(id, { camera, monitor: createCameraMonitor(camera) });
+    }
+  });
+}
+
+export const getMonitor = (cameraId: string) => monitors.get(cameraId)?.monitor;
+
+export const monitorStatuses = () => [...monitors.values()].map(({ monitor }) => monitor.status());
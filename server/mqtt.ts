@@ -0,0 +1,291 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { connect, type MqttClient } from "mqtt";
+import { DEFAULT_MQTT } from "../src/lib/mqtt";
+import { exitDeadline } from "../src/lib/security";
+import { zoneThreshold } from "../src/lib/zones";
+import { clearAlarm, getAlarm, muteAlarm } from "./alarm";
+import { broadcast, subscribeLive } from "./live";
+import { getMonitor, monitorStatuses } from "./monitor";
+import { buildMessage, publicBaseUrl } from "./notify";
+import { maskFrame } from "./privacy";
+import { getSecurityState, setMode, verifyPin } from "./security";
+import { getSetting } from "./settings";
+import type { Camera, CameraLevels, LiveMessage, MqttSettings } from "../src/types";
+
+/**
+ * Bridges the system to home automation over MQTT. Under the topic prefix:
+ *
+ *   status                  "online" or "offline" (retained; the broker sends "offline" if the server drops off)
+ *   state                   disarmed, arming, armed_home, armed_away, pending or triggered (retained)
+ *   alarm                   the current alarm as JSON, or null (retained)
+ *   event                   each new event, shaped like a webhook notification
+ *   camera/<id>/motion      "ON" or "OFF" (retained), a binary motion sensor
+ *   camera/<id>/levels      motion and audio meters (0-100) while a camera runs
+ *   camera/<id>/snapshot    a JPEG, in answer to the snapshot command (retained)
+ *
+ *   command/arm             "home" or "away"; empty arms away
+ *   command/disarm          the PIN, or anything while none is set
+ *   command/mute            silences the siren on every dashboard
+ *   command/snapshot        a camera id or name; empty for every camera
+ *
+ * With a discovery prefix set, each camera is announced to Home Assistant as
+ * a device with a motion sensor and a camera showing the latest snapshot.
+ */
+
+const TICK_INTERVAL = 1000;
+const MOTION_HOLD = 10_000; // A motion sensor stays on this long after the last moving frame, like a PIR sensor
+const LEVELS_INTERVAL = 2000; // Meters arrive twice a second; automations need far fewer
+const RECENT_EVENTS = 200; // Event ids remembered, so later updates of an event aren't sent as new ones
+
+let settings: MqttSettings = DEFAULT_MQTT;
+let client: MqttClient | null = null;
+let lastError: string | undefined;
+let listening = false;
+
+// Published state, so only changes go out
+let panelState: string | undefined;
+const lastMotionAt = new Map<string, number>();
+const motionOn = new Map<string, boolean>();
+const levelsSentAt = new Map<string, number>();
+const announced = new Set<string>();
+const recentEvents = new Set<string>();
+
+const topic = (...levels: string[]) => [settings.topicPrefix, ...levels].join("/");
+
+// Camera ids go into topic names and Home Assistant ids, which allow fewer characters
+const nodeId = (id: string) => id.replace(/[^\w-]/g, "_");
+
+const cameras = () => getSetting<Camera[]>("cameras", []);
+
+function publish(name: string, payload: string | Buffer, retain = false) {
+  if (!client?.connected) return;
+  client.publish(name, payload, { qos: 1, retain });
+}
+
+/** The security state in the words Home Assistant's alarm panels use. */
+function alarmPanelState() {
+  const alarm = getAlarm();
+  if (alarm) return alarm.sounding ? "triggered" : "pending";
+  const security = getSecurityState();
+  if (security.mode === 'disarmed') return "disarmed";
+  if (exitDeadline(security) !== null) return "arming";
+  return security.mode === 'home' ? "armed_home" : "armed_away";
+}
+
+function publishState(force = false) {
+  const state = alarmPanelState();
+  if (state === panelState && !force) return;
+  panelState = state;
+  publish(topic("state"), state, true);
+}
+
+/** Announces every camera to Home Assistant, and withdraws the ones that were removed. */
+export function announceCameras(list = cameras()) {
+  if (!client?.connected || !settings.discoveryPrefix) return;
+  const stale = new Set(announced);
+  const prefixId = nodeId(settings.topicPrefix);
+  for (const camera of list) {
+    const node = nodeId(camera.id);
+    const device = {
+      identifiers: [`${prefixId}_${node}`],
+      name: camera.name,
+      manufacturer: "SentryAI",
+      model: camera.source ? "Stream camera" : "Browser camera",
+    };
+    const config = (component: string) => `${settings.discoveryPrefix}/${component}/${prefixId}/${node}/config`;
+    const topics = [config("binary_sensor"), config("camera")];
+    publish(topics[0], JSON.stringify({
+      name: "Motion",
+      unique_id: `${prefixId}_${node}_motion`,
+      device_class: "motion",
+      state_topic: topic("camera", node, "motion"),
+      availability_topic: topic("status"),
+      device,
+    }), true);
+    publish(topics[1], JSON.stringify({
+      name: "Snapshot",
+      unique_id: `${prefixId}_${node}_snapshot`,
+      topic: topic("camera", node, "snapshot"),
+      availability_topic: topic("status"),
+      device,
+    }), true);
+    for (const name of topics) {
+      announced.add(name);
+      stale.delete(name);
+    }
+  }
+  // An empty retained config removes the entity
+  for (const name of stale) {
+    publish(name, "", true);
+    announced.delete(name);
+  }
+}
+
+function updateMotion(cameraId: string, now: number) {
+  const on = now - (lastMotionAt.get(cameraId) ?? -Infinity) < MOTION_HOLD;
+  if (motionOn.get(cameraId) === on) return;
+  motionOn.set(cameraId, on);
+  publish(topic("camera", nodeId(cameraId), "motion"), on ? "ON" : "OFF", true);
+}
+
+// Measured against the camera's own sensitivity, like the whole-frame motion trigger
+function recordLevels({ cameraId, motion, audio, analyzing }: CameraLevels, now = Date.now()) {
+  const camera = cameras().find(c => c.id === cameraId);
+  if (!camera) return;
+  if (motion > zoneThreshold(camera.sensitivity)) lastMotionAt.set(cameraId, now);
+  updateMotion(cameraId, now);
+  if (now - (levelsSentAt.get(cameraId) ?? 0) < LEVELS_INTERVAL) return;
+  levelsSentAt.set(cameraId, now);
+  publish(topic("camera", nodeId(cameraId), "levels"), JSON.stringify({ motion, audio, analyzing }));
+}
+
+/** Publishes a frame as a camera's snapshot, with its privacy regions blacked out. */
+export async function publishSnapshot(cameraId: string, image: string) {
+  const masked = await maskFrame(image, cameraId);
+  publish(topic("camera", nodeId(cameraId), "snapshot"), Buffer.from(masked.split(",")[1], "base64"), true);
+}
+
+// Stream cameras have a frame on the server; a dashboard running a browser camera is asked for one
+function requestSnapshots(target: string) {
+  const list = cameras().filter(c => !target || c.id === target || nodeId(c.id) === target || c.name === target);
+  if (!list.length) {
+    console.warn(`MQTT snapshot: no camera "${target}"`);
+    return;
+  }
+  for (const camera of list) {
+    const frame = getMonitor(camera.id)?.latestFrame();
+    if (!frame) {
+      broadcast({ type: 'snapshot', cameraId: camera.id });
+      continue;
+    }
+    publishSnapshot(camera.id, `data:image/jpeg;base64,${frame.toString("base64")}`)
+      .catch(err => console.error(`MQTT snapshot of ${camera.name} failed:`, err));
+  }
+}
+
+function handleCommand(command: string, payload: string) {
+  switch (command) {
+    case "arm": {
+      const mode = payload || 'away';
+      if (mode !== 'home' && mode !== 'away') {
+        console.warn(`MQTT arm: mode must be home or away, not "${mode}"`);
+        return;
+      }
+      setMode(mode, "MQTT");
+      return;
+    }
+    case "disarm":
+      // A wrong PIN counts towards the keypad lockout and lands in the audit trail like any other
+      if (!verifyPin(payload, 'disarm')) {
+        console.warn("MQTT disarm rejected: incorrect PIN or keypad locked");
+        return;
+      }
+      setMode('disarmed', "MQTT");
+      clearAlarm();
+      return;
+    case "mute":
+      muteAlarm();
+      return;
+    case "snapshot":
+      requestSnapshots(payload);
+      return;
+  }
+}
+
+function onLive(message: LiveMessage) {
+  switch (message.type) {
+    case 'security':
+      publishState();
+      return;
+    case 'alarm':
+      publishState();
+      publish(topic("alarm"), JSON.stringify(message.alarm), true);
+      return;
+    case 'event': {
+      const { event } = message;
+      // The first message about an event is its creation; a clip or label arriving later is an update
+      if (recentEvents.has(event.id) || event.clip || event.label) return;
+      recentEvents.add(event.id);
+      if (recentEvents.size > RECENT_EVENTS) recentEvents.delete(recentEvents.values().next().value!);
+      publish(topic("event"), JSON.stringify(buildMessage(event, publicBaseUrl())));
+      return;
+    }
+    case 'levels':
+      recordLevels(message.levels);
+      return;
+  }
+}
+
+// Stream monitors don't broadcast their meters, and motion sensors and the exit delay run out on their own
+function tick() {
+  const now = Date.now();
+  for (const status of monitorStatuses()) {
+    if (status.state === 'running') recordLevels({ cameraId: status.cameraId, motion: status.motion, audio: 0, analyzing: status.analyzing }, now);
+  }
+  for (const camera of cameras()) updateMotion(camera.id, now);
+  publishState();
+}
+
+function onConnect() {
+  lastError = undefined;
+  console.log(`MQTT connected to ${settings.url}`);
+  client!.subscribe([topic("command", "+"), ...(settings.discoveryPrefix ? [`${settings.discoveryPrefix}/status`] : [])]);
+  publish(topic("status"), "online", true);
+  publishState(true);
+  publish(topic("alarm"), JSON.stringify(getAlarm()), true);
+  // Retained messages may have been lost with a broker restart, so everything goes out again
+  motionOn.clear();
+  announced.clear();
+  announceCameras();
+  tick();
+}
+
+function onMessage(name: string, payload: Buffer) {
+  const text = payload.toString().trim();
+  const commands = topic("command") + "/";
+  if (name.startsWith(commands)) {
+    handleCommand(name.slice(commands.length), text);
+  } else if (name === `${settings.discoveryPrefix}/status` && text === "online") {
+    // Home Assistant restarted and needs the cameras again
+    announceCameras();
+  }
+}
+
+function disconnect() {
+  if (!client) return;
+  publish(topic("status"), "offline", true);
+  client.end();
+  client = null;
+}
+
+/** Connects with the saved settings, replacing any earlier connection; does nothing while MQTT is off. */
+export function startMqtt() {
+  disconnect();
+  settings = { ...DEFAULT_MQTT, ...getSetting<Partial<MqttSettings>>("mqtt", {}) };
+  if (!settings.enabled || !settings.url) return;
+
+  client = connect(settings.url, {
+    username: settings.username || undefined,
+    password: settings.password || undefined,
+    reconnectPeriod: 5000,
+    will: { topic: topic("status"), payload: Buffer.from("offline"), qos: 1, retain: true },
+  });
+  client.on("connect", onConnect);
+  client.on("message", onMessage);
+  client.on("error", (err) => {
+    // The client retries every few seconds; the same failure is only logged once
+    if (err.message === lastError) return;
+    lastError = err.message;
+    console.error(`MQTT connection to ${settings.url} failed:`, err.message);
+  });
+
+  if (!listening) {
+    listening = true;
+    subscribeLive(onLive);
+    setInterval(tick, TICK_INTERVAL).unref();
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Request } from "express";
+import fs from "fs";
+import nodemailer from "nodemailer";
+import { mediaPath } from "./db";
+import { signedMediaUrl } from "./media";
+import { getSetting } from "./settings";
+import type { Camera, EmailNotifier, EventRecord, Notifier, PushNotifier, WebhookNotifier } from "../src/types";
+
+/** What every destination gets told about an alert. */
+export interface AlertMessage {
+  event: EventRecord;
+  cameraName?: string;
+  /**
+   * Absolute URLs, so links work outside the app; the image link is signed, since
+   * whoever opens it has no session. There is no image for a test without any events.
+   */
+  imageUrl?: string;
+  appUrl: string;
+  /** Alerts swallowed by the cooldown since the last message to this destination. */
+  suppressed: number;
+}
+
+const RETRY_DELAYS = [2000, 10000, 30000];
+const REQUEST_TIMEOUT = 10000;
+
+// Per-destination cooldown state lives in memory; a restart simply lets the next alert through
+const lastSent = new Map<string, number>();
+const suppressed = new Map<string, number>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function title({ event, cameraName, suppressed }: AlertMessage) {
+  const where = [cameraName, event.zone].filter(Boolean).join(" · ");
+  const more = suppressed ? ` (+${suppressed} more)` : "";
+  return `SentryAI alert${where ? `: ${where}` : ""}${more}`;
+}
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+async function post(url: string, init: RequestInit) {
+  const res = await fetch(url, { method: "POST", signal: AbortSignal.timeout(REQUEST_TIMEOUT), ...init });
+  if (!res.ok) {
+    throw new Error(`${url} responded with ${res.status}`);
+  }
+}
+
+function sendWebhook(notifier: WebhookNotifier, message: AlertMessage) {
+  return post(notifier.url, {
+    headers: { "Content-Type": "application/json", ...notifier.headers },
+    body: JSON.stringify({
+      title: title(message),
+      reason: message.event.reason,
+      imageUrl: message.imageUrl,
+      appUrl: message.appUrl,
+      cameraName: message.cameraName,
+      suppressed: message.suppressed,
+      event: message.event,
+    }),
+  });
+}
+
+function sendPush(notifier: PushNotifier, message: AlertMessage) {
+  if (notifier.kind === 'ntfy') {
+    // JSON publishing to the server root, so titles aren't limited to header-safe characters
+    const { origin, pathname } = new URL(notifier.url);
+    return post(origin, {
+      headers: {
+        "Content-Type": "application/json",
+        ...(notifier.token ? { Authorization: `Bearer ${notifier.token}` } : {}),
+      },
+      body: JSON.stringify({
+        topic: pathname.replace(/^\/|\/$/g, ""),
+        title: title(message),
+        message: message.event.reason,
+        tags: ["rotating_light"],
+        priority: 4,
+        attach: message.imageUrl,
+        click: message.appUrl,
+      }),
+    });
+  }
+  return post(`${notifier.url.replace(/\/$/, "")}/message`, {
+    headers: { "Content-Type": "application/json", "X-Gotify-Key": notifier.token },
+    body: JSON.stringify({
+      title: title(message),
+      message: message.imageUrl ? `${message.event.reason}\n\n![snapshot](${message.imageUrl})` : message.event.reason,
+      priority: 8,
+      extras: {
+        "client::display": { contentType: "text/markdown" },
+        "client::notification": { click: { url: message.appUrl }, bigImageUrl: message.imageUrl },
+      },
+    }),
+  });
+}
+
+async function sendEmail(notifier: EmailNotifier, message: AlertMessage) {
+  const transport = nodemailer.createTransport({
+    host: notifier.host,
+    port: notifier.port,
+    secure: notifier.secure,
+    auth: notifier.username ? { user: notifier.username, pass: notifier.password } : undefined,
+  });
+  const snapshot = message.imageUrl && mediaPath(message.event.image.split("/").pop()!);
+  const attach = Boolean(snapshot && fs.existsSync(snapshot));
+  await transport.sendMail({
+    from: notifier.from,
+    to: notifier.to,
+    subject: title(message),
+    text: `${message.event.reason}\n\n${new Date(message.event.timestamp).toLocaleString()}\n${message.appUrl}`,
+    attachments: attach ? [{ filename: "snapshot.jpg", path: snapshot as string, cid: "snapshot" }] : [],
+    html: `<p>${escapeHtml(message.event.reason)}</p>`
+      + (attach ? `<p><img src="cid:snapshot" alt="Snapshot" style="max-width:100%"></p>` : "")
+      + `<p><a href="${escapeHtml(message.appUrl)}">Open in SentryAI</a></p>`,
+  });
+}
+
+export function deliver(notifier: Notifier, message: AlertMessage): Promise<void> {
+  switch (notifier.kind) {
+    case 'webhook': return sendWebhook(notifier, message);
+    case 'email': return sendEmail(notifier, message);
+    case 'ntfy':
+    case 'gotify': return sendPush(notifier, message);
+  }
+}
+
+async function deliverWithRetry(notifier: Notifier, message: AlertMessage) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await deliver(notifier, message);
+      return;
+    } catch (err) {
+      if (attempt >= RETRY_DELAYS.length) {
+        console.error(`Notification to "${notifier.name}" failed after ${attempt + 1} attempts:`, err);
+        return;
+      }
+      await sleep(RETRY_DELAYS[attempt]);
+    }
+  }
+}
+
+/**
+ * APP_URL when it is configured, otherwise the address the request came in on,
+ * or localhost for alerts that don't start from a request.
+ */
+export function publicBaseUrl(req?: Request) {
+  const configured = process.env.APP_URL;
+  if (configured && URL.canParse(configured)) return configured;
+  return req ? `${req.protocol}://${req.get("host")}` : `http://localhost:${Number(process.env.PORT) || 3000}`;
+}
+
+export function buildMessage(event: EventRecord, baseUrl: string): Omit<AlertMessage, 'suppressed'> {
+  const cameras = getSetting<Camera[]>("cameras", []);
+  return {
+    event,
+    cameraName: cameras.find(c => c.id === event.cameraId)?.name,
+    imageUrl: signedMediaUrl(event.image, baseUrl),
+    appUrl: new URL("/", baseUrl).href,
+  };
+}
+
+/** Fans an alert out to every enabled destination in the background, honouring each one's cooldown. */
+export function notifyAll(event: EventRecord, baseUrl: string) {
+  const base = buildMessage(event, baseUrl);
+  const now = Date.now();
+
+  getSetting<Notifier[]>("notifiers", []).filter(n => n.enabled).forEach(notifier => {
+    const last = lastSent.get(notifier.id);
+    if (last !== undefined && now - last < notifier.cooldown * 1000) {
+      suppressed.set(notifier.id, (suppressed.get(notifier.id) ?? 0) + 1);
+      return;
+    }
+    lastSent.set(notifier.id, now);
+    const message = { ...base, suppressed: suppressed.get(notifier.id) ?? 0 };
+    suppressed.delete(notifier.id);
+    void deliverWithRetry(notifier, message);
+  });
+}
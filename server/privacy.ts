@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import sharp from "sharp";
+import { DEFAULT_PRIVACY } from "../src/lib/privacy";
+import { privacyZones } from "../src/lib/zones";
+import { findFaces, geminiErrorStatus } from "./gemini";
+import { getSetting } from "./settings";
+import { budgetRetryAfter, recordCall } from "./usage";
+import type { Camera, PrivacySettings } from "../src/types";
+
+/**
+ * Redacts frames on the server, so the same masks apply whether a frame came
+ * from a browser or from a stream the server watches itself.
+ */
+
+// Faces are boxed tightly, so the blur reaches a little past the box to cover hair and ears
+const FACE_MARGIN = 0.25;
+
+export const getPrivacy = () => ({ ...DEFAULT_PRIVACY, ...getSetting<Partial<PrivacySettings>>("privacy", {}) });
+
+const toDataUrl = (jpeg: Buffer) => `data:image/jpeg;base64,${jpeg.toString("base64")}`;
+
+/**
+ * Blacks out the camera's privacy zones in a JPEG data URL before it is sent
+ * to Gemini or stored. Frames from cameras without any come back as they are.
+ */
+export async function maskFrame(image: string, cameraId?: string) {
+  const camera = getSetting<Camera[]>("cameras", []).find(c => c.id === cameraId);
+  const zones = camera ? privacyZones(camera.zones) : [];
+  if (!zones.length) return image;
+
+  const jpeg = Buffer.from(image.split(',')[1], "base64");
+  const { width = 0, height = 0 } = await sharp(jpeg).metadata();
+  const polygons = zones
+    .map(zone => `<polygon points="${zone.points.map(([x, y]) => `${x * width},${y * height}`).join(" ")}" fill="#000"/>`)
+    .join("");
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${polygons}</svg>`;
+  return toDataUrl(await sharp(jpeg).composite([{ input: Buffer.from(svg) }]).jpeg().toBuffer());
+}
+
+async function blurBoxes(jpeg: Buffer, boxes: [number, number, number, number][]) {
+  const { width = 0, height = 0 } = await sharp(jpeg).metadata();
+  const patches = await Promise.all(boxes.map(async ([x, y, w, h]) => {
+    const left = Math.max(0, Math.floor((x - w * FACE_MARGIN) * width));
+    const top = Math.max(0, Math.floor((y - h * FACE_MARGIN) * height));
+    const right = Math.min(width, Math.ceil((x + w * (1 + FACE_MARGIN)) * width));
+    const bottom = Math.min(height, Math.ceil((y + h * (1 + FACE_MARGIN)) * height));
+    const region = { left, top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) };
+    // Strong enough that a face can't be sharpened back out of the blur
+    const sigma = Math.max(4, Math.max(region.width, region.height) / 4);
+    const input = await sharp(jpeg).extract(region).blur(sigma).toBuffer();
+    return { input, left, top };
+  }));
+  return sharp(jpeg).composite(patches).jpeg().toBuffer();
+}
+
+/**
+ * Everything an event snapshot needs before it is stored and sent out: the
+ * privacy zones blacked out and, when enabled, the faces Gemini finds
+ * blurred. The face search counts against the call budget like frame
+ * analysis; when it is refused or fails, the frame is kept unblurred rather
+ * than losing the event.
+ */
+export async function redactSnapshot(image: string, cameraId?: string) {
+  const masked = await maskFrame(image, cameraId);
+  if (!getPrivacy().blurFaces) return masked;
+  if (budgetRetryAfter()) {
+    recordCall({ cameraId, triggerSource: 'faces', outcome: 'over-budget' });
+    console.warn("Faces in a snapshot were not blurred: the AI call budget is used up");
+    return masked;
+  }
+
+  const jpeg = Buffer.from(masked.split(",")[1], "base64");
+  const started = performance.now();
+  let faces: [number, number, number, number][];
+  try {
+    const found = await findFaces(jpeg.toString("base64"));
+    recordCall({ cameraId, triggerSource: 'faces', outcome: 'ok', latencyMs: performance.now() - started, ...found.usage });
+    faces = found.faces;
+  } catch (err) {
+    const outcome = geminiErrorStatus(err) === 429 ? 'rate-limited' : 'error';
+    const error = err instanceof Error ? err.message : String(err);
+    recordCall({ cameraId, triggerSource: 'faces', outcome, latencyMs: performance.now() - started, error });
+    console.warn("Faces in a snapshot were not blurred:", err);
+    return masked;
+  }
+  return faces.length ? toDataUrl(await blurBoxes(jpeg, faces)) : masked;
+}
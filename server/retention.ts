@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from "fs";
+import { mediaPath } from "./db";
+import { deleteEvents, listMedia } from "./events";
+import { getPrivacy } from "./privacy";
+
+const CHECK_INTERVAL = 60 * 60_000;
+const DAY = 24 * 60 * 60_000;
+const MB = 1024 * 1024;
+
+const fileSize = (file: string) => {
+  try {
+    return fs.statSync(mediaPath(file)).size;
+  } catch {
+    return 0;
+  }
+};
+
+/** Timestamp of the newest event that no longer fits in `quota` bytes, counting from the newest. */
+function quotaCutoff(quota: number) {
+  let used = 0;
+  for (const { timestamp, snapshot, clip } of listMedia()) {
+    used += fileSize(snapshot) + (clip ? fileSize(clip) : 0);
+    if (used > quota) return timestamp;
+  }
+  return undefined;
+}
+
+/** Deletes events past the configured age or storage limit, returning how many went. */
+export function enforceRetention() {
+  const { retentionDays, maxStorageMb } = getPrivacy();
+  let removed = 0;
+  if (retentionDays > 0) {
+    removed += deleteEvents({ to: Date.now() - retentionDays * DAY });
+  }
+  const cutoff = maxStorageMb > 0 ? quotaCutoff(maxStorageMb * MB) : undefined;
+  if (cutoff !== undefined) {
+    removed += deleteEvents({ to: cutoff });
+  }
+  if (removed) console.log(`Retention policy deleted ${removed} events`);
+  return removed;
+}
+
+/** Applies the retention policy now and then every hour. */
+export function startRetention() {
+  enforceRetention();
+  setInterval(enforceRetention, CHECK_INTERVAL).unref();
+}
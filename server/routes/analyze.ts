@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from "express";
+import { analyzeFrame } from "../analysis";
+import { isJpegDataUrl, isTriggerSource, TRIGGER_SOURCES } from "./validation";
+
+export const analyzeRouter = Router();
+
+analyzeRouter.post("/", async (req, res) => {
+  const { image, triggerSource = 'motion' } = req.body ?? {};
+  const cameraId = typeof req.body?.cameraId === 'string' ? req.body.cameraId as string : undefined;
+
+  if (!isJpegDataUrl(image)) {
+    res.status(400).json({ error: "image must be a base64 JPEG data URL" });
+    return;
+  }
+  if (!isTriggerSource(triggerSource)) {
+    res.status(400).json({ error: `triggerSource must be one of ${TRIGGER_SOURCES.join(', ')}` });
+    return;
+  }
+
+  const analysis = await analyzeFrame(image, triggerSource, cameraId);
+  switch (analysis.outcome) {
+    case 'ok':
+      res.json(analysis.result);
+      break;
+    case 'over-budget':
+    case 'rate-limited':
+      res.status(429).set("Retry-After", String(analysis.retryAfter)).json({
+        error: analysis.outcome === 'over-budget' ? "Analysis budget exceeded" : "Gemini rate limit reached",
+        retryAfter: analysis.retryAfter,
+      });
+      break;
+    case 'error':
+      res.status(502).json({ error: "AI analysis failed" });
+      break;
+  }
+});
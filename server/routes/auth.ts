@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { hasRole } from "../../src/lib/roles";
+import { countUsers, createSession, createUser, deleteSession, getSessionUser, loginLockout, verifyLogin } from "../auth";
+import type { SessionInfo, User, UserRole } from "../../src/types";
+import { isPassword, isUsername } from "./validation";
+
+const SESSION_COOKIE = "sentry_session";
+
+export const authRouter = Router();
+
+function sessionToken(req: Request) {
+  const cookies = req.headers.cookie?.split(";") ?? [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+function startSession(req: Request, res: Response, user: User) {
+  const { token, maxAge } = createSession(user.id);
+  res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: "lax", secure: req.secure, maxAge, path: "/" });
+}
+
+/** The signed-in user, set by `authenticate`. */
+export const currentUser = (res: Response) => res.locals.user as User;
+
+/** Rejects requests without a valid session; everything after it can rely on `currentUser`. */
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  const token = sessionToken(req);
+  const user = token ? getSessionUser(token) : null;
+  if (!user) {
+    res.status(401).json({ error: "Sign in required" });
+    return;
+  }
+  res.locals.user = user;
+  next();
+}
+
+export function requireRole(role: UserRole) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    if (!hasRole(currentUser(res).role, role)) {
+      res.status(403).json({ error: `This needs ${role} access` });
+      return;
+    }
+    next();
+  };
+}
+
+authRouter.get("/session", (req, res) => {
+  const token = sessionToken(req);
+  const session: SessionInfo = { user: token ? getSessionUser(token) : null, needsSetup: countUsers() === 0 };
+  res.json(session);
+});
+
+// Creates the first account, which is always an admin; closed once any account exists
+authRouter.post("/setup", (req, res) => {
+  const { username, password } = req.body ?? {};
+  if (!isUsername(username) || !isPassword(password)) {
+    res.status(400).json({ error: "Username must be 1-64 letters, digits or . _ @ -; password at least 8 characters" });
+    return;
+  }
+  if (countUsers() > 0) {
+    res.status(409).json({ error: "An account already exists; sign in instead" });
+    return;
+  }
+  const user = createUser(username, password, 'admin')!;
+  startSession(req, res, user);
+  res.status(201).json(user);
+});
+
+authRouter.post("/login", (req, res) => {
+  const { username, password } = req.body ?? {};
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    res.status(400).json({ error: "username and password are required" });
+    return;
+  }
+  const lockout = loginLockout(username);
+  if (lockout) {
+    res.status(429).json({ error: `Too many attempts, try again in ${lockout}s` });
+    return;
+  }
+  const user = verifyLogin(username, password);
+  if (!user) {
+    res.status(401).json({ error: "Incorrect username or password" });
+    return;
+  }
+  startSession(req, res, user);
+  res.json(user);
+});
+
+authRouter.post("/logout", (req, res) => {
+  const token = sessionToken(req);
+  if (token) deleteSession(token);
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+  res.status(204).end();
+});
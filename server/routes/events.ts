@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express, { Router } from "express";
+import { pipeline, Readable } from "stream";
+import { exportArchive, exportCsv, findMissingMedia, importArchive, MANIFEST_FILE } from "../archive";
+import {
+  attachClip,
+  createEvent,
+  deleteEvents,
+  exportFrame,
+  getEvent,
+  isClipType,
+  labelStats,
+  listEvents,
+  listIgnoredFrames,
+  setLabel,
+} from "../events";
+import { broadcast } from "../live";
+import { notifyAll, publicBaseUrl } from "../notify";
+import { redactSnapshot } from "../privacy";
+import { indexEvent, searchEvents } from "../search";
+import { readTar } from "../tar";
+import { requireRole } from "./auth";
+import { isArchiveManifest, isDetection, isEventLabel, isEventTimestamp, isJpegDataUrl, isPhash, isTags, isEventSource, isTimeZone, parseEventQuery } from "./validation";
+
+const MAX_SEARCH_LENGTH = 300;
+
+export const eventsRouter = Router();
+
+eventsRouter.get("/", (req, res) => {
+  const query = parseEventQuery(req.query);
+  if (!query) {
+    res.status(400).json({ error: "limit, offset, from and to must be numbers" });
+    return;
+  }
+  res.json(listEvents(query));
+});
+
+eventsRouter.post("/", requireRole('operator'), async (req, res) => {
+  const { image, isSuspicious = true, reason, triggerSource, zone, cameraId, detections = [], rule, phash, caption, tags, notify = false, timestamp } = req.body ?? {};
+
+  if (!isJpegDataUrl(image) || typeof reason !== 'string' || !isEventSource(triggerSource)) {
+    res.status(400).json({ error: "image, reason and triggerSource are required" });
+    return;
+  }
+  if (!Array.isArray(detections) || !detections.every(isDetection)) {
+    res.status(400).json({ error: "detections must be a list of { label, confidence, box }" });
+    return;
+  }
+
+  let masked: string;
+  try {
+    masked = await redactSnapshot(image, typeof cameraId === 'string' ? cameraId : undefined);
+  } catch {
+    res.status(400).json({ error: "image is not a readable JPEG" });
+    return;
+  }
+
+  const event = createEvent({
+    image: masked,
+    isSuspicious: Boolean(isSuspicious),
+    reason,
+    triggerSource,
+    zone: typeof zone === 'string' ? zone : undefined,
+    cameraId: typeof cameraId === 'string' ? cameraId : undefined,
+    detections,
+    rule: typeof rule === 'string' ? rule : undefined,
+    phash: isPhash(phash) ? phash : undefined,
+    caption: typeof caption === 'string' ? caption : undefined,
+    tags: isTags(tags) ? tags : undefined,
+    // Anything else, like a clock far ahead, gets the server's time
+    timestamp: isEventTimestamp(timestamp) ? Math.round(timestamp) : undefined,
+  });
+  if (notify === true) {
+    notifyAll(event, publicBaseUrl(req));
+  }
+  broadcast({ type: 'event', event });
+  indexEvent(event).catch(err => console.warn("Event saved without a search embedding:", err));
+  res.status(201).json(event);
+});
+
+// `tz` is the searcher's IANA time zone, so "last night" means their night
+eventsRouter.get("/search", async (req, res) => {
+  const query = parseEventQuery(req.query);
+  const { q, tz = "UTC" } = req.query;
+  if (!query || typeof q !== 'string' || !q.trim() || q.length > MAX_SEARCH_LENGTH || !isTimeZone(tz)) {
+    res.status(400).json({ error: `q (up to ${MAX_SEARCH_LENGTH} characters) is required; tz must be a time zone and from/to numbers` });
+    return;
+  }
+  res.json(await searchEvents(q.trim(), query, tz));
+});
+
+eventsRouter.get("/stats", (req, res) => {
+  const query = parseEventQuery(req.query);
+  if (!query) {
+    res.status(400).json({ error: "from and to must be numbers" });
+    return;
+  }
+  res.json(labelStats(query));
+});
+
+eventsRouter.get("/ignored", (_req, res) => {
+  res.json(listIgnoredFrames());
+});
+
+// Exports take the archive's camera and time filters; paging doesn't apply
+eventsRouter.get("/export.csv", (req, res) => {
+  const query = parseEventQuery(req.query);
+  if (!query) {
+    res.status(400).json({ error: "from and to must be numbers" });
+    return;
+  }
+  const { filename, csv } = exportCsv({ cameraId: query.cameraId, from: query.from, to: query.to });
+  res.attachment(filename).type("text/csv").send(csv);
+});
+
+eventsRouter.get("/export.tar", (req, res) => {
+  const query = parseEventQuery(req.query);
+  if (!query) {
+    res.status(400).json({ error: "from and to must be numbers" });
+    return;
+  }
+  const { filename, chunks } = exportArchive({ cameraId: query.cameraId, from: query.from, to: query.to });
+  res.attachment(filename).type("application/x-tar");
+  pipeline(Readable.from(chunks), res, (err) => {
+    if (err) console.error("Archive export failed:", err);
+  });
+});
+
+// The archive is uploaded as the raw request body, as exported
+eventsRouter.post("/import", requireRole('admin'), express.raw({ type: ['application/x-tar', 'application/octet-stream'], limit: '500mb' }), (req, res) => {
+  const files = Buffer.isBuffer(req.body) ? readTar(req.body) : null;
+  const manifestFile = files?.get(MANIFEST_FILE);
+  if (!files || !manifestFile) {
+    res.status(400).json({ error: `Body must be a tar archive with a ${MANIFEST_FILE}` });
+    return;
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(manifestFile.toString("utf8"));
+  } catch {
+    manifest = undefined;
+  }
+  if (!isArchiveManifest(manifest)) {
+    res.status(400).json({ error: "The manifest is not a SentryAI archive this version can read" });
+    return;
+  }
+  const missing = findMissingMedia(manifest, files);
+  if (missing) {
+    res.status(400).json({ error: `The archive is missing ${missing}` });
+    return;
+  }
+  res.json(importArchive(manifest, files));
+});
+
+eventsRouter.get("/:id", (req, res) => {
+  const event = getEvent(req.params.id);
+  if (!event) {
+    res.status(404).json({ error: "Event not found" });
+    return;
+  }
+  res.json(event);
+});
+
+// The clip is uploaded as the raw request body once the post-roll has been recorded.
+eventsRouter.put("/:id/clip", requireRole('operator'), express.raw({ type: 'video/*', limit: '100mb' }), (req, res) => {
+  const mimeType = (req.headers['content-type'] ?? '').split(';')[0];
+  if (!isClipType(mimeType) || !Buffer.isBuffer(req.body) || !req.body.length) {
+    res.status(400).json({ error: "Body must be a video/webm or video/mp4 clip" });
+    return;
+  }
+
+  const event = attachClip(req.params.id, req.body, mimeType);
+  if (!event) {
+    res.status(404).json({ error: "Event not found" });
+    return;
+  }
+  broadcast({ type: 'event', event });
+  res.json(event);
+});
+
+// `null` clears the label.
+eventsRouter.put("/:id/label", requireRole('operator'), (req, res) => {
+  const { label } = req.body ?? {};
+  if (label !== null && !isEventLabel(label)) {
+    res.status(400).json({ error: "label must be false-positive, confirmed or null" });
+    return;
+  }
+
+  const event = setLabel(req.params.id, label);
+  if (!event) {
+    res.status(404).json({ error: "Event not found" });
+    return;
+  }
+  broadcast({ type: 'event', event });
+  res.json(event);
+});
+
+eventsRouter.get("/:id/frame", (req, res) => {
+  const frame = exportFrame(req.params.id);
+  if (!frame) {
+    res.status(404).json({ error: "Event not found" });
+    return;
+  }
+  res.attachment(frame.filename).type("image/jpeg").send(frame.data);
+});
+
+eventsRouter.delete("/:id", requireRole('admin'), (req, res) => {
+  if (!deleteEvents({ id: req.params.id })) {
+    res.status(404).json({ error: "Event not found" });
+    return;
+  }
+  res.status(204).end();
+});
+
+// Without `from`/`to` this clears the whole archive.
+eventsRouter.delete("/", requireRole('admin'), (req, res) => {
+  const query = parseEventQuery(req.query);
+  if (!query) {
+    res.status(400).json({ error: "from and to must be numbers" });
+    return;
+  }
+  res.json({ deleted: deleteEvents(query) });
+});
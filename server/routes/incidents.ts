@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from "express";
+import { generateReport, getIncident, listIncidents, reportHtml } from "../incidents";
+import { requireRole } from "./auth";
+import { parseEventQuery } from "./validation";
+
+export const incidentsRouter = Router();
+
+incidentsRouter.get("/", (req, res) => {
+  const query = parseEventQuery(req.query);
+  if (!query) {
+    res.status(400).json({ error: "limit, offset, from and to must be numbers" });
+    return;
+  }
+  res.json(listIncidents(query));
+});
+
+incidentsRouter.get("/:id", (req, res) => {
+  const incident = getIncident(req.params.id);
+  if (!incident) {
+    res.status(404).json({ error: "Incident not found" });
+    return;
+  }
+  res.json(incident);
+});
+
+// Writes (or rewrites) the AI report from the incident's key frames
+incidentsRouter.post("/:id/report", requireRole('operator'), async (req, res) => {
+  try {
+    const generated = await generateReport(req.params.id);
+    if (!generated) {
+      res.status(404).json({ error: "Incident not found" });
+      return;
+    }
+    if (generated.outcome === 'over-budget') {
+      res.status(429).set("Retry-After", String(generated.retryAfter)).json({
+        error: "AI call budget exceeded",
+        retryAfter: generated.retryAfter,
+      });
+      return;
+    }
+    res.json(generated.incident);
+  } catch (err) {
+    console.error("Incident report failed:", err);
+    res.status(502).json({ error: "AI report generation failed" });
+  }
+});
+
+// `?print=1` serves the page inline and opens the print dialog for saving as PDF
+incidentsRouter.get("/:id/report.html", (req, res) => {
+  const print = req.query.print === '1';
+  const report = reportHtml(req.params.id, print);
+  if (!report) {
+    res.status(404).json({ error: "No report for this incident" });
+    return;
+  }
+  if (!print) res.attachment(report.filename);
+  res.type("html").send(report.html);
+});
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from "express";
+import { getAlarm } from "../alarm";
+import { broadcast, subscribeLive } from "../live";
+import { publishSnapshot } from "../mqtt";
+import { getSecurityState } from "../security";
+import type { LiveMessage } from "../../src/types";
+import { requireRole } from "./auth";
+import { isCameraLevels, isJpegDataUrl } from "./validation";
+
+const HEARTBEAT_INTERVAL = 25000; // Keeps proxies from closing an idle stream
+
+export const liveRouter = Router();
+
+// Server-sent events; EventSource reconnects on its own and gets the current state again
+liveRouter.get("/", (req, res) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-store",
+    Connection: "keep-alive",
+    // Stops nginx and similar proxies from holding messages back
+    "X-Accel-Buffering": "no",
+  });
+  const send = (message: LiveMessage) => res.write(`data: ${JSON.stringify(message)}\n\n`);
+
+  send({ type: 'security', state: getSecurityState() });
+  send({ type: 'alarm', alarm: getAlarm() });
+
+  const unsubscribe = subscribeLive(send);
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Meter readings from a dashboard running a camera, relayed to the rest
+liveRouter.post("/levels", requireRole('operator'), (req, res) => {
+  if (!isCameraLevels(req.body)) {
+    res.status(400).json({ error: "cameraId, motion and audio (0-100) and analyzing are required" });
+    return;
+  }
+  const { cameraId, motion, audio, analyzing } = req.body;
+  broadcast({ type: 'levels', levels: { cameraId, motion, audio, analyzing } });
+  res.status(204).end();
+});
+
+// A dashboard's answer to a snapshot request from home automation
+liveRouter.post("/snapshot", requireRole('operator'), (req, res) => {
+  const { cameraId, image } = req.body ?? {};
+  if (typeof cameraId !== 'string' || !isJpegDataUrl(image)) {
+    res.status(400).json({ error: "cameraId and a JPEG image are required" });
+    return;
+  }
+  publishSnapshot(cameraId, image).catch(err => console.error(`MQTT snapshot of ${cameraId} failed:`, err));
+  res.status(204).end();
+});
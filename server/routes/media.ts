@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express, { Router } from "express";
+import { MEDIA_DIR } from "../db";
+import { verifyMediaLink } from "../media";
+import { authenticate } from "./auth";
+
+const CACHE_CONTROL = "private, max-age=2592000, immutable"; // Names never change contents; shared caches keep none
+
+export const mediaRouter = Router();
+
+// A signed link from a notification stands in for the session
+mediaRouter.use((req, res, next) => {
+  const file = decodeURIComponent(req.path.slice(1));
+  if (verifyMediaLink(file, req.query.expires, req.query.signature)) return next();
+  authenticate(req, res, next);
+});
+
+mediaRouter.use(express.static(MEDIA_DIR, {
+  cacheControl: false,
+  setHeaders: (res) => res.setHeader("Cache-Control", CACHE_CONTROL),
+}));
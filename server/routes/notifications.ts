@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from "express";
+import { listEvents } from "../events";
+import { buildMessage, deliver, publicBaseUrl } from "../notify";
+import { isNotifier } from "./validation";
+
+export const notificationsRouter = Router();
+
+// Sends the latest event as a sample to the destination in the body, unsaved edits included,
+// bypassing the cooldown and retries so problems show up straight away.
+notificationsRouter.post("/test", async (req, res) => {
+  const notifier = req.body;
+  if (!isNotifier(notifier)) {
+    res.status(400).json({ error: "Invalid notification destination" });
+    return;
+  }
+
+  const baseUrl = publicBaseUrl(req);
+  const [latest] = listEvents({ limit: 1 }).events;
+  const message = latest
+    ? { ...buildMessage({ ...latest, reason: `Test notification: ${latest.reason}` }, baseUrl), suppressed: 0 }
+    : {
+        event: {
+          id: "test",
+          timestamp: new Date().toISOString(),
+          image: "",
+          isSuspicious: true,
+          reason: "Test notification from SentryAI",
+          triggerSource: 'motion' as const,
+        },
+        appUrl: new URL("/", baseUrl).href,
+        suppressed: 0,
+      };
+
+  try {
+    await deliver(notifier, message);
+    res.status(204).end();
+  } catch (err) {
+    console.error(`Test notification to "${notifier.name}" failed:`, err);
+    res.status(502).json({ error: err instanceof Error ? err.message : "Delivery failed" });
+  }
+});
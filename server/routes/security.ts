@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router, type Response } from "express";
+import { isArmed } from "../../src/lib/security";
+import { clearAlarm, getAlarm, raiseAlarm } from "../alarm";
+import {
+  getSecurityState,
+  listAudit,
+  logAudit,
+  pinLockout,
+  setDelays,
+  setMode,
+  setPin,
+  verifyPin,
+} from "../security";
+import type { AuditAction } from "../../src/types";
+import { requireRole } from "./auth";
+import { isArmedMode, isDelay, isPin, parsePaging } from "./validation";
+
+export const securityRouter = Router();
+
+/** Sends the error response and returns false when the PIN is rejected or the keypad is locked. */
+function checkPin(pin: unknown, action: AuditAction, res: Response) {
+  const lockout = pinLockout();
+  if (lockout) {
+    res.status(429).json({ error: `Too many attempts, try again in ${lockout}s` });
+    return false;
+  }
+  if (!verifyPin(pin, action)) {
+    res.status(403).json({ error: "Incorrect PIN" });
+    return false;
+  }
+  return true;
+}
+
+securityRouter.get("/", (_req, res) => {
+  res.json(getSecurityState());
+});
+
+// Arming needs no PIN, like a keypad's "away" button; only standing down does.
+securityRouter.post("/arm", requireRole('operator'), (req, res) => {
+  const { mode } = req.body ?? {};
+  if (!isArmedMode(mode)) {
+    res.status(400).json({ error: "mode must be home or away" });
+    return;
+  }
+  res.json(setMode(mode));
+});
+
+securityRouter.post("/disarm", requireRole('operator'), (req, res) => {
+  if (!checkPin(req.body?.pin, 'disarm', res)) return;
+  const state = setMode('disarmed');
+  clearAlarm();
+  res.json(state);
+});
+
+securityRouter.post("/dismiss", requireRole('operator'), (req, res) => {
+  const { pin, detail } = req.body ?? {};
+  if (!checkPin(pin, 'dismiss', res)) return;
+  logAudit('dismiss', getSecurityState().mode, true, typeof detail === 'string' ? detail : undefined);
+  clearAlarm();
+  res.status(204).end();
+});
+
+securityRouter.get("/alarm", (_req, res) => {
+  res.json(getAlarm());
+});
+
+// Raised by whichever dashboard runs the camera; the server keeps the entry delay so every device counts down together
+securityRouter.post("/alarm", requireRole('operator'), (req, res) => {
+  const { cameraId, zone = null } = req.body ?? {};
+  if (typeof cameraId !== 'string' || (zone !== null && typeof zone !== 'string')) {
+    res.status(400).json({ error: "cameraId is required; zone must be a string or null" });
+    return;
+  }
+  if (!isArmed(getSecurityState())) {
+    res.status(409).json({ error: "System is not armed" });
+    return;
+  }
+  res.json(raiseAlarm(cameraId, zone));
+});
+
+securityRouter.put("/config", requireRole('admin'), (req, res) => {
+  const { pin, entryDelay, exitDelay, newPin } = req.body ?? {};
+  if (!isDelay(entryDelay) || !isDelay(exitDelay)) {
+    res.status(400).json({ error: "entryDelay and exitDelay must be 0-300 seconds" });
+    return;
+  }
+  if (newPin !== undefined && newPin !== '' && !isPin(newPin)) {
+    res.status(400).json({ error: "PIN must be 4-12 digits" });
+    return;
+  }
+  if (!checkPin(pin, 'config', res)) return;
+
+  const current = getSecurityState();
+  if (entryDelay !== current.entryDelay || exitDelay !== current.exitDelay) {
+    setDelays(entryDelay, exitDelay);
+  }
+  res.json(newPin !== undefined ? setPin(newPin) : getSecurityState());
+});
+
+securityRouter.get("/audit", (req, res) => {
+  const paging = parsePaging(req.query);
+  if (!paging) {
+    res.status(400).json({ error: "limit and offset must be numbers" });
+    return;
+  }
+  res.json(listAudit(paging.limit, paging.offset));
+});
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from "express";
+import { getMonitor, monitorStatuses } from "../monitor";
+
+const BOUNDARY = "sentryframe";
+
+export const streamsRouter = Router();
+
+streamsRouter.get("/", (_req, res) => {
+  res.json(monitorStatuses());
+});
+
+// MJPEG, which an <img> plays without any script
+streamsRouter.get("/:cameraId/live", (req, res) => {
+  const monitor = getMonitor(req.params.cameraId);
+  if (!monitor) {
+    res.status(404).json({ error: "Camera has no server-side stream" });
+    return;
+  }
+  res.writeHead(200, {
+    "Content-Type": `multipart/x-mixed-replace; boundary=${BOUNDARY}`,
+    "Cache-Control": "no-cache, no-store",
+    Connection: "close",
+  });
+  const send = (jpeg: Buffer | null) => {
+    if (!jpeg) {
+      res.end();
+      return;
+    }
+    // A viewer that can't keep up misses frames rather than buffering them
+    if (res.writableNeedDrain) return;
+    res.write(`--${BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${jpeg.length}\r\n\r\n`);
+    res.write(jpeg);
+    res.write("\r\n");
+  };
+  const latest = monitor.latestFrame();
+  if (latest) send(latest);
+  const unsubscribe = monitor.subscribe(send);
+  req.on("close", unsubscribe);
+});
+
+streamsRouter.get("/:cameraId/snapshot.jpg", (req, res) => {
+  const frame = getMonitor(req.params.cameraId)?.latestFrame();
+  if (!frame) {
+    res.status(404).json({ error: "No frame yet" });
+    return;
+  }
+  res.type("jpeg").set("Cache-Control", "no-store").send(frame);
+});
@@ -0,0 +1,13 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from "express";
+import { usageSummary } from "../usage";
+
+export const usageRouter = Router();
+
+usageRouter.get("/", (_req, res) => {
+  res.json(usageSummary());
+});
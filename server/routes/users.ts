@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Router } from "express";
+import { countUsers, createUser, deleteUser, getUser, listUsers, updateUser } from "../auth";
+import { isPassword, isUserRole, isUsername } from "./validation";
+
+// Mounted behind requireRole('admin')
+export const usersRouter = Router();
+
+// There must always be someone left who can manage accounts
+const isLastAdmin = (id: string) => getUser(id)?.role === 'admin' && countUsers('admin') === 1;
+
+usersRouter.get("/", (_req, res) => {
+  res.json(listUsers());
+});
+
+usersRouter.post("/", (req, res) => {
+  const { username, password, role } = req.body ?? {};
+  if (!isUsername(username) || !isPassword(password) || !isUserRole(role)) {
+    res.status(400).json({ error: "Username must be 1-64 letters, digits or . _ @ -; password at least 8 characters; role admin, operator or viewer" });
+    return;
+  }
+  const user = createUser(username, password, role);
+  if (!user) {
+    res.status(409).json({ error: `${username} is already taken` });
+    return;
+  }
+  res.status(201).json(user);
+});
+
+usersRouter.put("/:id", (req, res) => {
+  const { role, password } = req.body ?? {};
+  if ((role !== undefined && !isUserRole(role)) || (password !== undefined && !isPassword(password))) {
+    res.status(400).json({ error: "role must be admin, operator or viewer; password at least 8 characters" });
+    return;
+  }
+  if (role !== undefined && role !== 'admin' && isLastAdmin(req.params.id)) {
+    res.status(409).json({ error: "The last admin can't be demoted" });
+    return;
+  }
+  const user = updateUser(req.params.id, { role, password });
+  if (!user) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  res.json(user);
+});
+
+usersRouter.delete("/:id", (req, res) => {
+  if (isLastAdmin(req.params.id)) {
+    res.status(409).json({ error: "The last admin can't be deleted" });
+    return;
+  }
+  if (!deleteUser(req.params.id)) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  res.status(204).end();
+});
@@ -0,0 +1,323 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ARCHIVE_VERSION, SOUND_CLASSES, THREAT_CATEGORIES, USER_ROLES, type AnalysisBudget, type ArchivedEvent, type ArchivedIncident, type ArchiveManifest, type ArmedMode, type ArmSchedule, type Camera, type CameraLevels, type EventLabel, type EventSource, type MqttSettings, type Notifier, type PrivacySettings, type Detection, type DetectorMode, type EventQuery, type Rule, type RuleSchedule, type TriggerSource, type UserRole, type Zone, type ZoneKind } from "../../src/types";
+
+export const TRIGGER_SOURCES: TriggerSource[] = ['motion', 'sound'];
+const DETECTOR_MODES: DetectorMode[] = ['gemini', 'local', 'gemini-fallback', 'local-gate'];
+const RULE_CLASSES = ['person', 'vehicle', 'animal'];
+const RULE_ACTIONS = ['alarm', 'log', 'notify'];
+const ARMED_MODES: ArmedMode[] = ['home', 'away'];
+const ZONE_KINDS: ZoneKind[] = ['include', 'ignore', 'privacy'];
+
+export function isTriggerSource(value: unknown): value is TriggerSource {
+  return TRIGGER_SOURCES.includes(value as TriggerSource);
+}
+
+export function isEventSource(value: unknown): value is EventSource {
+  return isTriggerSource(value) || value === 'tamper' || value === 'system';
+}
+
+const MAX_CLOCK_AHEAD = 5 * 60_000; // How far a browser's clock may run ahead of the server's
+
+/** When a client says an event happened: milliseconds since the epoch, not well past the server's now. */
+export function isEventTimestamp(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= Date.now() + MAX_CLOCK_AHEAD;
+}
+
+export function isJpegDataUrl(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('data:image/jpeg;base64,');
+}
+
+function toNumber(value: unknown) {
+  if (value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+const hasNaN = (parsed: object) => Object.values(parsed).some(v => typeof v === 'number' && Number.isNaN(v));
+
+const clampLimit = (limit: number | undefined) => (limit === undefined ? undefined : Math.min(Math.max(limit, 1), 200));
+
+/** Parses `cameraId`, `limit`, `offset`, `from` and `to` query parameters; returns null if any is malformed. */
+export function parseEventQuery(query: Record<string, unknown>): EventQuery | null {
+  const parsed: EventQuery = {
+    cameraId: typeof query.cameraId === 'string' && query.cameraId ? query.cameraId : undefined,
+    incidentId: typeof query.incidentId === 'string' && query.incidentId ? query.incidentId : undefined,
+    limit: toNumber(query.limit),
+    offset: toNumber(query.offset),
+    from: toNumber(query.from),
+    to: toNumber(query.to),
+  };
+  if (hasNaN(parsed)) return null;
+  parsed.limit = clampLimit(parsed.limit);
+  return parsed;
+}
+
+/** Parses `limit` and `offset` query parameters; returns null if either is malformed. */
+export function parsePaging(query: Record<string, unknown>): Pick<EventQuery, 'limit' | 'offset'> | null {
+  const parsed = { limit: toNumber(query.limit), offset: toNumber(query.offset) };
+  if (hasNaN(parsed)) return null;
+  return { ...parsed, limit: clampLimit(parsed.limit) };
+}
+
+const isUnit = (n: unknown) => typeof n === 'number' && n >= 0 && n <= 1;
+
+const isPoint = (p: unknown) => Array.isArray(p) && p.length === 2 && p.every(isUnit);
+
+export function isZone(value: unknown): value is Zone {
+  const zone = value as Zone;
+  return typeof zone === 'object' && zone !== null
+    && typeof zone.id === 'string'
+    && typeof zone.name === 'string'
+    && ZONE_KINDS.includes(zone.kind)
+    && Array.isArray(zone.points) && zone.points.every(isPoint)
+    && typeof zone.sensitivity === 'number';
+}
+
+const isPercent = (n: unknown) => typeof n === 'number' && n >= 1 && n <= 99;
+
+export function isCamera(value: unknown): value is Camera {
+  const camera = value as Camera;
+  return typeof camera === 'object' && camera !== null
+    && typeof camera.id === 'string'
+    && typeof camera.name === 'string'
+    && typeof camera.deviceId === 'string'
+    && (camera.audioDeviceId === undefined || typeof camera.audioDeviceId === 'string')
+    && isPercent(camera.sensitivity)
+    && isPercent(camera.audioSensitivity)
+    && typeof camera.isSmartGuard === 'boolean'
+    && (camera.detector === undefined || DETECTOR_MODES.includes(camera.detector))
+    && Array.isArray(camera.zones) && camera.zones.every(isZone)
+    && (camera.soundClasses === undefined || isStringList(camera.soundClasses, [...SOUND_CLASSES]))
+    && (camera.source === undefined || isStreamSource(camera.source))
+    && (camera.loop === undefined || typeof camera.loop === 'boolean');
+}
+
+// Network streams or plain file paths; other ffmpeg protocols (concat:, pipe:, ...) are refused.
+// A one-letter "scheme" is a Windows drive.
+export const isStreamSource = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '' && value.length <= 2048 && !value.startsWith('-')
+  && (/^(rtsps?|https?):\/\/./i.test(value) || !/^[a-z][a-z0-9+.-]+:/i.test(value));
+
+export function isDetection(value: unknown): value is Detection {
+  const detection = value as Detection;
+  return typeof detection === 'object' && detection !== null
+    && typeof detection.label === 'string'
+    && isUnit(detection.confidence)
+    && Array.isArray(detection.box) && detection.box.length === 4 && detection.box.every(isUnit)
+    && (detection.threat === undefined || THREAT_CATEGORIES.includes(detection.threat));
+}
+
+const isStringList = (value: unknown, allowed?: string[]) =>
+  Array.isArray(value) && value.every(v => typeof v === 'string' && (!allowed || allowed.includes(v)));
+
+const isTime = (value: unknown) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const isWeekdays = (value: unknown) => Array.isArray(value) && value.every(d => Number.isInteger(d) && d >= 0 && d <= 6);
+
+function isSchedule(value: unknown): value is RuleSchedule {
+  const schedule = value as RuleSchedule;
+  return typeof schedule === 'object' && schedule !== null
+    && isWeekdays(schedule.days)
+    && isTime(schedule.start)
+    && isTime(schedule.end);
+}
+
+export function isRule(value: unknown): value is Rule {
+  const rule = value as Rule;
+  return typeof rule === 'object' && rule !== null
+    && typeof rule.id === 'string'
+    && typeof rule.name === 'string'
+    && typeof rule.enabled === 'boolean'
+    && isStringList(rule.classes, RULE_CLASSES)
+    && isStringList(rule.zones)
+    && isStringList(rule.triggerSources, TRIGGER_SOURCES)
+    && (rule.modes === undefined || isStringList(rule.modes, ARMED_MODES))
+    && (rule.schedule === null || isSchedule(rule.schedule))
+    && Number.isInteger(rule.minDwell) && rule.minDwell >= 1
+    && isStringList(rule.actions, RULE_ACTIONS);
+}
+
+export function isArmedMode(value: unknown): value is ArmedMode {
+  return ARMED_MODES.includes(value as ArmedMode);
+}
+
+export function isArmSchedule(value: unknown): value is ArmSchedule {
+  const schedule = value as ArmSchedule;
+  return typeof schedule === 'object' && schedule !== null
+    && typeof schedule.id === 'string'
+    && typeof schedule.enabled === 'boolean'
+    && isWeekdays(schedule.days)
+    && isTime(schedule.time)
+    && (schedule.mode === 'disarmed' || isArmedMode(schedule.mode));
+}
+
+export const isDelay = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 300;
+
+export const isPin = (value: unknown): value is string => typeof value === 'string' && /^\d{4,12}$/.test(value);
+
+// Blank is allowed so a half-configured destination can be saved; it just fails to deliver
+const isHttpUrl = (value: unknown) => {
+  if (typeof value !== 'string') return false;
+  if (value === '') return true;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const isStringRecord = (value: unknown) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+  && Object.values(value).every(v => typeof v === 'string');
+
+export function isNotifier(value: unknown): value is Notifier {
+  const notifier = value as Notifier;
+  if (typeof notifier !== 'object' || notifier === null
+    || typeof notifier.id !== 'string'
+    || typeof notifier.name !== 'string'
+    || typeof notifier.enabled !== 'boolean'
+    || !Number.isInteger(notifier.cooldown) || notifier.cooldown < 0) {
+    return false;
+  }
+  switch (notifier.kind) {
+    case 'webhook':
+      return isHttpUrl(notifier.url) && isStringRecord(notifier.headers);
+    case 'email':
+      return typeof notifier.host === 'string'
+        && Number.isInteger(notifier.port) && notifier.port > 0 && notifier.port < 65536
+        && typeof notifier.secure === 'boolean'
+        && typeof notifier.username === 'string'
+        && typeof notifier.password === 'string'
+        && typeof notifier.from === 'string'
+        && typeof notifier.to === 'string';
+    case 'ntfy':
+    case 'gotify':
+      return isHttpUrl(notifier.url) && typeof notifier.token === 'string';
+    default:
+      return false;
+  }
+}
+
+export function isEventLabel(value: unknown): value is EventLabel {
+  return value === 'false-positive' || value === 'confirmed';
+}
+
+const isCount = (n: unknown) => Number.isInteger(n) && (n as number) >= 1;
+const isPrice = (n: unknown) => typeof n === 'number' && n >= 0 && Number.isFinite(n);
+
+export function isBudget(value: unknown): value is AnalysisBudget {
+  const budget = value as AnalysisBudget;
+  return typeof budget === 'object' && budget !== null
+    && isCount(budget.perMinute)
+    && isCount(budget.perDay)
+    && isPrice(budget.inputPrice)
+    && isPrice(budget.outputPrice);
+}
+
+export function isPrivacySettings(value: unknown): value is PrivacySettings {
+  const privacy = value as PrivacySettings;
+  return typeof privacy === 'object' && privacy !== null
+    && typeof privacy.blurFaces === 'boolean'
+    && Number.isInteger(privacy.retentionDays) && privacy.retentionDays >= 0
+    && Number.isInteger(privacy.maxStorageMb) && privacy.maxStorageMb >= 0;
+}
+
+// Topic levels separated by slashes, without the wildcards a subscriber would read into them
+const isTopicPrefix = (value: unknown) => typeof value === 'string' && /^[^/#+\s]+(\/[^/#+\s]+)*$/.test(value);
+
+export function isMqttSettings(value: unknown): value is MqttSettings {
+  const mqtt = value as MqttSettings;
+  return typeof mqtt === 'object' && mqtt !== null
+    && typeof mqtt.enabled === 'boolean'
+    && typeof mqtt.url === 'string' && (mqtt.url === '' || /^(mqtts?|wss?):\/\/./.test(mqtt.url))
+    && typeof mqtt.username === 'string'
+    && typeof mqtt.password === 'string'
+    && isTopicPrefix(mqtt.topicPrefix)
+    && (mqtt.discoveryPrefix === '' || isTopicPrefix(mqtt.discoveryPrefix));
+}
+
+export const isTags = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length <= 50 && value.every(tag => typeof tag === 'string' && tag.length <= 100);
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const isPhash = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-f]{16}$/.test(value);
+
+const isLevel = (n: unknown) => typeof n === 'number' && n >= 0 && n <= 100;
+
+export function isCameraLevels(value: unknown): value is CameraLevels {
+  const levels = value as CameraLevels;
+  return typeof levels === 'object' && levels !== null
+    && typeof levels.cameraId === 'string'
+    && isLevel(levels.motion)
+    && isLevel(levels.audio)
+    && typeof levels.analyzing === 'boolean';
+}
+
+export const isUsername = (value: unknown): value is string => typeof value === 'string' && /^[\w.@-]{1,64}$/.test(value);
+
+export const isPassword = (value: unknown): value is string => typeof value === 'string' && value.length >= 8 && value.length <= 256;
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+// Archived ids end up in media file names
+const isArchiveId = (value: unknown): value is string => typeof value === 'string' && /^[\w-]{1,64}$/.test(value);
+const isIsoTime = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown) => typeof value === 'string';
+
+function isArchivedIncident(value: unknown): value is ArchivedIncident {
+  const incident = value as ArchivedIncident;
+  return typeof incident === 'object' && incident !== null
+    && isArchiveId(incident.id)
+    && isOptional(incident.cameraId, isString)
+    && isIsoTime(incident.startedAt)
+    && isIsoTime(incident.endedAt)
+    && isOptional(incident.report, isString)
+    && isOptional(incident.reportedAt, isIsoTime);
+}
+
+function isArchivedEvent(value: unknown): value is ArchivedEvent {
+  const event = value as ArchivedEvent;
+  return typeof event === 'object' && event !== null
+    && isArchiveId(event.id)
+    && isIsoTime(event.timestamp)
+    && isOptional(event.cameraId, isString)
+    && isOptional(event.incidentId, isArchiveId)
+    && isEventSource(event.triggerSource)
+    && typeof event.isSuspicious === 'boolean'
+    && typeof event.reason === 'string'
+    && isOptional(event.zone, isString)
+    && isOptional(event.rule, isString)
+    && Array.isArray(event.detections) && event.detections.every(isDetection)
+    && isOptional(event.label, isEventLabel)
+    && isOptional(event.caption, isString)
+    && isOptional(event.tags, isTags)
+    && isOptional(event.phash, isPhash)
+    && typeof event.image === 'string'
+    && isOptional(event.clip, isString);
+}
+
+export function isArchiveManifest(value: unknown): value is ArchiveManifest {
+  const manifest = value as ArchiveManifest;
+  return typeof manifest === 'object' && manifest !== null
+    && manifest.format === 'sentryai-archive'
+    && Number.isInteger(manifest.version) && manifest.version >= 1 && manifest.version <= ARCHIVE_VERSION
+    && Array.isArray(manifest.incidents) && manifest.incidents.every(isArchivedIncident)
+    && Array.isArray(manifest.events) && manifest.events.every(isArchivedEvent);
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { clearAlarm } from "./alarm";
+import { getSecurityState, setMode } from "./security";
+import { getSetting } from "./settings";
+import type { ArmSchedule } from "../src/types";
+
+const CHECK_INTERVAL = 30_000;
+
+let lastCheck = Date.now();
+
+/** When `schedule` last came due at or before `now`, looking back as far as yesterday. */
+function lastOccurrence({ days, time }: ArmSchedule, now: number) {
+  const [hours, minutes] = time.split(':').map(Number);
+  for (let back = 0; back <= 1; back++) {
+    const at = new Date(now);
+    at.setDate(at.getDate() - back);
+    at.setHours(hours, minutes, 0, 0);
+    if (at.getTime() <= now && days.includes(at.getDay())) return at.getTime();
+  }
+  return undefined;
+}
+
+/**
+ * Applies the latest schedule entry that came due since the previous check.
+ * Entries missed while the server was down are not caught up on.
+ */
+export function checkSchedules(now = Date.now()) {
+  const since = lastCheck;
+  lastCheck = now;
+
+  let due: { schedule: ArmSchedule; at: number } | undefined;
+  for (const schedule of getSetting<ArmSchedule[]>("armSchedules", [])) {
+    if (!schedule.enabled) continue;
+    const at = lastOccurrence(schedule, now);
+    if (at !== undefined && at > since && (!due || at > due.at)) due = { schedule, at };
+  }
+  if (!due || getSecurityState().mode === due.schedule.mode) return;
+
+  setMode(due.schedule.mode, `Scheduled (${due.schedule.time})`);
+  if (due.schedule.mode === 'disarmed') clearAlarm();
+}
+
+/** Checks the arm schedules twice a minute. */
+export function startSchedules() {
+  lastCheck = Date.now();
+  setInterval(checkSchedules, CHECK_INTERVAL).unref();
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { keywordRanks, searchCandidates, setEmbedding } from "./events";
+import { embedTexts, geminiErrorStatus, interpretSearch, type TokenUsage } from "./gemini";
+import { budgetRetryAfter, recordCall } from "./usage";
+import type { EventQuery, EventRecord, SearchInterpretation, SearchResponse } from "../src/types";
+
+const MAX_CANDIDATES = 5000; // Latest events in range that get ranked
+const MAX_HITS = 48;
+const SEMANTIC_WEIGHT = 0.7; // Share of the score from embeddings when both sides have one; the rest is keywords
+const MIN_SIMILARITY = 0.5; // Cosine similarity at or below this counts as unrelated
+const MIN_SCORE = 0.15;
+
+const STOP_WORDS = new Set(["a", "an", "and", "any", "at", "by", "for", "from", "in", "into", "is", "near", "of", "on", "or", "the", "to", "with"]);
+
+/** The text an event is found by, for both embeddings and keywords. */
+const searchText = (event: EventRecord) =>
+  [event.reason, event.caption, event.tags?.join(", "), event.zone && `Zone: ${event.zone}`].filter(Boolean).join("\n");
+
+/**
+ * Makes a search call within the AI budget and records it like frame
+ * analysis. Resolves with undefined when the budget refuses it or it fails;
+ * keywords then do the matching on their own.
+ */
+async function metered<T>(what: string, call: () => Promise<{ result: T; usage?: TokenUsage }>, cameraId?: string): Promise<T | undefined> {
+  if (budgetRetryAfter()) {
+    recordCall({ cameraId, triggerSource: 'search', outcome: 'over-budget' });
+    console.warn(`${what} skipped, matching keywords only: the AI call budget is used up`);
+    return undefined;
+  }
+
+  const started = performance.now();
+  try {
+    const { result, usage } = await call();
+    recordCall({ cameraId, triggerSource: 'search', outcome: 'ok', latencyMs: performance.now() - started, ...usage });
+    return result;
+  } catch (err) {
+    const outcome = geminiErrorStatus(err) === 429 ? 'rate-limited' : 'error';
+    const error = err instanceof Error ? err.message : String(err);
+    recordCall({ cameraId, triggerSource: 'search', outcome, latencyMs: performance.now() - started, error });
+    console.warn(`${what} failed, matching keywords only:`, err);
+    return undefined;
+  }
+}
+
+/**
+ * Embeds a newly saved event so searches can match it by meaning, not only
+ * by words. Resolves with whether it was embedded; an event that wasn't is
+ * still found by keywords.
+ */
+export async function indexEvent(event: EventRecord) {
+  const embeddings = await metered(
+    "Search embedding of an event",
+    async () => ({ result: await embedTexts([searchText(event)], "document") }),
+    event.cameraId
+  );
+  if (embeddings) setEmbedding(event.id, embeddings[0]);
+  return embeddings !== undefined;
+}
+
+// Any of the query's words, each quoted so FTS5 syntax in user input is taken literally
+function matchExpression(text: string) {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(word => !STOP_WORDS.has(word));
+  return words.length ? [...new Set(words)].map(word => `"${word}"`).join(" OR ") : undefined;
+}
+
+function cosine(a: Float32Array, b: Float32Array) {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA * normB) || 1);
+}
+
+// Only narrows the archive's own filters, never widens them
+const intersect = (filters: EventQuery, { from, to }: SearchInterpretation): EventQuery => ({
+  ...filters,
+  from: from === undefined ? filters.from : Math.max(from, filters.from ?? from),
+  to: to === undefined ? filters.to : Math.min(to, filters.to ?? to),
+});
+
+/**
+ * Ranks archived events against a natural-language query. Gemini splits off
+ * the time range and embeds the rest; without it (no key, outage, budget used
+ * up) the whole query is matched by keywords alone.
+ */
+export async function searchEvents(query: string, filters: EventQuery, timeZone: string): Promise<SearchResponse> {
+  const interpretation = await metered("Search interpretation", async () => {
+    const { interpretation, usage } = await interpretSearch(query, timeZone);
+    return { result: interpretation, usage };
+  }) ?? { text: query };
+  const candidates = searchCandidates(intersect(filters, interpretation), MAX_CANDIDATES);
+
+  // A query that only names a time lists that time's events, newest first
+  if (!interpretation.text) {
+    return { interpretation, hits: candidates.slice(0, MAX_HITS).map(({ event }) => ({ event, score: 1 })) };
+  }
+
+  const match = matchExpression(interpretation.text);
+  const ranks = match ? keywordRanks(match) : new Map<number, number>();
+  const bestRank = [...ranks.values()].reduce((best, rank) => Math.min(best, rank), -Number.EPSILON);
+  const queryEmbedding = (await metered("Search embedding", async () => ({ result: await embedTexts([interpretation.text], "query") })))?.[0];
+
+  const hits = candidates
+    .map(({ rowid, event, embedding }) => {
+      const keyword = ranks.has(rowid) ? ranks.get(rowid)! / bestRank : 0;
+      if (!queryEmbedding || !embedding) return { event, score: keyword };
+      const semantic = Math.max(0, (cosine(queryEmbedding, embedding) - MIN_SIMILARITY) / (1 - MIN_SIMILARITY));
+      return { event, score: SEMANTIC_WEIGHT * semantic + (1 - SEMANTIC_WEIGHT) * keyword };
+    })
+    .filter(hit => hit.score >= MIN_SCORE)
+    // Stable, so equal scores stay newest first
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HITS)
+    .map(hit => ({ ...hit, score: Math.round(hit.score * 100) / 100 }));
+
+  return { interpretation, hits };
+}
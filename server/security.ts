@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { db } from "./db";
+import { broadcast } from "./live";
+import { getSetting, putSetting } from "./settings";
+import type { AuditAction, AuditEntry, SecurityMode, SecurityState } from "../src/types";
+
+// Stored under a settings key the generic settings route doesn't expose, since it holds the PIN hash.
+interface StoredSecurity {
+  mode: SecurityMode;
+  changedAt: number;
+  entryDelay: number;
+  exitDelay: number;
+  pinSalt?: string;
+  pinHash?: string;
+}
+
+interface AuditRow {
+  id: number;
+  timestamp: number;
+  action: AuditAction;
+  mode: SecurityMode;
+  success: number;
+  detail: string | null;
+}
+
+const SECURITY_KEY = "security";
+const DEFAULT_SECURITY: StoredSecurity = { mode: 'disarmed', changedAt: 0, entryDelay: 30, exitDelay: 30 };
+
+// Repeated wrong PINs lock the keypad for a while to slow down guessing
+const MAX_PIN_FAILURES = 5;
+const PIN_LOCKOUT = 60_000;
+
+let pinFailures = 0;
+let lockedUntil = 0;
+
+const load = () => ({ ...DEFAULT_SECURITY, ...getSetting<Partial<StoredSecurity>>(SECURITY_KEY, {}) });
+
+function toState({ mode, changedAt, entryDelay, exitDelay, pinHash }: StoredSecurity): SecurityState {
+  return { mode, changedAt, entryDelay, exitDelay, hasPin: Boolean(pinHash) };
+}
+
+const hashPin = (pin: string, salt: string) => scryptSync(pin, salt, 32).toString('hex');
+
+export function getSecurityState() {
+  return toState(load());
+}
+
+// Every change is pushed to open dashboards, so a phone sees the panel being armed
+function publish() {
+  const state = getSecurityState();
+  broadcast({ type: 'security', state });
+  return state;
+}
+
+export function logAudit(action: AuditAction, mode: SecurityMode, success = true, detail?: string) {
+  db.prepare(`
+    INSERT INTO audit_log (timestamp, action, mode, success, detail) VALUES (?, ?, ?, ?, ?)
+  `).run(Date.now(), action, mode, success ? 1 : 0, detail ?? null);
+}
+
+export function listAudit(limit = 50, offset = 0) {
+  const rows = db.prepare(`
+    SELECT * FROM audit_log ORDER BY id DESC LIMIT ? OFFSET ?
+  `).all(limit, offset) as AuditRow[];
+  const { total } = db.prepare('SELECT COUNT(*) AS total FROM audit_log').get() as { total: number };
+  const entries: AuditEntry[] = rows.map(row => ({
+    id: row.id,
+    timestamp: new Date(row.timestamp).toISOString(),
+    action: row.action,
+    mode: row.mode,
+    success: Boolean(row.success),
+    detail: row.detail ?? undefined,
+  }));
+  return { entries, total };
+}
+
+/** Seconds until the keypad unlocks again, or 0 when PINs are accepted. */
+export function pinLockout() {
+  return Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+}
+
+/**
+ * Checks a PIN and records the attempt against `action` in the audit trail when it fails.
+ * Without a configured PIN every attempt passes, so a fresh install can still be disarmed.
+ */
+export function verifyPin(pin: unknown, action: AuditAction): boolean {
+  const security = load();
+  if (!security.pinHash || !security.pinSalt) return true;
+
+  const ok = typeof pin === 'string' && pinLockout() === 0 && timingSafeEqual(
+    Buffer.from(hashPin(pin, security.pinSalt), 'hex'),
+    Buffer.from(security.pinHash, 'hex')
+  );
+  if (ok) {
+    pinFailures = 0;
+    return true;
+  }
+  if (++pinFailures >= MAX_PIN_FAILURES) {
+    pinFailures = 0;
+    lockedUntil = Date.now() + PIN_LOCKOUT;
+  }
+  logAudit(action, security.mode, false, "Incorrect PIN");
+  return false;
+}
+
+export function setMode(mode: SecurityMode, detail?: string) {
+  const security = load();
+  putSetting(SECURITY_KEY, { ...security, mode, changedAt: Date.now() });
+  logAudit(mode === 'disarmed' ? 'disarm' : 'arm', mode, true, detail);
+  return publish();
+}
+
+export function setDelays(entryDelay: number, exitDelay: number) {
+  const security = load();
+  putSetting(SECURITY_KEY, { ...security, entryDelay, exitDelay });
+  logAudit('config', security.mode, true, `Entry delay ${entryDelay}s, exit delay ${exitDelay}s`);
+  return publish();
+}
+
+/** Replaces the PIN; an empty string removes it. */
+export function setPin(pin: string) {
+  const security = load();
+  const pinSalt = pin ? randomBytes(16).toString('hex') : undefined;
+  putSetting(SECURITY_KEY, { ...security, pinSalt, pinHash: pinSalt ? hashPin(pin, pinSalt) : undefined });
+  logAudit('pin', security.mode, true, pin ? "PIN changed" : "PIN removed");
+  return publish();
+}
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { db } from "./db";
+
+/** Settings are stored as JSON documents under a fixed set of keys. */
+export function getSetting<T>(key: string, fallback: T): T {
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+  return row ? JSON.parse(row.value) : fallback;
+}
+
+export function putSetting<T>(key: string, value: T) {
+  db.prepare(`
+    INSERT INTO settings (key, value) VALUES (?, ?)
+    ON CONFLICT (key) DO UPDATE SET value = excluded.value
+  `).run(key, JSON.stringify(value));
+  return value;
+}
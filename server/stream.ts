@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { spawn } from "child_process";
+
+/**
+ * Decodes a camera stream with ffmpeg, which handles RTSP, HTTP MJPEG and
+ * local video files alike. Every frame comes out twice: as a JPEG for the
+ * live view and snapshots, and as raw RGBA at the motion grid size.
+ */
+
+export interface StreamOptions {
+  /** rtsp://, http(s):// or a local file path. */
+  source: string;
+  fps: number;
+  liveWidth: number;
+  motionWidth: number;
+  motionHeight: number;
+  /** Start a file over when it ends instead of closing the stream. */
+  loop?: boolean;
+  onJpeg: (jpeg: Buffer) => void;
+  onMotionFrame: (rgba: Uint8ClampedArray) => void;
+  /** The stream closed; `error` is ffmpeg's last complaint when it didn't end cleanly. */
+  onExit: (error?: string) => void;
+}
+
+export interface Stream {
+  stop: () => void;
+}
+
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+const JPEG_START = Buffer.from([0xff, 0xd8]);
+const JPEG_END = Buffer.from([0xff, 0xd9]);
+
+/** Drops the user and password from every URL in `text`, for anyone but admins to see. */
+export const hideCredentials = (text: string) => text.replace(/(\b[a-z][\w+.-]*:\/\/)[^/\s@]*@/gi, "$1");
+
+export const isNetworkSource = (source: string) => /^(rtsps?|https?):\/\//i.test(source);
+
+function ffmpegArgs({ source, fps, liveWidth, motionWidth, motionHeight, loop }: StreamOptions) {
+  const input = isNetworkSource(source)
+    ? [...(/^rtsps?:/i.test(source) ? ["-rtsp_transport", "tcp"] : []), "-i", source]
+    // Files are read at their own frame rate so they play back like a live camera
+    : ["-re", ...(loop ? ["-stream_loop", "-1"] : []), "-i", source];
+  return [
+    "-hide_banner", "-loglevel", "error",
+    ...input,
+    "-an",
+    "-filter_complex", `[0:v]fps=${fps},split=2[a][b];[a]scale=${liveWidth}:-2[live];[b]scale=${motionWidth}:${motionHeight}[motion]`,
+    "-map", "[live]", "-f", "mjpeg", "-q:v", "5", "pipe:1",
+    "-map", "[motion]", "-f", "rawvideo", "-pix_fmt", "rgba", "pipe:3",
+  ];
+}
+
+export function openStream(options: StreamOptions): Stream {
+  const ffmpeg = spawn(FFMPEG, ffmpegArgs(options), { stdio: ["ignore", "pipe", "pipe", "pipe"] });
+  const frameSize = options.motionWidth * options.motionHeight * 4;
+  let jpegBuffer = Buffer.alloc(0);
+  let rawBuffer = Buffer.alloc(0);
+  let lastError = "";
+  let stopped = false;
+
+  ffmpeg.stdout!.on("data", (chunk: Buffer) => {
+    jpegBuffer = Buffer.concat([jpegBuffer, chunk]);
+    for (;;) {
+      const start = jpegBuffer.indexOf(JPEG_START);
+      const end = start < 0 ? -1 : jpegBuffer.indexOf(JPEG_END, start + 2);
+      if (end < 0) break;
+      options.onJpeg(jpegBuffer.subarray(start, end + 2));
+      jpegBuffer = jpegBuffer.subarray(end + 2);
+    }
+  });
+
+  (ffmpeg.stdio[3] as NodeJS.ReadableStream).on("data", (chunk: Buffer) => {
+    rawBuffer = Buffer.concat([rawBuffer, chunk]);
+    while (rawBuffer.length >= frameSize) {
+      // Copied out, since the detector keeps no reference but the Buffer's pool may be reused
+      options.onMotionFrame(new Uint8ClampedArray(rawBuffer.subarray(0, frameSize)));
+      rawBuffer = rawBuffer.subarray(frameSize);
+    }
+  });
+
+  ffmpeg.stderr!.on("data", (chunk: Buffer) => {
+    // ffmpeg names the input in its errors, which reach every dashboard through the stream status
+    lastError = hideCredentials(chunk.toString().trim().split("\n").pop() ?? "") || lastError;
+  });
+
+  ffmpeg.on("error", (err) => {
+    lastError = (err as NodeJS.ErrnoException).code === "ENOENT" ? `${FFMPEG} was not found; install ffmpeg or set FFMPEG_PATH` : err.message;
+  });
+
+  ffmpeg.on("close", (code) => {
+    if (!stopped) options.onExit(code === 0 ? undefined : lastError || `ffmpeg exited with code ${code}`);
+  });
+
+  return {
+    stop: () => {
+      stopped = true;
+      ffmpeg.kill("SIGTERM");
+    },
+  };
+}
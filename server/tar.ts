@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Just enough of the ustar format for event archives: regular files with
+ * short names. Any tar tool can open what this writes, and archives repacked
+ * by one can be read back as long as the names stay under 100 bytes.
+ */
+
+const BLOCK = 512;
+
+export interface TarFile {
+  name: string;
+  data: Buffer;
+}
+
+function octal(value: number, length: number) {
+  return value.toString(8).padStart(length - 1, "0") + "\0";
+}
+
+function header(name: string, size: number, mtime: number) {
+  const block = Buffer.alloc(BLOCK);
+  block.write(name, 0, 100, "utf8");
+  block.write(octal(0o644, 8), 100, "ascii");
+  block.write(octal(0, 8), 108, "ascii");
+  block.write(octal(0, 8), 116, "ascii");
+  block.write(octal(size, 12), 124, "ascii");
+  block.write(octal(Math.floor(mtime / 1000), 12), 136, "ascii");
+  block.write("0", 156, "ascii");
+  block.write("ustar\0" + "00", 257, "ascii");
+  // The checksum is summed with its own field read as spaces
+  block.fill(" ", 148, 156);
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  block.write(octal(checksum, 7) + " ", 148, "ascii");
+  return block;
+}
+
+const padding = (size: number) => Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK);
+
+/** Yields the archive a piece at a time, so media files are only read as they are written out. */
+export function* writeTar(files: Iterable<TarFile>, mtime = Date.now()) {
+  for (const { name, data } of files) {
+    if (Buffer.byteLength(name) > 100) throw new Error(`Name too long for a tar entry: ${name}`);
+    yield header(name, data.length, mtime);
+    yield data;
+    yield padding(data.length);
+  }
+  yield Buffer.alloc(BLOCK * 2);
+}
+
+const readString = (block: Buffer, start: number, length: number) =>
+  block.toString("utf8", start, start + length).replace(/\0.*$/s, "");
+
+/** Regular files in a tar archive by name; returns null if the data isn't a tar archive. */
+export function readTar(archive: Buffer) {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+  while (offset + BLOCK <= archive.length) {
+    const block = archive.subarray(offset, offset + BLOCK);
+    if (block.every(byte => byte === 0)) break;
+
+    const size = parseInt(readString(block, 124, 12).trim() || "0", 8);
+    const stored = parseInt(readString(block, 148, 8).trim(), 8);
+    const checksum = block.reduce((sum, byte, i) => sum + (i >= 148 && i < 156 ? 32 : byte), 0);
+    if (Number.isNaN(size) || stored !== checksum || offset + BLOCK + size > archive.length) return null;
+
+    const type = readString(block, 156, 1);
+    const prefix = readString(block, 345, 155);
+    const name = (prefix ? `${prefix}/` : "") + readString(block, 0, 100);
+    // Directories, links and the extended headers some tools add carry nothing an import needs
+    if (type === "0" || type === "") {
+      files.set(name.replace(/^\.\//, ""), archive.subarray(offset + BLOCK, offset + BLOCK + size));
+    }
+    offset += BLOCK + size + padding(size).length;
+  }
+  return files;
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { db } from "./db";
+import { getSetting } from "./settings";
+import { DEFAULT_BUDGET, estimateCost } from "../src/lib/usage";
+import type { AnalysisBudget, AnalysisCall, AnalysisOutcome, CallPurpose, UsageTotals } from "../src/types";
+
+interface CallRow {
+  id: number;
+  timestamp: number;
+  camera_id: string | null;
+  trigger_source: CallPurpose;
+  outcome: AnalysisOutcome;
+  latency_ms: number;
+  input_tokens: number;
+  output_tokens: number;
+  error: string | null;
+}
+
+export interface NewCall {
+  cameraId?: string;
+  triggerSource: CallPurpose;
+  outcome: AnalysisOutcome;
+  latencyMs?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  error?: string;
+}
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+const RECENT_CALLS = 20;
+
+export const getBudget = () => ({ ...DEFAULT_BUDGET, ...getSetting<Partial<AnalysisBudget>>("budget", {}) });
+
+export function recordCall(call: NewCall) {
+  db.prepare(`
+    INSERT INTO analysis_calls (timestamp, camera_id, trigger_source, outcome, latency_ms, input_tokens, output_tokens, error)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    Date.now(),
+    call.cameraId ?? null,
+    call.triggerSource,
+    call.outcome,
+    Math.round(call.latencyMs ?? 0),
+    call.inputTokens ?? 0,
+    call.outputTokens ?? 0,
+    call.error ?? null
+  );
+}
+
+// Refused calls never reach Gemini, so they don't count against the budget
+function callsSince(since: number) {
+  const { count } = db.prepare(`
+    SELECT COUNT(*) AS count FROM analysis_calls WHERE timestamp > ? AND outcome != 'over-budget'
+  `).get(since) as { count: number };
+  return count;
+}
+
+/** Seconds until the oldest call in a full window leaves it. */
+function windowRetryAfter(window: number, limit: number, now: number) {
+  const row = db.prepare(`
+    SELECT timestamp FROM analysis_calls WHERE timestamp > ? AND outcome != 'over-budget'
+    ORDER BY timestamp DESC LIMIT 1 OFFSET ?
+  `).get(now - window, limit - 1) as { timestamp: number } | undefined;
+  return row ? Math.max(1, Math.ceil((row.timestamp + window - now) / 1000)) : 1;
+}
+
+/** Seconds to wait before the next call fits in both rolling windows, or 0 when it may go ahead now. */
+export function budgetRetryAfter(budget = getBudget()) {
+  const now = Date.now();
+  if (callsSince(now - DAY) >= budget.perDay) return windowRetryAfter(DAY, budget.perDay, now);
+  if (callsSince(now - MINUTE) >= budget.perMinute) return windowRetryAfter(MINUTE, budget.perMinute, now);
+  return 0;
+}
+
+function totalsSince(since: number, budget: AnalysisBudget): UsageTotals {
+  const row = db.prepare(`
+    SELECT COUNT(*) AS calls,
+      COUNT(*) FILTER (WHERE outcome = 'ok') AS ok,
+      COUNT(*) FILTER (WHERE outcome = 'error') AS error,
+      COUNT(*) FILTER (WHERE outcome = 'rate-limited') AS rateLimited,
+      COUNT(*) FILTER (WHERE outcome = 'over-budget') AS overBudget,
+      COALESCE(SUM(input_tokens), 0) AS inputTokens,
+      COALESCE(SUM(output_tokens), 0) AS outputTokens,
+      COALESCE(AVG(latency_ms) FILTER (WHERE outcome = 'ok'), 0) AS averageLatency
+    FROM analysis_calls WHERE timestamp > ?
+  `).get(since) as Record<string, number>;
+  return {
+    calls: row.calls,
+    outcomes: { ok: row.ok, error: row.error, 'rate-limited': row.rateLimited, 'over-budget': row.overBudget },
+    inputTokens: row.inputTokens,
+    outputTokens: row.outputTokens,
+    cost: estimateCost(row.inputTokens, row.outputTokens, budget),
+    averageLatency: Math.round(row.averageLatency),
+  };
+}
+
+function toCall(row: CallRow): AnalysisCall {
+  return {
+    id: row.id,
+    timestamp: new Date(row.timestamp).toISOString(),
+    cameraId: row.camera_id ?? undefined,
+    triggerSource: row.trigger_source,
+    outcome: row.outcome,
+    latencyMs: row.latency_ms,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    error: row.error ?? undefined,
+  };
+}
+
+export function usageSummary() {
+  const budget = getBudget();
+  const now = Date.now();
+  const recent = db.prepare('SELECT * FROM analysis_calls ORDER BY id DESC LIMIT ?').all(RECENT_CALLS) as CallRow[];
+  return {
+    budget,
+    lastMinute: callsSince(now - MINUTE),
+    lastDay: callsSince(now - DAY),
+    day: totalsSince(now - DAY, budget),
+    week: totalsSince(now - 7 * DAY, budget),
+    recent: recent.map(toCall),
+  };
+}
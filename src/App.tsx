@@ -18,58 +18,159 @@ import {
   Loader2,
   Upload,
   Download,
+  LogOut,
   Volume2,
   VolumeX
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { GoogleGenAI, ThinkingLevel } from "@google/genai";
-import Markdown from 'react-markdown';
 import { cn } from './lib/utils';
+import {
+  armSystem,
+  disarmSystem,
+  dismissAlarm,
+  getSecurity,
+  listEvents,
+  listIgnoredFrames,
+  parseEvent,
+  raiseAlarm,
+  reportLevels,
+  saveEvent,
+  shareSnapshot,
+  uploadClip,
+} from './lib/api';
+import { DEFAULT_SOUND_CLASSES, SOUND_LABELS } from './lib/audioClassifier';
+import { createCamera } from './lib/cameras';
+import { connectLive } from './lib/live';
+import { healthReason } from './lib/health';
+import { hashImage, isIgnored } from './lib/phash';
+import { DEFAULT_DETECTOR, DETECTOR_MODES } from './lib/detectors';
+import { appliesInMode, createRuleEngine, DEFAULT_RULES } from './lib/rules';
+import { isArmed } from './lib/security';
+import { tamperReason } from './lib/tamper';
+import { useCan, useSession } from './lib/session';
+import { useServerSetting } from './lib/useServerSetting';
+import { CameraFeed, type CameraDetection, type CameraHealthReport, type CameraTamperReport } from './components/CameraFeed';
+import { AuditLog } from './components/AuditLog';
+import { CameraPanel } from './components/CameraPanel';
+import { Chips } from './components/Chips';
+import { EventArchive } from './components/EventArchive';
+import { MqttPanel } from './components/MqttPanel';
+import { NotificationsPanel } from './components/NotificationsPanel';
+import { PinDialog } from './components/PinDialog';
+import { RemoteFeed } from './components/RemoteFeed';
+import { RulesPanel } from './components/RulesPanel';
+import { SecurityPanel } from './components/SecurityPanel';
+import { SchedulePanel } from './components/SchedulePanel';
+import { SecuritySettings } from './components/SecuritySettings';
+import { StreamFeed } from './components/StreamFeed';
+import { PrivacyPanel } from './components/PrivacyPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { UsersPanel } from './components/UsersPanel';
+import { ZonePanel } from './components/ZonePanel';
+import type { ZoneDraft } from './components/ZoneOverlay';
+import { SOUND_CLASSES } from './types';
+import type {
+  AlarmState,
+  ArmedMode,
+  Camera as CameraConfig,
+  CameraLevels,
+  DetectionEvent,
+  DetectorMode,
+  IgnoredFrame,
+  Notifier,
+  Rule,
+  SecurityState,
+  ZoneKind,
+} from './types';
 
-// --- Types ---
+// --- Constants ---
+
+const RECENT_EVENTS_LIMIT = 50; // Sidebar only; the full archive lives on the server
+const LEVELS_INTERVAL = 500; // How often a running camera shares its meters with other dashboards
+const REMOTE_LEVELS_TTL = 5000; // A camera whose meters stop arriving this long is no longer shown as running elsewhere
+const MONITOR_DEVICE_KEY = 'sentryai.monitorDevice'; // Set on devices that run their cameras, so a scheduled arm starts them again
 
-interface DetectionEvent {
-  id: string;
-  timestamp: Date;
-  image: string;
-  isSuspicious: boolean;
-  reason: string;
+/** Meters from a camera that another device is running. */
+interface RemoteLevels {
+  levels: CameraLevels;
+  receivedAt: number;
 }
 
-// --- Constants ---
+interface PinPrompt {
+  title: string;
+  description: string;
+  onSubmit: (pin: string) => Promise<void>;
+}
+
+const MODE_LABELS: Record<SecurityState['mode'], string> = {
+  disarmed: "Disarmed",
+  home: "Armed Home",
+  away: "Armed Away",
+};
 
-const MOTION_THRESHOLD = 30; // Sensitivity
-const DETECTION_COOLDOWN = 1500; // 1.5 seconds between AI checks
-const GEMINI_MODEL = "gemini-3-flash-preview";
+// New zones are numbered per kind: "Zone 2", "Mask 1", "Privacy 1"
+const ZONE_NAMES: Record<ZoneKind, string> = {
+  include: "Zone",
+  ignore: "Mask",
+  privacy: "Privacy",
+};
 
 export default function App() {
+  const { user, signOut } = useSession();
+  const canOperate = useCan('operator');
+  const isAdmin = useCan('admin');
+
   // --- State ---
   const [isMonitoring, setIsMonitoring] = useState(false);
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const [isSuspicious, setIsSuspicious] = useState(false);
+  // Held by the server, so every open dashboard shows and clears the same alarm
+  const [alarm, setAlarm] = useState<AlarmState | null>(null);
   const [events, setEvents] = useState<DetectionEvent[]>([]);
-  const [activeTab, setActiveTab] = useState<'live' | 'history'>('live');
+  const [activeTab, setActiveTab] = useState<'live' | 'history' | 'settings'>('live');
   const [isMuted, setIsMuted] = useState(false);
-  const [sensitivity, setSensitivity] = useState(85);
-  const [audioSensitivity, setAudioSensitivity] = useState(60);
-  const [isSmartGuard, setIsSmartGuard] = useState(true);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [lastMotionDetected, setLastMotionDetected] = useState(false);
-  const [audioLevel, setAudioLevel] = useState(0);
+  const [cameras, setCameras] = useServerSetting<CameraConfig[]>('cameras', []);
+  const [selectedCameraId, setSelectedCameraId] = useState<string | null>(null);
+  const [zoneDraft, setZoneDraft] = useState<ZoneDraft | null>(null);
+  const [rules, setRules] = useServerSetting<Rule[]>('rules', DEFAULT_RULES);
+  const [notifiers, setNotifiers] = useServerSetting<Notifier[]>('notifiers', [], isAdmin);
+  const [security, setSecurity] = useState<SecurityState | null>(null);
+  const [remoteLevels, setRemoteLevels] = useState<Record<string, RemoteLevels>>({});
+  const [pinPrompt, setPinPrompt] = useState<PinPrompt | null>(null);
+  // Counted up per camera when home automation asks for a snapshot; only feeds running here answer
+  const [snapshotRequests, setSnapshotRequests] = useState<Record<string, number>>({});
   
-  // Refs for motion detection
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const prevFrameRef = useRef<ImageData | null>(null);
-  const lastFrameTimeRef = useRef<number>(0);
-  const lastDetectionTimeRef = useRef<number>(0);
   const alarmAudioRef = useRef<HTMLAudioElement | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const [currentMotionLevel, setCurrentMotionLevel] = useState(0);
+  const ruleEngineRef = useRef(createRuleEngine());
+  // Read from the detection callback without re-creating it, which would restart every feed
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+  const securityRef = useRef(security);
+  securityRef.current = security;
+  const levelsSentRef = useRef(new Map<string, number>());
+  const ignoredFramesRef = useRef<IgnoredFrame[]>([]);
+  const activeAlert = alarm?.sounding ? alarm : null;
+  const pendingAlert = alarm && !alarm.sounding ? alarm : null;
+  const isSuspicious = activeAlert !== null;
+  const isSystemArmed = security !== null && security.mode !== 'disarmed';
+  const selectedCamera = cameras.find(c => c.id === selectedCameraId) ?? cameras[0];
+  const cameraNames = new Map(cameras.map(c => [c.id, c.name]));
+  // What this device can show without running the cameras itself
+  const watchedElsewhere = cameras.filter(c => c.source || remoteLevels[c.id]);
+
+  // Only the latest events are loaded; when all of them are from today, there may be more than they show
+  const startOfToday = new Date().setHours(0, 0, 0, 0);
+  const alertsToday = events.filter(e => e.isSuspicious && e.timestamp.getTime() >= startOfToday).length;
+  const loadedAllOfToday = events.length < RECENT_EVENTS_LIMIT || events[events.length - 1].timestamp.getTime() < startOfToday;
+
+  // Consecutive events of one incident collapse into a single card showing the newest
+  const recentActivity = events.reduce<{ event: DetectionEvent; count: number }[]>((groups, event) => {
+    const last = groups[groups.length - 1];
+    if (last && event.incidentId && last.event.incidentId === event.incidentId) last.count++;
+    else groups.push({ event, count: 1 });
+    return groups;
+  }, []);
 
-  // --- AI Initialization ---
-  const getAI = () => new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+  const updateCamera = (id: string, patch: Partial<CameraConfig>) =>
+    setCameras(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
 
   // --- Audio Setup ---
   useEffect(() => {
@@ -81,219 +182,257 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    if (isSuspicious && !isMuted) {
+    if (isSuspicious && !isMuted && !activeAlert?.muted) {
       alarmAudioRef.current?.play().catch(() => {});
     } else {
       alarmAudioRef.current?.pause();
     }
-  }, [isSuspicious, isMuted]);
+  }, [isSuspicious, isMuted, activeAlert?.muted]);
 
-  // --- Camera & Motion Logic ---
+  // --- Security Mode ---
+
+  useEffect(() => {
+    getSecurity()
+      .then(state => {
+        setSecurity(state);
+        // Reloading the page must not leave an armed system blind; viewers never run cameras
+        if (state.mode !== 'disarmed' && canOperate) setIsMonitoring(true);
+      })
+      .catch(err => console.error("Failed to load security state:", err));
+  }, []);
 
-  const startCamera = async () => {
-    try {
-      const s = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
-      setStream(s);
-      setIsMonitoring(true);
-
-      // Audio Setup
-      const audioContext = new AudioContext();
-      const source = audioContext.createMediaStreamSource(s);
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      source.connect(analyser);
-      
-      audioContextRef.current = audioContext;
-      analyserRef.current = analyser;
 
+  const arm = async (mode: ArmedMode) => {
+    try {
+      setSecurity(await armSystem(mode));
+      startMonitoring();
     } catch (err) {
-      console.error("Error accessing camera/mic:", err);
-      alert("Camera/Microphone access denied or not available. Please ensure you have granted permissions.");
+      console.error("Failed to arm:", err);
     }
   };
 
-  const stopCamera = () => {
-    stream?.getTracks().forEach(track => track.stop());
-    audioContextRef.current?.close();
-    setStream(null);
-    setIsMonitoring(false);
-    setIsSuspicious(false);
-  };
+  const requestDisarm = () => setPinPrompt({
+    title: "Disarm",
+    description: "Enter your PIN to stand the system down.",
+    onSubmit: async (pin) => {
+      setSecurity(await disarmSystem(pin));
+      setAlarm(null);
+      setPinPrompt(null);
+    },
+  });
+
+  const requestDismiss = (camera: CameraConfig) => setPinPrompt({
+    title: "Dismiss Alarm",
+    description: "Enter your PIN to silence the alarm. The system stays armed.",
+    onSubmit: async (pin) => {
+      await dismissAlarm(pin, camera.name);
+      setAlarm(null);
+      setPinPrompt(null);
+    },
+  });
+
+  // --- Event Archive ---
+
+  const loadIgnoredFrames = useCallback(() => {
+    listIgnoredFrames()
+      .then(frames => { ignoredFramesRef.current = frames; })
+      .catch(err => console.error("Failed to load false positives:", err));
+  }, []);
+
+  useEffect(loadIgnoredFrames, [loadIgnoredFrames]);
+
+  useEffect(() => {
+    listEvents({ limit: RECENT_EVENTS_LIMIT })
+      .then(page => setEvents(page.events))
+      .catch(err => console.error("Failed to load events:", err));
+  }, []);
+
+  // --- Realtime Sync ---
+
+  // Other devices, and the server's own stream monitors, arm, alarm and record events as they happen
+  useEffect(() => connectLive((message) => {
+    switch (message.type) {
+      case 'security':
+        setSecurity(message.state);
+        if (message.state.mode !== 'disarmed' && canOperate && localStorage.getItem(MONITOR_DEVICE_KEY)) setIsMonitoring(true);
+        break;
+      case 'alarm':
+        setAlarm(message.alarm);
+        break;
+      case 'event': {
+        const event = parseEvent(message.event);
+        setEvents(prev => prev.some(e => e.id === event.id)
+          ? prev.map(e => e.id === event.id ? event : e)
+          : [event, ...prev].slice(0, RECENT_EVENTS_LIMIT));
+        break;
+      }
+      case 'levels': {
+        const { cameraId } = message.levels;
+        // This device's own meters echo back; they only count as remote once it stopped sending
+        if (Date.now() - (levelsSentRef.current.get(cameraId) ?? 0) < REMOTE_LEVELS_TTL) break;
+        setRemoteLevels(prev => ({ ...prev, [cameraId]: { levels: message.levels, receivedAt: Date.now() } }));
+        break;
+      }
+      case 'snapshot':
+        setSnapshotRequests(prev => ({ ...prev, [message.cameraId]: (prev[message.cameraId] ?? 0) + 1 }));
+        break;
+    }
+  }), []);
 
   useEffect(() => {
-    if (isMonitoring && stream && videoRef.current) {
-      videoRef.current.srcObject = stream;
+    const interval = setInterval(() => setRemoteLevels(prev => {
+      const fresh = Object.entries(prev).filter(([, { receivedAt }]) => Date.now() - receivedAt < REMOTE_LEVELS_TTL);
+      return fresh.length === Object.keys(prev).length ? prev : Object.fromEntries(fresh);
+    }), REMOTE_LEVELS_TTL / 2);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Meters change every few hundred milliseconds; other devices only need a coarser picture
+  const shareLevels = useCallback((levels: CameraLevels) => {
+    const now = Date.now();
+    if (now - (levelsSentRef.current.get(levels.cameraId) ?? 0) < LEVELS_INTERVAL) return;
+    levelsSentRef.current.set(levels.cameraId, now);
+    reportLevels(levels).catch(() => {});
+  }, []);
+
+  const handleDetection = useCallback(async (detection: CameraDetection) => {
+    const { camera, image, reason, triggerSource, zone, isSuspicious, detections, caption, tags } = detection;
+    const security = securityRef.current;
+    if (!security || !isArmed(security)) return;
+
+    const rules = rulesRef.current.filter(rule => appliesInMode(rule, security.mode));
+    const fired = ruleEngineRef.current.evaluate(rules, {
+      cameraId: camera.id,
+      triggerSource,
+      zone: zone?.name ?? null,
+      isSuspicious,
+      detections,
+    });
+    if (!fired.length) return;
+
+    const phash = await hashImage(image).catch(() => undefined);
+    if (phash && isIgnored(ignoredFramesRef.current, camera.id, zone?.name, phash)) return;
+
+    const actions = new Set(fired.flatMap(rule => rule.actions));
+    const clip = detection.captureClip();
+    if (actions.has('alarm')) {
+      // The server keeps the first countdown running; later detections don't push the siren back
+      raiseAlarm(camera.id, zone?.name ?? null)
+        .then(setAlarm)
+        .catch(err => console.error("Failed to raise the alarm:", err));
+    }
+    if (actions.has('notify') && 'Notification' in window && Notification.permission === 'granted') {
+      new Notification(`SentryAI · ${camera.name}`, { body: `${fired[0].name}: ${reason}`, icon: image });
     }
-  }, [isMonitoring, stream]);
 
-  const analyzeFrame = useCallback(async (base64Image: string, triggerSource: 'motion' | 'sound' = 'motion') => {
-    if (isAnalyzing) return;
-    setIsAnalyzing(true);
-    
     try {
-      const ai = getAI();
-      // Simplified and more direct prompt to avoid AI over-thinking
-      const prompt = "Is there a human being visible in this security frame? Look closely at the entire image. If you see even a part of a person, respond with isSuspicious: true. Respond ONLY in JSON: { \"isSuspicious\": boolean, \"reason\": \"short description of what you see\" }";
-
-      const response = await ai.models.generateContent({
-        model: GEMINI_MODEL,
-        contents: [
-          {
-            parts: [
-              { text: prompt },
-              { inlineData: { mimeType: "image/jpeg", data: base64Image.split(',')[1] } }
-            ]
-          }
-        ],
-        config: { 
-          responseMimeType: "application/json",
-          // Use standard thinking for better accuracy if low-latency is failing
-          thinkingConfig: { thinkingLevel: ThinkingLevel.LOW }
-        }
+      const event = await saveEvent({
+        image,
+        reason,
+        triggerSource,
+        zone: zone?.name,
+        cameraId: camera.id,
+        detections,
+        rule: fired[0].name,
+        notify: actions.has('notify'),
+        phash,
+        caption,
+        tags,
       });
+      setEvents(prev => [event, ...prev].slice(0, RECENT_EVENTS_LIMIT));
 
-      const text = response.text || "{}";
-      const result = JSON.parse(text.substring(text.indexOf('{'), text.lastIndexOf('}') + 1));
-      
-      if (result.isSuspicious) {
-        setIsSuspicious(true);
-        const newEvent: DetectionEvent = {
-          id: Math.random().toString(36).substr(2, 9),
-          timestamp: new Date(),
-          image: base64Image,
-          isSuspicious: true,
-          reason: result.reason || "Person detected"
-        };
-        setEvents(prev => [newEvent, ...prev].slice(0, 50));
+      const recorded = await clip;
+      if (recorded?.size) {
+        const withClip = await uploadClip(event.id, recorded);
+        setEvents(prev => prev.map(e => e.id === withClip.id ? withClip : e));
       }
     } catch (err) {
-      console.error("AI Analysis failed:", err);
-    } finally {
-      setIsAnalyzing(false);
+      console.error("Failed to save event:", err);
     }
-  }, [isAnalyzing]);
+  }, []);
 
-  useEffect(() => {
-    let animationFrame: number;
-    
-    const detectMotion = () => {
-      if (!isMonitoring || !videoRef.current || !canvasRef.current) return;
-
-      const now = Date.now();
-      
-      // Audio Level Detection
-      if (analyserRef.current) {
-        const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-        analyserRef.current.getByteFrequencyData(dataArray);
-        // Use peak level instead of average to catch sharp sounds like footsteps
-        const max = Math.max(...Array.from(dataArray));
-        const normalizedLevel = (max / 255) * 100;
-        setAudioLevel(normalizedLevel);
-
-        if (normalizedLevel > (100 - audioSensitivity)) {
-          if (now - lastDetectionTimeRef.current > (isSmartGuard ? 1000 : 300)) {
-            lastDetectionTimeRef.current = now;
-            const video = videoRef.current;
-            const canvas = canvasRef.current;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-              ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-              const snapshot = canvas.toDataURL('image/jpeg', 0.5);
-              
-              if (isSmartGuard) {
-                analyzeFrame(snapshot, 'sound');
-              } else {
-                setIsSuspicious(true);
-                const newEvent: DetectionEvent = {
-                  id: Math.random().toString(36).substr(2, 9),
-                  timestamp: new Date(),
-                  image: snapshot,
-                  isSuspicious: true,
-                  reason: "Instant Sound Alert"
-                };
-                setEvents(prev => [newEvent, ...prev].slice(0, 50));
-              }
-            }
-          }
-        }
-      }
+  // Tampering skips the rules and false-positive checks: it always sounds the alarm and notifies while armed
+  const handleTamper = useCallback(async ({ camera, kind, image, captureClip }: CameraTamperReport) => {
+    const security = securityRef.current;
+    if (!security || !isArmed(security)) return;
+
+    const reason = tamperReason(kind);
+    const clip = captureClip();
+    raiseAlarm(camera.id, null)
+      .then(setAlarm)
+      .catch(err => console.error("Failed to raise the alarm:", err));
+    if ('Notification' in window && Notification.permission === 'granted') {
+      new Notification(`SentryAI · ${camera.name}`, { body: reason, icon: image });
+    }
 
-      // Only process motion every 100ms to make differences more apparent
-      if (now - lastFrameTimeRef.current < 100) {
-        animationFrame = requestAnimationFrame(detectMotion);
-        return;
-      }
-      lastFrameTimeRef.current = now;
-
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d', { willReadFrequently: true });
-      if (!ctx) return;
-
-      // Draw current video frame to canvas
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      const currentFrame = ctx.getImageData(0, 0, canvas.width, canvas.height);
-
-      if (prevFrameRef.current) {
-        let diff = 0;
-        const data = currentFrame.data;
-        const prevData = prevFrameRef.current.data;
-
-        // Sample every 4th pixel (2x2 grid) for better noise rejection and performance
-        for (let i = 0; i < data.length; i += 16) {
-          const rDiff = Math.abs(data[i] - prevData[i]);
-          const gDiff = Math.abs(data[i+1] - prevData[i+1]);
-          const bDiff = Math.abs(data[i+2] - prevData[i+2]);
-          
-          // Higher threshold for individual pixel noise (45 instead of 20)
-          if (rDiff + gDiff + bDiff > 45) diff++;
-        }
-
-        // Calculate motion level based on the sampled grid
-        const motionLevel = (diff / (canvas.width * canvas.height / 4)) * 100;
-        setCurrentMotionLevel(motionLevel);
-
-        // Adjusted threshold mapping to prevent "triggering on nothing" at high sensitivity
-        // Even at 99%, we require at least 0.5% of the screen to move
-        const threshold = Math.max(0.5, (100 - sensitivity) / 2);
-
-        if (motionLevel > threshold) {
-          setLastMotionDetected(true);
-          setTimeout(() => setLastMotionDetected(false), 1000);
-          
-          if (now - lastDetectionTimeRef.current > (isSmartGuard ? 1000 : 300)) {
-            lastDetectionTimeRef.current = now;
-            
-            // Use a smaller, faster snapshot for AI analysis
-            const snapshot = canvas.toDataURL('image/jpeg', 0.5);
-            
-            if (isSmartGuard) {
-              analyzeFrame(snapshot);
-            } else {
-              setIsSuspicious(true);
-              const newEvent: DetectionEvent = {
-                id: Math.random().toString(36).substr(2, 9),
-                timestamp: new Date(),
-                image: snapshot,
-                isSuspicious: true,
-                reason: "Instant Motion Alert"
-              };
-              setEvents(prev => [newEvent, ...prev].slice(0, 50));
-            }
-          }
-        }
+    try {
+      const event = await saveEvent({ image, reason, triggerSource: 'tamper', cameraId: camera.id, notify: true });
+      setEvents(prev => [event, ...prev].slice(0, RECENT_EVENTS_LIMIT));
+
+      const recorded = await clip;
+      if (recorded?.size) {
+        const withClip = await uploadClip(event.id, recorded);
+        setEvents(prev => prev.map(e => e.id === withClip.id ? withClip : e));
       }
+    } catch (err) {
+      console.error("Failed to save tamper event:", err);
+    }
+  }, []);
 
-      prevFrameRef.current = currentFrame;
-      animationFrame = requestAnimationFrame(detectMotion);
-    };
+  // Watchdog reports are archived whether or not the system is armed; they only go out as notifications while it is
+  const handleHealth = useCallback(async ({ camera, issue, image }: CameraHealthReport) => {
+    const security = securityRef.current;
+    try {
+      const event = await saveEvent({
+        image,
+        reason: healthReason(issue),
+        triggerSource: 'system',
+        isSuspicious: false,
+        cameraId: camera.id,
+        notify: Boolean(security && isArmed(security)),
+      });
+      setEvents(prev => [event, ...prev].slice(0, RECENT_EVENTS_LIMIT));
+    } catch (err) {
+      console.error("Failed to save camera health event:", err);
+    }
+  }, []);
+
+  // --- Monitoring ---
 
-    if (isMonitoring) {
-      animationFrame = requestAnimationFrame(detectMotion);
+  const startMonitoring = () => {
+    // First run: watch the default webcam and microphone like a single-camera setup.
+    // Only admins may change the camera list; operators are told to ask one instead.
+    if (cameras.length === 0 && isAdmin) {
+      setCameras([createCamera("Camera 1", '', '')]);
     }
+    localStorage.setItem(MONITOR_DEVICE_KEY, '1');
+    setIsMonitoring(true);
+  };
 
-    return () => cancelAnimationFrame(animationFrame);
-  }, [isMonitoring, sensitivity, analyzeFrame]);
+  const stopMonitoring = () => {
+    if (isSystemArmed) return;
+    localStorage.removeItem(MONITOR_DEVICE_KEY);
+    setIsMonitoring(false);
+    setZoneDraft(null);
+  };
+
+  // --- Zone Editing ---
+
+  const finishZoneDraft = () => {
+    if (!selectedCamera || !zoneDraft || zoneDraft.points.length < 3) return;
+    const { zones } = selectedCamera;
+    const count = zones.filter(z => z.kind === zoneDraft.kind).length + 1;
+    updateCamera(selectedCamera.id, {
+      zones: [...zones, {
+        id: crypto.randomUUID(),
+        name: `${ZONE_NAMES[zoneDraft.kind]} ${count}`,
+        kind: zoneDraft.kind,
+        points: zoneDraft.points,
+        sensitivity: selectedCamera.sensitivity,
+      }],
+    });
+    setZoneDraft(null);
+  };
 
   // --- UI Components ---
 
@@ -316,6 +455,7 @@ export default function App() {
             {[
               { id: 'live', label: 'Live Monitor', icon: Camera },
               { id: 'history', label: 'Event Log', icon: History },
+              ...(isAdmin ? [{ id: 'settings', label: 'Settings', icon: Settings }] : []),
             ].map((tab) => (
               <button
                 key={tab.id}
@@ -336,7 +476,9 @@ export default function App() {
           <div className="flex items-center gap-4">
             <button 
               onClick={() => setIsMuted(!isMuted)}
-              className="p-2 rounded-full hover:bg-white/5 text-zinc-400 transition-colors"
+              // A sounding alarm can only be silenced with the PIN
+              disabled={isSuspicious}
+              className="p-2 rounded-full hover:bg-white/5 text-zinc-400 transition-colors disabled:opacity-30"
             >
               {isMuted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
             </button>
@@ -350,6 +492,20 @@ export default function App() {
                 {isMonitoring ? "System Active" : "Standby"}
               </span>
             </div>
+            <div className="h-4 w-px bg-white/10" />
+            <div className="flex items-center gap-2">
+              <div className="text-right">
+                <p className="text-xs font-bold text-zinc-300">{user.username}</p>
+                <p className="text-[9px] uppercase tracking-widest text-zinc-500">{user.role}</p>
+              </div>
+              <button
+                onClick={signOut}
+                title="Sign out"
+                className="p-2 rounded-full hover:bg-white/5 text-zinc-400 hover:text-white transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -364,128 +520,122 @@ export default function App() {
               exit={{ opacity: 0, y: -20 }}
               className="grid grid-cols-1 lg:grid-cols-3 gap-8"
             >
-              {/* Main Feed */}
+              {/* Camera Grid */}
               <div className="lg:col-span-2 space-y-6">
-                <div className="relative aspect-video bg-zinc-900 rounded-3xl overflow-hidden border border-white/10 shadow-2xl group">
-                  {!isMonitoring ? (
+                {isMonitoring && cameras.length > 0 ? (
+                  <div className="space-y-4">
+                    <div className={cn("grid gap-4", cameras.length > 1 && "md:grid-cols-2")}>
+                      {cameras.map((camera) => camera.source ? (
+                        <StreamFeed
+                          key={camera.id}
+                          camera={camera}
+                          isSelected={camera.id === selectedCamera?.id && cameras.length > 1}
+                          alertZone={activeAlert?.cameraId === camera.id ? activeAlert.zone : undefined}
+                          zoneDraft={camera.id === selectedCamera?.id ? zoneDraft : null}
+                          onSelect={() => setSelectedCameraId(camera.id)}
+                          onDismiss={canOperate ? () => requestDismiss(camera) : undefined}
+                          onAddZonePoint={(point) => setZoneDraft(d => d && { ...d, points: [...d.points, point] })}
+                        />
+                      ) : (
+                        <CameraFeed
+                          key={camera.id}
+                          camera={camera}
+                          isMonitoring={isMonitoring}
+                          isSelected={camera.id === selectedCamera?.id && cameras.length > 1}
+                          alertZone={activeAlert?.cameraId === camera.id ? activeAlert.zone : undefined}
+                          zoneDraft={camera.id === selectedCamera?.id ? zoneDraft : null}
+                          onSelect={() => setSelectedCameraId(camera.id)}
+                          onDetection={handleDetection}
+                          onHealth={handleHealth}
+                          onTamper={handleTamper}
+                          onDismiss={canOperate ? () => requestDismiss(camera) : undefined}
+                          onAddZonePoint={(point) => setZoneDraft(d => d && { ...d, points: [...d.points, point] })}
+                          onLevels={shareLevels}
+                          snapshotRequest={snapshotRequests[camera.id]}
+                          onSnapshot={(image) => shareSnapshot(camera.id, image).catch(err => console.error("Failed to share a snapshot:", err))}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex items-center justify-end gap-3">
+                      {isSystemArmed && <span className="text-[10px] text-zinc-500">Disarm to stop the feed</span>}
+                      <button 
+                        onClick={stopMonitoring}
+                        disabled={isSystemArmed}
+                        className="px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-500 border border-red-500/20 rounded-xl text-xs font-bold uppercase tracking-widest backdrop-blur-md transition-all disabled:opacity-30 disabled:pointer-events-none"
+                      >
+                        Stop Feed
+                      </button>
+                    </div>
+                  </div>
+                ) : watchedElsewhere.length > 0 ? (
+                  <div className="space-y-4">
+                    <div className={cn("grid gap-4", watchedElsewhere.length > 1 && "md:grid-cols-2")}>
+                      {watchedElsewhere.map((camera) => camera.source ? (
+                        <StreamFeed
+                          key={camera.id}
+                          camera={camera}
+                          isSelected={false}
+                          alertZone={activeAlert?.cameraId === camera.id ? activeAlert.zone : undefined}
+                          zoneDraft={null}
+                          onSelect={() => setSelectedCameraId(camera.id)}
+                          onDismiss={canOperate ? () => requestDismiss(camera) : undefined}
+                          onAddZonePoint={() => {}}
+                        />
+                      ) : (
+                        <RemoteFeed
+                          key={camera.id}
+                          camera={camera}
+                          levels={remoteLevels[camera.id].levels}
+                          snapshot={events.find(e => e.cameraId === camera.id)?.image}
+                          alertZone={activeAlert?.cameraId === camera.id ? activeAlert.zone : undefined}
+                          onDismiss={canOperate ? () => requestDismiss(camera) : undefined}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex items-center justify-end">
+                      {canOperate && <button 
+                        onClick={startMonitoring}
+                        className="px-4 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-500 border border-emerald-500/20 rounded-xl text-xs font-bold uppercase tracking-widest backdrop-blur-md transition-all"
+                      >
+                        Monitor From This Device
+                      </button>}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="relative aspect-video bg-zinc-900 rounded-3xl overflow-hidden border border-white/10 shadow-2xl group">
                     <div className="absolute inset-0 flex flex-col items-center justify-center gap-6 bg-zinc-900/80 backdrop-blur-sm">
                       <div className="w-20 h-20 rounded-full bg-emerald-500/10 flex items-center justify-center border border-emerald-500/20">
                         <Camera className="w-10 h-10 text-emerald-500" />
                       </div>
                       <div className="text-center space-y-2">
-                        <h3 className="text-xl font-semibold">Camera Offline</h3>
-                        <p className="text-zinc-500 text-sm max-w-xs">Initialize your secure feed to start AI-powered motion tracking.</p>
-                      </div>
-                      <button 
-                        onClick={startCamera}
-                        className="px-8 py-3 bg-emerald-500 text-black font-bold rounded-2xl hover:bg-emerald-400 transition-all active:scale-95 shadow-lg shadow-emerald-500/20"
-                      >
-                        Start Monitoring
-                      </button>
-                    </div>
-                  ) : (
-                    <>
-                      <video 
-                        ref={videoRef} 
-                        autoPlay 
-                        muted 
-                        playsInline 
-                        className="w-full h-full object-cover"
-                      />
-                      <canvas ref={canvasRef} width="640" height="480" className="hidden" />
-                      
-                      {/* Overlay UI */}
-                      <div className="absolute top-6 left-6 flex flex-col gap-3">
-                        <div className="flex items-center gap-3">
-                          <div className="px-3 py-1.5 bg-black/60 backdrop-blur-md rounded-lg border border-white/10 flex items-center gap-2">
-                            <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
-                            <span className="text-[10px] font-mono uppercase tracking-widest font-bold">Live Feed</span>
-                          </div>
-                          {lastMotionDetected && !isSuspicious && (
-                            <div className="px-3 py-1.5 bg-yellow-500/20 backdrop-blur-md rounded-lg border border-yellow-500/30 flex items-center gap-2">
-                              <span className="text-[10px] font-mono uppercase tracking-widest font-bold text-yellow-500">Motion Detected</span>
-                            </div>
-                          )}
-                          {isAnalyzing && (
-                            <div className="px-3 py-1.5 bg-emerald-500/20 backdrop-blur-md rounded-lg border border-emerald-500/30 flex items-center gap-2 animate-pulse">
-                              <Loader2 className="w-3 h-3 text-emerald-500 animate-spin" />
-                              <span className="text-[10px] font-mono uppercase tracking-widest font-bold text-emerald-500">AI Scanning...</span>
-                            </div>
-                          )}
-                        </div>
-                        
-                        {/* Motion Bar */}
-                        <div className="flex flex-col gap-1">
-                          <div className="flex items-center justify-between text-[8px] font-bold uppercase tracking-tighter text-zinc-500">
-                            <span>Motion</span>
-                            <span>{Math.round(currentMotionLevel)}%</span>
-                          </div>
-                          <div className="w-32 h-1 bg-black/40 rounded-full overflow-hidden border border-white/5">
-                            <motion.div 
-                              animate={{ width: `${Math.min(currentMotionLevel * 5, 100)}%` }}
-                              className={cn(
-                                "h-full transition-colors",
-                                currentMotionLevel > (100 - sensitivity) ? "bg-red-500" : "bg-emerald-500"
-                              )}
-                            />
-                          </div>
-                        </div>
-
-                        {/* Audio Bar */}
-                        <div className="flex flex-col gap-1">
-                          <div className="flex items-center justify-between text-[8px] font-bold uppercase tracking-tighter text-zinc-500">
-                            <span>Audio</span>
-                            <span>{Math.round(audioLevel)}%</span>
-                          </div>
-                          <div className="w-32 h-1 bg-black/40 rounded-full overflow-hidden border border-white/5">
-                            <motion.div 
-                              animate={{ width: `${Math.min(audioLevel, 100)}%` }}
-                              className={cn(
-                                "h-full transition-colors",
-                                audioLevel > (100 - audioSensitivity) ? "bg-red-500" : "bg-emerald-500"
-                              )}
-                            />
-                          </div>
-                        </div>
+                        <h3 className="text-xl font-semibold">{cameras.length > 1 ? "Cameras Offline" : "Camera Offline"}</h3>
+                        <p className="text-zinc-500 text-sm max-w-xs">
+                          {!canOperate
+                            ? "Feeds appear here once an operator starts monitoring on another device."
+                            : cameras.length === 0 && !isAdmin
+                              ? "No cameras are set up yet. Ask an admin to add one before monitoring."
+                              : "Initialize your secure feed to start AI-powered motion tracking."}
+                        </p>
                       </div>
-
-                      <div className="absolute bottom-6 right-6">
+                      {canOperate && (cameras.length > 0 || isAdmin) && (
                         <button 
-                          onClick={stopCamera}
-                          className="px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-500 border border-red-500/20 rounded-xl text-xs font-bold uppercase tracking-wider backdrop-blur-md transition-all"
+                          onClick={startMonitoring}
+                          className="px-8 py-3 bg-emerald-500 text-black font-bold rounded-2xl hover:bg-emerald-400 transition-all active:scale-95 shadow-lg shadow-emerald-500/20"
                         >
-                          Stop Feed
+                          Start Monitoring
                         </button>
-                      </div>
+                      )}
+                    </div>
+                  </div>
+                )}
 
-                      {/* Alarm Overlay */}
-                      <AnimatePresence>
-                        {isSuspicious && (
-                          <motion.div 
-                            initial={{ opacity: 0 }}
-                            animate={{ opacity: 1 }}
-                            exit={{ opacity: 0 }}
-                            className="absolute inset-0 border-8 border-red-600/50 pointer-events-none animate-pulse flex items-center justify-center bg-red-600/10"
-                          >
-                            <div className="bg-red-600 text-white px-8 py-4 rounded-2xl shadow-2xl flex items-center gap-4 pointer-events-auto">
-                              <AlertTriangle className="w-8 h-8 animate-bounce" />
-                              <div>
-                                <h4 className="font-black text-xl uppercase tracking-tighter">Person Detected</h4>
-                                <p className="text-xs font-medium opacity-80">Intruder alert triggered by AI</p>
-                              </div>
-                              <button 
-                                onClick={() => setIsSuspicious(false)}
-                                className="ml-4 p-2 bg-white/20 hover:bg-white/30 rounded-lg transition-colors"
-                              >
-                                Dismiss
-                              </button>
-                            </div>
-                          </motion.div>
-                        )}
-                      </AnimatePresence>
-                    </>
-                  )}
-                </div>
+                <SecurityPanel
+                  security={security}
+                  entryDeadline={pendingAlert?.deadline ?? null}
+                  onArm={arm}
+                  onDisarm={requestDisarm}
+                  readOnly={!canOperate}
+                />
 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-2">
@@ -493,7 +643,7 @@ export default function App() {
                       <ShieldCheck className="w-4 h-4" />
                       <span className="text-[10px] uppercase font-bold tracking-widest">Status</span>
                     </div>
-                    <p className="text-2xl font-bold">{isMonitoring ? "Secured" : "Idle"}</p>
+                    <p className="text-2xl font-bold">{security ? MODE_LABELS[security.mode] : "—"}</p>
                     <p className="text-xs text-zinc-500">AI Guard is {isMonitoring ? "watching" : "on standby"}</p>
                   </div>
                   <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-2">
@@ -501,69 +651,124 @@ export default function App() {
                       <AlertTriangle className="w-4 h-4" />
                       <span className="text-[10px] uppercase font-bold tracking-widest">Alerts</span>
                     </div>
-                    <p className="text-2xl font-bold text-red-500">{events.filter(e => e.isSuspicious).length}</p>
+                    <p className="text-2xl font-bold text-red-500">{alertsToday}{!loadedAllOfToday && "+"}</p>
                     <p className="text-xs text-zinc-500">Suspicious events today</p>
                   </div>
                   <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
                     <div className="flex items-center gap-2 text-zinc-500 mb-2">
                       <Settings className="w-4 h-4" />
                       <span className="text-[10px] uppercase font-bold tracking-widest">Controls</span>
+                      {selectedCamera && cameras.length > 1 && (
+                        <span className="ml-auto text-[10px] font-mono text-zinc-400 truncate">{selectedCamera.name}</span>
+                      )}
                     </div>
                     
-                    <div className="space-y-4">
-                      <div className="flex items-center justify-between p-3 bg-black/40 rounded-2xl border border-white/5">
-                        <div className="space-y-0.5">
-                          <span className="text-xs font-bold text-zinc-300">Smart Guard</span>
-                          <p className="text-[9px] text-zinc-500">AI filters for people only</p>
+                    {!selectedCamera ? (
+                      <p className="text-xs text-zinc-500">Add a camera to adjust its detection settings.</p>
+                    ) : !isAdmin ? (
+                      <p className="text-xs text-zinc-500">Detection settings can only be changed by an admin.</p>
+                    ) : (
+                      <div className="space-y-4">
+                        <div className="flex items-center justify-between p-3 bg-black/40 rounded-2xl border border-white/5">
+                          <div className="space-y-0.5">
+                            <span className="text-xs font-bold text-zinc-300">Smart Guard</span>
+                            <p className="text-[9px] text-zinc-500">AI filters for people only</p>
+                          </div>
+                          <button 
+                            onClick={() => updateCamera(selectedCamera.id, { isSmartGuard: !selectedCamera.isSmartGuard })}
+                            className={cn(
+                              "w-10 h-5 rounded-full relative transition-colors",
+                              selectedCamera.isSmartGuard ? "bg-emerald-500" : "bg-zinc-700"
+                            )}
+                          >
+                            <motion.div 
+                              animate={{ x: selectedCamera.isSmartGuard ? 22 : 2 }}
+                              className="absolute top-1 w-3 h-3 bg-white rounded-full"
+                            />
+                          </button>
                         </div>
-                        <button 
-                          onClick={() => setIsSmartGuard(!isSmartGuard)}
-                          className={cn(
-                            "w-10 h-5 rounded-full relative transition-colors",
-                            isSmartGuard ? "bg-emerald-500" : "bg-zinc-700"
-                          )}
-                        >
-                          <motion.div 
-                            animate={{ x: isSmartGuard ? 22 : 2 }}
-                            className="absolute top-1 w-3 h-3 bg-white rounded-full"
-                          />
-                        </button>
-                      </div>
 
-                      <div className="space-y-3">
-                        <div className="space-y-1">
-                          <div className="flex items-center justify-between">
-                            <span className="text-xs font-medium text-zinc-400">Motion Sensitivity</span>
-                            <span className="text-[10px] font-mono text-emerald-500">{sensitivity}%</span>
+                        {selectedCamera.isSmartGuard && (
+                          <div className="space-y-1">
+                            <span className="text-xs font-medium text-zinc-400">AI Backend</span>
+                            <select
+                              value={selectedCamera.detector ?? DEFAULT_DETECTOR}
+                              onChange={(e) => updateCamera(selectedCamera.id, { detector: e.target.value as DetectorMode })}
+                              className="w-full px-2 py-1.5 bg-black/40 rounded-lg border border-white/10 text-[11px] text-zinc-300 focus:outline-none"
+                            >
+                              {DETECTOR_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+                            </select>
+                          </div>
+                        )}
+
+                        <div className="space-y-3">
+                          <div className="space-y-1">
+                            <div className="flex items-center justify-between">
+                              <span className="text-xs font-medium text-zinc-400">Motion Sensitivity</span>
+                              <span className="text-[10px] font-mono text-emerald-500">{selectedCamera.sensitivity}%</span>
+                            </div>
+                            <input 
+                              type="range" 
+                              min="1" 
+                              max="99" 
+                              value={selectedCamera.sensitivity} 
+                              onChange={(e) => updateCamera(selectedCamera.id, { sensitivity: parseInt(e.target.value) })}
+                              className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                            />
+                          </div>
+
+                          <div className="space-y-1">
+                            <div className="flex items-center justify-between">
+                              <span className="text-xs font-medium text-zinc-400">Audio Sensitivity</span>
+                              <span className="text-[10px] font-mono text-emerald-500">{selectedCamera.audioSensitivity}%</span>
+                            </div>
+                            <input 
+                              type="range" 
+                              min="1" 
+                              max="99" 
+                              value={selectedCamera.audioSensitivity} 
+                              onChange={(e) => updateCamera(selectedCamera.id, { audioSensitivity: parseInt(e.target.value) })}
+                              className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                            />
                           </div>
-                          <input 
-                            type="range" 
-                            min="1" 
-                            max="99" 
-                            value={sensitivity} 
-                            onChange={(e) => setSensitivity(parseInt(e.target.value))}
-                            className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
-                          />
-                        </div>
 
-                        <div className="space-y-1">
-                          <div className="flex items-center justify-between">
-                            <span className="text-xs font-medium text-zinc-400">Audio Sensitivity</span>
-                            <span className="text-[10px] font-mono text-emerald-500">{audioSensitivity}%</span>
+                          <div className="space-y-1.5">
+                            <span className="text-xs font-medium text-zinc-400">Alert on Sounds</span>
+                            <Chips
+                              options={SOUND_CLASSES.map(id => ({ id, label: SOUND_LABELS[id] }))}
+                              selected={selectedCamera.soundClasses ?? DEFAULT_SOUND_CLASSES}
+                              onChange={(soundClasses) => updateCamera(selectedCamera.id, { soundClasses })}
+                            />
                           </div>
-                          <input 
-                            type="range" 
-                            min="1" 
-                            max="99" 
-                            value={audioSensitivity} 
-                            onChange={(e) => setAudioSensitivity(parseInt(e.target.value))}
-                            className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
-                          />
                         </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                 </div>
+
+                {isAdmin && selectedCamera && (
+                  <ZonePanel
+                    zones={selectedCamera.zones}
+                    onChange={(zones) => updateCamera(selectedCamera.id, { zones })}
+                    draft={zoneDraft}
+                    canDraw={isMonitoring}
+                    onStartDraft={(kind: ZoneKind) => setZoneDraft({ kind, points: [] })}
+                    onFinishDraft={finishZoneDraft}
+                    onCancelDraft={() => setZoneDraft(null)}
+                  />
+                )}
+
+                {isAdmin && (
+                  <CameraPanel
+                    cameras={cameras}
+                    selectedCameraId={selectedCamera?.id ?? null}
+                    onChange={setCameras}
+                    onSelect={(id) => {
+                      setSelectedCameraId(id);
+                      setZoneDraft(null);
+                    }}
+                  />
+                )}
               </div>
 
               {/* Sidebar: Recent Events */}
@@ -588,7 +793,7 @@ export default function App() {
                       <p className="text-sm text-zinc-500">No events detected yet</p>
                     </div>
                   ) : (
-                    events.map((event) => (
+                    recentActivity.map(({ event, count }) => (
                       <motion.div 
                         initial={{ opacity: 0, x: 20 }}
                         animate={{ opacity: 1, x: 0 }}
@@ -597,13 +802,26 @@ export default function App() {
                       >
                         <div className="aspect-video relative overflow-hidden">
                           <img src={event.image} alt="Event" className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
-                          <div className="absolute top-3 left-3 px-2 py-1 bg-red-600 text-[8px] font-bold uppercase tracking-tighter rounded shadow-lg">
-                            Suspicious
-                          </div>
+                          {(event.isSuspicious || event.triggerSource === 'system') && (
+                            <div className={cn(
+                              "absolute top-3 left-3 px-2 py-1 text-[8px] font-bold uppercase tracking-tighter rounded shadow-lg",
+                              event.triggerSource === 'system' ? "bg-amber-500 text-black" : "bg-red-600"
+                            )}>
+                              {event.triggerSource === 'system' ? "Camera health" : event.triggerSource === 'tamper' ? "Tamper" : "Suspicious"}
+                            </div>
+                          )}
+                          {count > 1 && (
+                            <div className="absolute top-3 right-3 px-2 py-1 bg-black/60 backdrop-blur-md border border-white/10 text-[8px] font-bold uppercase tracking-tighter rounded">
+                              {count} events
+                            </div>
+                          )}
                         </div>
                         <div className="p-4 space-y-2">
                           <div className="flex items-center justify-between text-[10px] font-mono text-zinc-500">
-                            <span>{event.timestamp.toLocaleTimeString()}</span>
+                            <span>
+                              {event.timestamp.toLocaleTimeString()}
+                              {event.cameraId && cameraNames.has(event.cameraId) && ` · ${cameraNames.get(event.cameraId)}`}
+                            </span>
                             <span>{event.timestamp.toLocaleDateString()}</span>
                           </div>
                           <p className="text-xs text-zinc-300 line-clamp-2 leading-relaxed italic">
@@ -619,54 +837,44 @@ export default function App() {
           )}
 
           {activeTab === 'history' && (
-            <motion.div 
+            <EventArchive
               key="history"
+              cameras={cameras}
+              onCleared={() => setEvents([])}
+              onDeleted={(id) => setEvents(prev => prev.filter(e => e.id !== id))}
+              onLabeled={(event) => {
+                setEvents(prev => prev.map(e => e.id === event.id ? event : e));
+                loadIgnoredFrames();
+              }}
+            />
+          )}
+
+          {activeTab === 'settings' && isAdmin && (
+            <motion.div
+              key="settings"
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
-              className="space-y-8"
+              className="space-y-6"
             >
-              <div className="flex items-center justify-between">
-                <div>
-                  <h2 className="text-3xl font-black tracking-tighter uppercase italic">Security Archives</h2>
-                  <p className="text-zinc-500 text-sm">Review all AI-flagged events and suspicious movements.</p>
-                </div>
-                <button 
-                  onClick={() => setEvents([])}
-                  className="px-4 py-2 bg-white/5 hover:bg-red-500/10 text-zinc-400 hover:text-red-500 rounded-xl text-xs font-bold uppercase tracking-widest transition-all border border-white/10"
-                >
-                  Clear Logs
-                </button>
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {events.map((event) => (
-                  <div key={event.id} className="bg-zinc-900 rounded-3xl border border-white/5 overflow-hidden hover:shadow-2xl transition-all">
-                    <div className="aspect-video relative">
-                      <img src={event.image} alt="Event" className="w-full h-full object-cover" />
-                      <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent" />
-                      <div className="absolute bottom-4 left-4">
-                        <p className="text-[10px] font-mono text-emerald-500 font-bold uppercase tracking-widest">Event #{event.id}</p>
-                        <h4 className="font-bold text-white">{event.timestamp.toLocaleString()}</h4>
-                      </div>
-                    </div>
-                    <div className="p-6 space-y-4">
-                      <div className="markdown-body text-sm text-zinc-400 leading-relaxed">
-                        <Markdown>{event.reason}</Markdown>
-                      </div>
-                      <div className="pt-4 border-t border-white/5 flex items-center justify-between">
-                        <button className="text-xs font-bold text-emerald-500 hover:underline">Download Frame</button>
-                        <button className="text-xs font-bold text-zinc-500 hover:text-white">Report False Positive</button>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
+              {security && <SecuritySettings security={security} onChange={setSecurity} />}
+              <SchedulePanel />
+              <RulesPanel rules={rules} cameras={cameras} onChange={setRules} />
+              <NotificationsPanel notifiers={notifiers} onChange={setNotifiers} />
+              <MqttPanel />
+              <UsersPanel />
+              <PrivacyPanel />
+              <UsagePanel cameras={cameras} />
+              <AuditLog />
             </motion.div>
           )}
         </AnimatePresence>
       </main>
 
+      <AnimatePresence>
+        {pinPrompt && <PinDialog {...pinPrompt} onCancel={() => setPinPrompt(null)} />}
+      </AnimatePresence>
+
       {/* Footer */}
       <footer className="mt-20 border-t border-white/5 py-12">
         <div className="max-w-7xl mx-auto px-6 flex flex-col md:flex-row items-center justify-between gap-8">
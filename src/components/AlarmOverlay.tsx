@@ -0,0 +1,45 @@
+import { AlertTriangle } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+
+interface AlarmOverlayProps {
+  /** Zone name of the alarm on this camera, `null` for the whole frame, `undefined` when not alerting. */
+  zone: string | null | undefined;
+  /** Left out for users who may not dismiss alarms. */
+  onDismiss?: () => void;
+}
+
+export function AlarmOverlay({ zone, onDismiss }: AlarmOverlayProps) {
+  return (
+    <AnimatePresence>
+      {zone !== undefined && (
+        <motion.div 
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="absolute inset-0 border-8 border-red-600/50 pointer-events-none animate-pulse flex items-center justify-center bg-red-600/10"
+        >
+          <div className="bg-red-600 text-white px-8 py-4 rounded-2xl shadow-2xl flex items-center gap-4 pointer-events-auto">
+            <AlertTriangle className="w-8 h-8 animate-bounce" />
+            <div>
+              <h4 className="font-black text-xl uppercase tracking-tighter">Person Detected</h4>
+              <p className="text-xs font-medium opacity-80">
+                Intruder alert triggered by AI{zone && ` in ${zone}`}
+              </p>
+            </div>
+            {onDismiss && (
+              <button 
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDismiss();
+                }}
+                className="ml-4 p-2 bg-white/20 hover:bg-white/30 rounded-lg transition-colors"
+              >
+                Dismiss
+              </button>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
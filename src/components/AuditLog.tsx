@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, RefreshCw, ScrollText } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { listAudit } from '../lib/api';
+import type { AuditAction, AuditEntry, SecurityMode } from '../types';
+
+const PAGE_SIZE = 25;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  arm: 'Arm',
+  disarm: 'Disarm',
+  dismiss: 'Dismiss alarm',
+  pin: 'Change PIN',
+  config: 'Change delays',
+};
+
+const MODE_LABELS: Record<SecurityMode, string> = {
+  disarmed: 'Disarmed',
+  home: 'Armed Home',
+  away: 'Armed Away',
+};
+
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    try {
+      const page = await listAudit({ limit: PAGE_SIZE, offset });
+      setEntries(prev => (offset ? [...prev, ...page.entries] : page.entries));
+      setTotal(page.total);
+    } catch (err) {
+      console.error("Failed to load audit trail:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(0);
+  }, [load]);
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-500">
+          <ScrollText className="w-4 h-4" />
+          <span className="text-[10px] uppercase font-bold tracking-widest">Audit Trail</span>
+        </div>
+        <button
+          onClick={() => load(0)}
+          className="p-1.5 text-zinc-500 hover:text-white transition-colors"
+        >
+          <RefreshCw className={cn("w-3.5 h-3.5", isLoading && "animate-spin")} />
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-zinc-500">{isLoading ? "Loading…" : "No arm, disarm or dismiss actions yet."}</p>
+      ) : (
+        <div className="divide-y divide-white/5">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-center gap-3 py-2 text-xs">
+              <span className={cn("w-2 h-2 rounded-full shrink-0", entry.success ? "bg-emerald-500" : "bg-red-500")} />
+              <span className="w-36 font-mono text-[10px] text-zinc-500">{new Date(entry.timestamp).toLocaleString()}</span>
+              <span className={cn("font-bold", entry.success ? "text-zinc-300" : "text-red-500")}>
+                {entry.success ? ACTION_LABELS[entry.action] : `${ACTION_LABELS[entry.action]} · rejected`}
+              </span>
+              {entry.detail && <span className="text-zinc-500 truncate">{entry.detail}</span>}
+              <span className="ml-auto text-[10px] uppercase font-bold tracking-widest text-zinc-600">{MODE_LABELS[entry.mode]}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {entries.length < total && (
+        <button
+          onClick={() => load(entries.length)}
+          disabled={isLoading}
+          className="w-full py-2 bg-white/5 text-zinc-400 hover:text-white rounded-xl text-[10px] font-bold uppercase tracking-widest border border-white/10 transition-colors flex items-center justify-center gap-2"
+        >
+          {isLoading && <Loader2 className="w-3 h-3 animate-spin" />}
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState, type FormEvent, type ReactNode } from 'react';
+import { motion } from 'motion/react';
+import { Loader2, Shield } from 'lucide-react';
+import { createFirstAccount, getSession, setSignedOutHandler, signIn, signOut } from '../lib/api';
+import { SessionContext } from '../lib/session';
+import type { User } from '../types';
+
+function SignIn({ needsSetup, onSignedIn }: { needsSetup: boolean; onSignedIn: (user: User) => void }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      onSignedIn(needsSetup ? await createFirstAccount(username, password) : await signIn(username, password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
+      setPassword('');
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-black/40 rounded-2xl border border-white/10 text-sm text-white focus:outline-none focus:border-emerald-500/50";
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-zinc-100 font-sans flex items-center justify-center p-6">
+      <motion.form
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        onSubmit={submit}
+        className="w-full max-w-sm p-8 bg-zinc-900/50 rounded-3xl border border-white/5 shadow-2xl space-y-4"
+      >
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-emerald-500 rounded-xl flex items-center justify-center shadow-lg shadow-emerald-500/20">
+            <Shield className="w-6 h-6 text-black" />
+          </div>
+          <div>
+            <h1 className="font-bold tracking-tight text-lg">SentryAI</h1>
+            <p className="text-[11px] text-zinc-500">
+              {needsSetup ? "Create the admin account to get started." : "Sign in to the dashboard."}
+            </p>
+          </div>
+        </div>
+
+        <input
+          autoFocus
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          autoComplete={needsSetup ? "new-password" : "current-password"}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={needsSetup ? "Password (8+ characters)" : "Password"}
+          className={inputClass}
+        />
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !username || !password}
+          className="w-full py-3 bg-emerald-500 text-black rounded-2xl text-xs font-bold uppercase tracking-widest hover:bg-emerald-400 disabled:opacity-50 transition-colors flex items-center justify-center"
+        >
+          {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : needsSetup ? "Create Account" : "Sign In"}
+        </button>
+      </motion.form>
+    </div>
+  );
+}
+
+/** Shows the sign-in screen until there is a session, then renders `children` with it. */
+export function AuthGate({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getSession()
+      .then(session => {
+        setUser(session.user);
+        setNeedsSetup(session.needsSetup);
+      })
+      .catch(err => console.error("Failed to load session:", err))
+      .finally(() => setIsLoading(false));
+    setSignedOutHandler(() => setUser(null));
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <Loader2 className="w-6 h-6 text-zinc-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <SignIn
+        needsSetup={needsSetup}
+        onSignedIn={(signedIn) => {
+          setNeedsSetup(false);
+          setUser(signedIn);
+        }}
+      />
+    );
+  }
+
+  const endSession = () => {
+    signOut()
+      .catch(err => console.error("Failed to sign out:", err))
+      .finally(() => setUser(null));
+  };
+
+  return (
+    <SessionContext.Provider value={{ user, signOut: endSession }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
@@ -0,0 +1,594 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { CameraOff, Loader2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { createDetector } from '../lib/detectors';
+import { createAnalysisQueue } from '../lib/analysisQueue';
+import { createClipRecorder, createMaskedStream, type ClipRecorder, type MaskedStream } from '../lib/clipRecorder';
+import { FRAME_HEIGHT, FRAME_INTERVAL, FRAME_WIDTH, MOTION_HEIGHT, MOTION_WIDTH } from '../lib/frame';
+import { DEFAULT_SOUND_CLASSES, SOUND_LABELS, type SoundEvent } from '../lib/audioClassifier';
+import { createFrameAnalyzer, type AnalyzerEvent, type FrameAnalyzer } from '../lib/frameAnalysis';
+import { MAX_ANALYSIS_FAILURES, RECONNECT_DELAYS, RECONNECTS_BEFORE_REPORT, reconnectsOver, type HealthIssue } from '../lib/health';
+import type { TamperKind } from '../lib/tamper';
+import type { MotionTrack } from '../lib/motion';
+import { privacyZones } from '../lib/zones';
+import { AlarmOverlay } from './AlarmOverlay';
+import { DetectionBoxes } from './DetectionBoxes';
+import { MotionBlobs } from './MotionBlobs';
+import { ZoneOverlay, type ZoneDraft } from './ZoneOverlay';
+import type { AnalysisResult, Camera, CameraLevels, Detection, TriggerSource, Zone } from '../types';
+
+// --- Constants ---
+
+const CLIP_PRE_ROLL = 10000; // Video kept in memory before an alert
+const CLIP_POST_ROLL = 5000; // Video recorded after an alert
+const CLIP_FRAME_INTERVAL = 66; // Frame rate of clips recorded through the privacy mask, about 15 fps
+const DETECTION_BOX_TTL = 3000; // How long the last AI boxes stay on the live feed
+const MOTION_INDICATOR_TTL = 1000; // How long "Motion Detected" stays up after the last moving frame
+
+const describeSound = ({ label, confidence }: SoundEvent) => `${SOUND_LABELS[label]} (${Math.round(confidence * 100)}%)`;
+
+/** One analyzed frame from a camera, handed to the rule engine. */
+export interface CameraDetection {
+  camera: Camera;
+  image: string;
+  reason: string;
+  triggerSource: TriggerSource;
+  zone: Zone | null;
+  isSuspicious: boolean;
+  detections: Detection[];
+  /** Scene description and keywords from the AI, stored for archive search. */
+  caption?: string;
+  tags?: string[];
+  /** Starts cutting a pre-roll/post-roll clip from now, if the browser can record one. */
+  captureClip: () => Promise<Blob> | undefined;
+}
+
+/** The watchdog gave up reconnecting (`issue` set), or a camera it reported came back (`issue` null). */
+export interface CameraHealthReport {
+  camera: Camera;
+  issue: HealthIssue | null;
+  /** The last frame the camera showed. */
+  image: string;
+}
+
+/** Tamper detection confirmed that the camera was covered, blinded or moved. */
+export interface CameraTamperReport {
+  camera: Camera;
+  kind: TamperKind;
+  image: string;
+  captureClip: () => Promise<Blob> | undefined;
+}
+
+interface CameraFeedProps {
+  camera: Camera;
+  isMonitoring: boolean;
+  isSelected: boolean;
+  /** Zone name of the active alert on this camera, `null` for a whole-frame alert, `undefined` when not alerting. */
+  alertZone: string | null | undefined;
+  zoneDraft: ZoneDraft | null;
+  onSelect: () => void;
+  onDetection: (detection: CameraDetection) => void;
+  onDismiss?: () => void;
+  onAddZonePoint: (point: [number, number]) => void;
+  /** Called as the meters change, to share them with other dashboards. */
+  onLevels?: (levels: CameraLevels) => void;
+  onHealth?: (report: CameraHealthReport) => void;
+  onTamper?: (report: CameraTamperReport) => void;
+  /** Bumped to ask for a current frame, which is handed to `onSnapshot`. */
+  snapshotRequest?: number;
+  onSnapshot?: (image: string) => void;
+}
+
+function mediaConstraints(camera: Camera): MediaStreamConstraints {
+  return {
+    video: camera.deviceId ? { deviceId: { exact: camera.deviceId } } : true,
+    // No microphone is assigned when audioDeviceId is undefined; '' means the system default
+    audio: camera.audioDeviceId === undefined
+      ? false
+      : camera.audioDeviceId ? { deviceId: { exact: camera.audioDeviceId } } : true,
+  };
+}
+
+export function CameraFeed({
+  camera,
+  isMonitoring,
+  isSelected,
+  alertZone,
+  zoneDraft,
+  onSelect,
+  onDetection,
+  onDismiss,
+  onAddZonePoint,
+  onLevels,
+  onHealth,
+  onTamper,
+  snapshotRequest,
+  onSnapshot,
+}: CameraFeedProps) {
+  const { sensitivity, audioSensitivity, isSmartGuard, zones, soundClasses = DEFAULT_SOUND_CLASSES } = camera;
+
+  // --- State ---
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [lastMotionDetected, setLastMotionDetected] = useState(false);
+  const [firedZoneId, setFiredZoneId] = useState<string | null>(null);
+  const [audioLevel, setAudioLevel] = useState(0);
+  const [currentMotionLevel, setCurrentMotionLevel] = useState(0);
+  const [frameSize, setFrameSize] = useState({ width: FRAME_WIDTH, height: FRAME_HEIGHT });
+  const [detections, setDetections] = useState<Detection[]>([]);
+  const [motionTracks, setMotionTracks] = useState<MotionTrack[]>([]);
+  const [isAdjustingToLight, setIsAdjustingToLight] = useState(false);
+  // Bumped to reopen the camera after the watchdog found it dead
+  const [connection, setConnection] = useState(0);
+  const [health, setHealth] = useState<'ok' | 'reconnecting' | 'offline'>('ok');
+
+  // Refs for motion detection
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const clipRecorderRef = useRef<ClipRecorder | null>(null);
+  const maskedStreamRef = useRef<MaskedStream | null>(null);
+  const detectionsTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const motionIndicatorTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const analyzerRef = useRef<FrameAnalyzer | null>(null);
+  const handleAnalyzerEventRef = useRef<(event: AnalyzerEvent) => void>(() => {});
+  const feedStepRef = useRef<(() => void) | null>(null);
+
+  // Watchdog state: failed reconnects in a row, the issue reported once they ran out, and the pending retry
+  const reconnectsRef = useRef(0);
+  const reportedIssueRef = useRef<HealthIssue | null>(null);
+  const reportedStatusRef = useRef<HealthIssue | null>(null); // Reported without reconnecting, e.g. a black picture
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const analysisFailuresRef = useRef(0);
+  const recoverRef = useRef<(issue: HealthIssue) => void>(() => {});
+
+  const detector = useMemo(() => createDetector(camera.detector), [camera.detector]);
+  const analysisQueue = useMemo(() => createAnalysisQueue(detector, setIsAnalyzing), [detector]);
+
+  // --- Camera & Audio Setup ---
+
+  useEffect(() => {
+    if (!isMonitoring) return;
+    let cancelled = false;
+    let s: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+
+    navigator.mediaDevices.getUserMedia(mediaConstraints(camera))
+      .then((acquired) => {
+        if (cancelled) {
+          acquired.getTracks().forEach(track => track.stop());
+          return;
+        }
+        s = acquired;
+        setError(null);
+        setStream(acquired);
+        // Unplugging the device or revoking access ends its tracks without any other sign
+        acquired.getTracks().forEach(track => track.addEventListener('ended', () => {
+          if (!cancelled) recoverRef.current('unavailable');
+        }));
+
+        if (acquired.getAudioTracks().length) {
+          audioContext = new AudioContext();
+          const source = audioContext.createMediaStreamSource(acquired);
+          const analyser = audioContext.createAnalyser();
+          // Fine enough bins (~23 Hz) for the sound classifier, and little smoothing so impacts stay sharp
+          analyser.fftSize = 2048;
+          analyser.smoothingTimeConstant = 0.2;
+          source.connect(analyser);
+          analyserRef.current = analyser;
+        }
+      })
+      .catch((err) => {
+        console.error(`Error accessing ${camera.name}:`, err);
+        if (cancelled) return;
+        if (err instanceof DOMException && err.name === 'NotAllowedError') {
+          setError("Camera/Microphone access denied or not available. Please ensure you have granted permissions.");
+          return;
+        }
+        setError("Camera not available. Retrying…");
+        recoverRef.current('unavailable');
+      });
+
+    return () => {
+      cancelled = true;
+      s?.getTracks().forEach(track => track.stop());
+      audioContext?.close();
+      analyserRef.current = null;
+      setStream(null);
+      setAudioLevel(0);
+      setCurrentMotionLevel(0);
+      setMotionTracks([]);
+      setIsAdjustingToLight(false);
+    };
+  }, [isMonitoring, camera.deviceId, camera.audioDeviceId, connection]);
+
+  useEffect(() => () => {
+    clearTimeout(detectionsTimerRef.current);
+    clearTimeout(motionIndicatorTimerRef.current);
+    clearTimeout(reconnectTimerRef.current);
+  }, []);
+
+  // Stopping the feed, or pointing it at another device, starts the watchdog over
+  useEffect(() => () => {
+    clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = undefined;
+    reconnectsRef.current = 0;
+    reportedIssueRef.current = null;
+    reportedStatusRef.current = null;
+    analysisFailuresRef.current = 0;
+    setHealth('ok');
+  }, [isMonitoring, camera.deviceId, camera.audioDeviceId]);
+
+  // A camera plugged back in is tried right away instead of at the next retry
+  useEffect(() => {
+    const onDeviceChange = () => {
+      if (reconnectTimerRef.current === undefined) return;
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = undefined;
+      setConnection(c => c + 1);
+    };
+    navigator.mediaDevices.addEventListener('devicechange', onDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', onDeviceChange);
+  }, []);
+
+  // Motion and audio analysis for this feed runs in its own worker
+  useEffect(() => {
+    const analyzer = createFrameAnalyzer(event => handleAnalyzerEventRef.current(event));
+    analyzerRef.current = analyzer;
+    return () => {
+      analyzer.terminate();
+      analyzerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    analyzerRef.current?.configure({ zones, sensitivity, audioSensitivity, soundClasses, cooldown: isSmartGuard ? 1000 : 300 });
+  }, [zones, sensitivity, audioSensitivity, soundClasses, isSmartGuard]);
+
+  useEffect(() => {
+    if (stream) onLevels?.({ cameraId: camera.id, motion: currentMotionLevel, audio: audioLevel, analyzing: isAnalyzing });
+  }, [stream, camera.id, currentMotionLevel, audioLevel, isAnalyzing, onLevels]);
+
+  useEffect(() => {
+    if (stream && videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  // Read by the feed loop, which paints masked clip frames without restarting on every zone edit
+  const privacyPolygons = privacyZones(zones).map(zone => zone.points);
+  const privacyPolygonsRef = useRef(privacyPolygons);
+  privacyPolygonsRef.current = privacyPolygons;
+  const hasPrivacyZones = privacyPolygons.length > 0;
+
+  // Rolling pre-roll buffer for alert clips; with privacy regions it records a masked copy of the video,
+  // and a browser that can't make one keeps no clips rather than unmasked ones
+  useEffect(() => {
+    if (!stream) return;
+    const masked = hasPrivacyZones ? createMaskedStream(stream, frameSize.width, frameSize.height) : null;
+    const recorder = hasPrivacyZones && !masked ? null : createClipRecorder(masked?.stream ?? stream, CLIP_PRE_ROLL);
+    maskedStreamRef.current = masked;
+    clipRecorderRef.current = recorder;
+    return () => {
+      recorder?.stop();
+      masked?.stop();
+      maskedStreamRef.current = null;
+      clipRecorderRef.current = null;
+    };
+  }, [stream, hasPrivacyZones, frameSize.width, frameSize.height]);
+
+  const report = useCallback((
+    image: string,
+    reason: string,
+    triggerSource: TriggerSource,
+    zone: Zone | null,
+    isSuspicious: boolean,
+    analysis: Pick<AnalysisResult, 'detections' | 'caption' | 'tags'> = { detections: [] }
+  ) => {
+    onDetection({
+      camera,
+      image,
+      reason,
+      triggerSource,
+      zone,
+      isSuspicious,
+      detections: analysis.detections,
+      caption: analysis.caption,
+      tags: analysis.tags,
+      captureClip: () => clipRecorderRef.current?.capture(CLIP_POST_ROLL),
+    });
+  }, [camera, onDetection]);
+
+  const analyzeFrame = useCallback(async (
+    base64Image: string,
+    triggerSource: TriggerSource = 'motion',
+    zone: Zone | null = null,
+    sound?: SoundEvent
+  ) => {
+    try {
+      const result = await analysisQueue.submit({ image: base64Image, triggerSource, cameraId: camera.id });
+      // Coalesced into a newer frame
+      if (!result) return;
+      analysisFailuresRef.current = 0;
+
+      setDetections(result.detections);
+      clearTimeout(detectionsTimerRef.current);
+      detectionsTimerRef.current = setTimeout(() => setDetections([]), DETECTION_BOX_TTL);
+      
+      const reason = result.reason || (result.isSuspicious ? "Person detected" : "Nothing suspicious");
+      // Every verdict goes to the rule engine; rules may act on objects that aren't suspicious.
+      // The AI only sees the frame, so it can't overrule a sound class the user chose to alert on.
+      report(
+        base64Image,
+        sound ? `${describeSound(sound)} · ${reason}` : reason,
+        triggerSource,
+        zone,
+        result.isSuspicious || Boolean(sound),
+        result
+      );
+    } catch (err) {
+      console.error(`AI Analysis failed (${detector.name}):`, err);
+      if (++analysisFailuresRef.current === MAX_ANALYSIS_FAILURES) reportHealth('analysis');
+    }
+  }, [analysisQueue, detector, report, camera.id]);
+
+  const takeSnapshot = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!video || !canvas || !ctx) return null;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    // Use a smaller, faster snapshot for AI analysis
+    return canvas.toDataURL('image/jpeg', 0.5);
+  };
+
+  const reportHealth = (issue: HealthIssue | null) => {
+    const image = takeSnapshot();
+    if (image) onHealth?.({ camera, issue, image });
+  };
+
+  useEffect(() => {
+    if (!snapshotRequest) return;
+    const image = takeSnapshot();
+    if (image) onSnapshot?.(image);
+  }, [snapshotRequest]);
+
+  // Reopens the camera after a backoff; once enough attempts in a row failed, the camera is reported
+  recoverRef.current = (issue) => {
+    if (reconnectTimerRef.current !== undefined) return;
+    const attempt = reconnectsRef.current++;
+    if (attempt >= RECONNECTS_BEFORE_REPORT && reportedIssueRef.current === null) {
+      reportedIssueRef.current = issue;
+      reportHealth(issue);
+    }
+    setHealth(reportedIssueRef.current ? 'offline' : 'reconnecting');
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = undefined;
+      setConnection(c => c + 1);
+    }, RECONNECT_DELAYS[Math.min(attempt, RECONNECT_DELAYS.length - 1)]);
+  };
+
+  handleAnalyzerEventRef.current = (event) => {
+    if (event.type === 'tick') {
+      // Hidden tabs get no animation frames, so the worker's clock keeps the feed going
+      if (document.hidden) feedStepRef.current?.();
+      return;
+    }
+    if (event.type === 'health') {
+      if (event.issue && !reconnectsOver(event.issue)) {
+        if (reportedStatusRef.current !== event.issue) reportHealth(event.issue);
+        reportedStatusRef.current = event.issue;
+        return;
+      }
+      reportedStatusRef.current = null;
+      if (event.issue) {
+        recoverRef.current(event.issue);
+        return;
+      }
+      if (reportedIssueRef.current) reportHealth(null);
+      reconnectsRef.current = 0;
+      reportedIssueRef.current = null;
+      setHealth('ok');
+      return;
+    }
+    if (event.type === 'levels') {
+      setCurrentMotionLevel(event.motion);
+      setAudioLevel(event.audio);
+      setMotionTracks(prev => (prev.length || event.tracks.length ? event.tracks : prev));
+      setIsAdjustingToLight(event.lightingChange);
+      if (event.motionZoneId !== undefined) {
+        setLastMotionDetected(true);
+        setFiredZoneId(event.motionZoneId);
+        clearTimeout(motionIndicatorTimerRef.current);
+        motionIndicatorTimerRef.current = setTimeout(() => {
+          setLastMotionDetected(false);
+          setFiredZoneId(null);
+        }, MOTION_INDICATOR_TTL);
+      }
+      return;
+    }
+
+    const snapshot = takeSnapshot();
+    if (!snapshot) return;
+    if (event.type === 'tamper') {
+      onTamper?.({ camera, kind: event.kind, image: snapshot, captureClip: () => clipRecorderRef.current?.capture(CLIP_POST_ROLL) });
+      return;
+    }
+    const zone = zones.find(z => z.id === event.zoneId) ?? null;
+    if (isSmartGuard) {
+      analyzeFrame(snapshot, event.source, zone, event.sound);
+    } else {
+      report(snapshot, event.sound ? describeSound(event.sound) : "Instant Motion Alert", event.source, zone, true);
+    }
+  };
+
+  // Feeds the worker: the audio spectrum every animation frame, a scaled-down video frame every FRAME_INTERVAL
+  useEffect(() => {
+    const analyzer = analyzerRef.current;
+    if (!stream || !analyzer) return;
+    let animationFrame: number;
+    let cancelled = false;
+    let capturing = false;
+    let lastFrameTime = 0;
+    let lastClipFrameTime = 0;
+    let spectrum: Uint8Array<ArrayBuffer> | null = null;
+
+    const step = () => {
+      const analyser = analyserRef.current;
+      if (analyser) {
+        spectrum ??= new Uint8Array(analyser.frequencyBinCount);
+        analyser.getByteFrequencyData(spectrum);
+        analyzer.sendAudio(spectrum, analyser.context.sampleRate);
+      }
+
+      const video = videoRef.current;
+      const now = Date.now();
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && !capturing && now - lastFrameTime >= FRAME_INTERVAL) {
+        lastFrameTime = now;
+        capturing = true;
+        // The browser does the scaling, so neither thread touches full-resolution pixels
+        createImageBitmap(video, { resizeWidth: MOTION_WIDTH, resizeHeight: MOTION_HEIGHT, resizeQuality: 'low' })
+          .then(frame => (cancelled ? frame.close() : analyzer.sendFrame(frame)))
+          .catch(err => console.error(`Failed to capture a frame from ${camera.name}:`, err))
+          .finally(() => { capturing = false; });
+      }
+
+      const masked = maskedStreamRef.current;
+      if (masked && video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && now - lastClipFrameTime >= CLIP_FRAME_INTERVAL) {
+        lastClipFrameTime = now;
+        masked.draw(video, privacyPolygonsRef.current);
+      }
+    };
+
+    const feed = () => {
+      step();
+      animationFrame = requestAnimationFrame(feed);
+    };
+
+    feedStepRef.current = step;
+    // Failed reconnects are only counted back to zero by a new device or a camera that stayed healthy
+    analyzer.watch(reconnectsRef.current > 0);
+    animationFrame = requestAnimationFrame(feed);
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(animationFrame);
+      feedStepRef.current = null;
+      analyzer.reset();
+    };
+  }, [stream, camera.name]);
+
+  // --- UI ---
+
+  return (
+    <div
+      onClick={onSelect}
+      className={cn(
+        "relative aspect-video bg-zinc-900 rounded-3xl overflow-hidden border shadow-2xl group cursor-pointer transition-colors",
+        isSelected ? "border-emerald-500/50" : "border-white/10"
+      )}
+    >
+      <video 
+        ref={videoRef} 
+        autoPlay 
+        muted 
+        playsInline 
+        onLoadedMetadata={(e) => setFrameSize({
+          width: e.currentTarget.videoWidth || FRAME_WIDTH,
+          height: e.currentTarget.videoHeight || FRAME_HEIGHT,
+        })}
+        className="w-full h-full object-cover"
+      />
+      <canvas ref={canvasRef} width={FRAME_WIDTH} height={FRAME_HEIGHT} className="hidden" />
+
+      <ZoneOverlay
+        zones={zones}
+        activeZoneId={firedZoneId}
+        draft={zoneDraft}
+        frameSize={frameSize}
+        onAddPoint={onAddZonePoint}
+      />
+
+      <MotionBlobs tracks={motionTracks} frameSize={frameSize} />
+      <DetectionBoxes detections={detections} frameSize={frameSize} />
+
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-zinc-900/90 p-6 text-center">
+          <CameraOff className="w-8 h-8 text-red-500" />
+          <p className="text-xs text-zinc-400 max-w-xs">{error}</p>
+        </div>
+      )}
+
+      {/* Overlay UI */}
+      <div className="absolute top-6 left-6 flex flex-col gap-3 pointer-events-none">
+        <div className="flex items-center gap-3">
+          <div className="px-3 py-1.5 bg-black/60 backdrop-blur-md rounded-lg border border-white/10 flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+            <span className="text-[10px] font-mono uppercase tracking-widest font-bold">{camera.name}</span>
+          </div>
+          {lastMotionDetected && alertZone === undefined && (
+            <div className="px-3 py-1.5 bg-yellow-500/20 backdrop-blur-md rounded-lg border border-yellow-500/30 flex items-center gap-2">
+              <span className="text-[10px] font-mono uppercase tracking-widest font-bold text-yellow-500">
+                Motion Detected{firedZoneId && ` · ${zones.find(z => z.id === firedZoneId)?.name ?? ''}`}
+              </span>
+            </div>
+          )}
+          {health !== 'ok' && (
+            <div className="px-3 py-1.5 bg-amber-500/20 backdrop-blur-md rounded-lg border border-amber-500/30 flex items-center gap-2">
+              <Loader2 className="w-3 h-3 text-amber-500 animate-spin" />
+              <span className="text-[10px] font-mono uppercase tracking-widest font-bold text-amber-500">
+                {health === 'offline' ? "Offline · Retrying" : "Reconnecting"}
+              </span>
+            </div>
+          )}
+          {isAnalyzing && (
+            <div className="px-3 py-1.5 bg-emerald-500/20 backdrop-blur-md rounded-lg border border-emerald-500/30 flex items-center gap-2 animate-pulse">
+              <Loader2 className="w-3 h-3 text-emerald-500 animate-spin" />
+              <span className="text-[10px] font-mono uppercase tracking-widest font-bold text-emerald-500">AI Scanning...</span>
+            </div>
+          )}
+        </div>
+        
+        {/* Motion Bar */}
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center justify-between text-[8px] font-bold uppercase tracking-tighter text-zinc-500">
+            <span>{isAdjustingToLight ? "Adjusting to light" : "Motion"}</span>
+            <span>{Math.round(currentMotionLevel)}%</span>
+          </div>
+          <div className="w-32 h-1 bg-black/40 rounded-full overflow-hidden border border-white/5">
+            <motion.div 
+              animate={{ width: `${Math.min(currentMotionLevel * 5, 100)}%` }}
+              className={cn(
+                "h-full transition-colors",
+                currentMotionLevel > (100 - sensitivity) ? "bg-red-500" : "bg-emerald-500"
+              )}
+            />
+          </div>
+        </div>
+
+        {/* Audio Bar */}
+        {camera.audioDeviceId !== undefined && (
+          <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between text-[8px] font-bold uppercase tracking-tighter text-zinc-500">
+              <span>Audio</span>
+              <span>{Math.round(audioLevel)}%</span>
+            </div>
+            <div className="w-32 h-1 bg-black/40 rounded-full overflow-hidden border border-white/5">
+              <motion.div 
+                animate={{ width: `${Math.min(audioLevel, 100)}%` }}
+                className={cn(
+                  "h-full transition-colors",
+                  audioLevel > (100 - audioSensitivity) ? "bg-red-500" : "bg-emerald-500"
+                )}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <AlarmOverlay zone={alertZone} onDismiss={onDismiss} />
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { Plus, RefreshCw, Trash2, Video } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { createCamera } from '../lib/cameras';
+import { useMediaDevices } from '../lib/useMediaDevices';
+import type { Camera } from '../types';
+
+// <select> values can't be undefined, so "no microphone" gets a sentinel
+const NO_MICROPHONE = '__none__';
+
+interface CameraPanelProps {
+  cameras: Camera[];
+  selectedCameraId: string | null;
+  onChange: (cameras: Camera[]) => void;
+  onSelect: (id: string) => void;
+}
+
+export function CameraPanel({ cameras, selectedCameraId, onChange, onSelect }: CameraPanelProps) {
+  const { videoInputs, audioInputs, requestAccess } = useMediaDevices();
+
+  const updateCamera = (id: string, patch: Partial<Camera>) =>
+    onChange(cameras.map(c => (c.id === id ? { ...c, ...patch } : c)));
+
+  const addCamera = () => {
+    // Prefer a webcam that isn't in use yet; only the first camera listens on the default mic
+    const unused = videoInputs.find(d => !cameras.some(c => c.deviceId === d.deviceId));
+    const camera = createCamera(
+      `Camera ${cameras.length + 1}`,
+      unused?.deviceId ?? '',
+      cameras.length === 0 ? '' : undefined
+    );
+    onChange([...cameras, camera]);
+    onSelect(camera.id);
+  };
+
+  const selectClass = "w-full px-2 py-1.5 bg-black/40 rounded-lg border border-white/10 text-[11px] text-zinc-300 focus:outline-none";
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-500">
+          <Video className="w-4 h-4" />
+          <span className="text-[10px] uppercase font-bold tracking-widest">Cameras</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={requestAccess}
+            title="Detect devices"
+            className="p-1.5 bg-white/5 text-zinc-400 hover:text-white rounded-lg border border-white/10 transition-colors"
+          >
+            <RefreshCw className="w-3 h-3" />
+          </button>
+          <button
+            onClick={addCamera}
+            className="px-3 py-1.5 bg-white/5 text-zinc-300 hover:text-white rounded-lg text-[10px] font-bold uppercase tracking-widest border border-white/10 flex items-center gap-1.5 transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            Camera
+          </button>
+        </div>
+      </div>
+
+      {cameras.length === 0 ? (
+        <p className="text-xs text-zinc-500">No cameras yet. Add one for each webcam you want to watch.</p>
+      ) : (
+        <div className="space-y-2">
+          {cameras.map((camera) => (
+            <div
+              key={camera.id}
+              onClick={() => onSelect(camera.id)}
+              className={cn(
+                "p-3 bg-black/40 rounded-2xl border space-y-2 cursor-pointer transition-colors",
+                camera.id === selectedCameraId ? "border-emerald-500/40" : "border-white/5"
+              )}
+            >
+              <div className="flex items-center gap-3">
+                <input
+                  value={camera.name}
+                  onChange={(e) => updateCamera(camera.id, { name: e.target.value })}
+                  className="flex-1 bg-transparent text-xs font-bold text-zinc-300 focus:outline-none"
+                />
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onChange(cameras.filter(c => c.id !== camera.id));
+                  }}
+                  className="p-1 text-zinc-600 hover:text-red-500 transition-colors"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={camera.deviceId}
+                  onChange={(e) => updateCamera(camera.id, { deviceId: e.target.value })}
+                  className={selectClass}
+                >
+                  <option value="">Default camera</option>
+                  {videoInputs.filter(d => d.deviceId).map((d, i) => (
+                    <option key={d.deviceId} value={d.deviceId}>{d.label || `Camera ${i + 1}`}</option>
+                  ))}
+                </select>
+                <select
+                  value={camera.audioDeviceId ?? NO_MICROPHONE}
+                  onChange={(e) => updateCamera(camera.id, {
+                    audioDeviceId: e.target.value === NO_MICROPHONE ? undefined : e.target.value,
+                  })}
+                  className={selectClass}
+                >
+                  <option value={NO_MICROPHONE}>No microphone</option>
+                  <option value="">Default microphone</option>
+                  {audioInputs.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+                    <option key={d.deviceId} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+              {/* Saved on blur, so the server doesn't start a stream for every keystroke */}
+              <div className="flex items-center gap-2">
+                <input
+                  key={camera.source ?? ''}
+                  defaultValue={camera.source ?? ''}
+                  placeholder="Stream URL or video file (optional)"
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={(e) => {
+                    const source = e.target.value.trim() || undefined;
+                    if (source !== camera.source) updateCamera(camera.id, { source });
+                  }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  className={cn(selectClass, "flex-1 font-mono")}
+                />
+                {camera.source && (
+                  <label className="flex items-center gap-1.5 text-[10px] text-zinc-500" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={camera.loop ?? false}
+                      onChange={(e) => updateCamera(camera.id, { loop: e.target.checked })}
+                      className="accent-emerald-500"
+                    />
+                    Loop
+                  </label>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
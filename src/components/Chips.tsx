@@ -0,0 +1,30 @@
+import { cn } from '../lib/utils';
+
+const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+interface ChipsProps<T extends string | number> {
+  options: { id: T; label: string }[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+}
+
+export function Chips<T extends string | number>({ options, selected, onChange }: ChipsProps<T>) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {options.map(option => (
+        <button
+          key={option.id}
+          onClick={() => onChange(toggle(selected, option.id))}
+          className={cn(
+            "px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest border transition-colors",
+            selected.includes(option.id)
+              ? "bg-emerald-500/10 text-emerald-400 border-emerald-500/30"
+              : "bg-white/5 text-zinc-500 border-white/10 hover:text-white"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
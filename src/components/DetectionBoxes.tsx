@@ -0,0 +1,62 @@
+import { cn } from '../lib/utils';
+import { FRAME_HEIGHT, FRAME_WIDTH } from '../lib/frame';
+import type { Detection } from '../types';
+
+interface DetectionBoxesProps {
+  detections: Detection[];
+  /** Size of the underlying frame, so the boxes crop exactly like `object-cover`. */
+  frameSize?: { width: number; height: number };
+  className?: string;
+}
+
+export function DetectionBoxes({ detections, frameSize = { width: FRAME_WIDTH, height: FRAME_HEIGHT }, className }: DetectionBoxesProps) {
+  const { width, height } = frameSize;
+  const fontSize = height * 0.03;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid slice"
+      className={cn("absolute inset-0 w-full h-full pointer-events-none", className)}
+    >
+      {detections.map((detection, i) => {
+        const [x, y, w, h] = detection.box;
+        const tone = detection.threat
+          ? "stroke-red-500 fill-red-500"
+          : detection.label === 'person'
+            ? "stroke-yellow-400 fill-yellow-400"
+            : "stroke-emerald-400 fill-emerald-400";
+        const label = `${detection.threat ?? detection.label} ${Math.round(detection.confidence * 100)}%`;
+        return (
+          <g key={i} className={tone}>
+            <rect
+              x={x * width}
+              y={y * height}
+              width={w * width}
+              height={h * height}
+              vectorEffect="non-scaling-stroke"
+              strokeWidth={2}
+              fillOpacity={0.08}
+            />
+            <rect
+              x={x * width}
+              y={Math.max(0, y * height - fontSize * 1.4)}
+              width={label.length * fontSize * 0.62 + 8}
+              height={fontSize * 1.4}
+              strokeWidth={0}
+            />
+            <text
+              x={x * width + 4}
+              y={Math.max(0, y * height - fontSize * 1.4) + fontSize * 1.05}
+              fontSize={fontSize}
+              strokeWidth={0}
+              className="fill-black font-mono font-bold uppercase"
+            >
+              {label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,454 @@
+import { useCallback, useEffect, useRef, useState, type ChangeEvent, type FormEvent } from 'react';
+import { motion } from 'motion/react';
+import { BarChart3, ChevronLeft, ChevronRight, Download, Film, Loader2, Search, Trash2, Upload, X } from 'lucide-react';
+import Markdown from 'react-markdown';
+import { deleteEvent, deleteEvents, exportUrl, frameUrl, getLabelStats, importArchive, labelEvent, listEvents, parseEvent, searchEvents } from '../lib/api';
+import { useCan } from '../lib/session';
+import { cn } from '../lib/utils';
+import { DetectionBoxes } from './DetectionBoxes';
+import { IncidentList } from './IncidentList';
+import type { Camera, DetectionEvent, EventLabel, LabelStats, SearchInterpretation } from '../types';
+
+const PAGE_SIZE = 12;
+
+const headerButtonClass = "px-4 py-2 bg-white/5 hover:bg-emerald-500/10 text-zinc-400 hover:text-emerald-500 rounded-xl text-xs font-bold uppercase tracking-widest transition-all border border-white/10 flex items-center gap-2";
+
+// <input type="datetime-local"> values are local time without a zone suffix
+const toEpoch = (value: string) => (value ? new Date(value).getTime() : undefined);
+
+interface EventArchiveProps {
+  cameras: Camera[];
+  onCleared: () => void;
+  onDeleted: (id: string) => void;
+  onLabeled: (event: DetectionEvent) => void;
+}
+
+export function EventArchive({ cameras, onCleared, onDeleted, onLabeled }: EventArchiveProps) {
+  const canLabel = useCan('operator');
+  const canDelete = useCan('admin');
+  const [events, setEvents] = useState<DetectionEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [cameraId, setCameraId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [stats, setStats] = useState<LabelStats[]>([]);
+  const [view, setView] = useState<'events' | 'incidents'>('events');
+  const [searchInput, setSearchInput] = useState('');
+  // The submitted query; while set, the grid shows ranked matches instead of pages
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState<{ interpretation: SearchInterpretation; scores: Map<string, number> } | null>(null);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      if (query) {
+        const result = await searchEvents(query, { cameraId: cameraId || undefined, from: toEpoch(from), to: toEpoch(to) });
+        setEvents(result.hits.map(hit => parseEvent(hit.event)));
+        setTotal(result.hits.length);
+        setSearch({ interpretation: result.interpretation, scores: new Map(result.hits.map(hit => [hit.event.id, hit.score])) });
+        return;
+      }
+      setSearch(null);
+      const result = await listEvents({
+        cameraId: cameraId || undefined,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE,
+        from: toEpoch(from),
+        to: toEpoch(to),
+      });
+      setEvents(result.events);
+      setTotal(result.total);
+    } catch (err) {
+      console.error("Failed to load events:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, from, to, cameraId, query]);
+
+  const loadStats = useCallback(async () => {
+    try {
+      setStats(await getLabelStats({ cameraId: cameraId || undefined, from: toEpoch(from), to: toEpoch(to) }));
+    } catch (err) {
+      console.error("Failed to load feedback stats:", err);
+    }
+  }, [from, to, cameraId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const clearLogs = async () => {
+    if (!confirm("Delete every archived event and snapshot?")) return;
+    try {
+      await deleteEvents();
+      onCleared();
+      setPage(0);
+      load();
+      loadStats();
+    } catch (err) {
+      console.error("Failed to clear events:", err);
+    }
+  };
+
+  const removeEvent = async (id: string) => {
+    try {
+      await deleteEvent(id);
+      onDeleted(id);
+      // Searching again would re-rank with the AI just to drop one card
+      if (query) setEvents(prev => prev.filter(e => e.id !== id));
+      else load();
+      loadStats();
+    } catch (err) {
+      console.error("Failed to delete event:", err);
+    }
+  };
+
+  // Clicking the active label again clears it
+  const toggleLabel = async (event: DetectionEvent, label: EventLabel) => {
+    try {
+      const updated = await labelEvent(event.id, event.label === label ? null : label);
+      setEvents(prev => prev.map(e => (e.id === updated.id ? updated : e)));
+      onLabeled(updated);
+      loadStats();
+    } catch (err) {
+      console.error("Failed to label event:", err);
+    }
+  };
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setImportStatus(null);
+    try {
+      const { imported, skipped } = await importArchive(file);
+      setImportStatus(`Imported ${imported} events${skipped ? `, skipped ${skipped} already in the archive` : ''}`);
+      load();
+      loadStats();
+    } catch (err) {
+      setImportStatus(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const submitSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setQuery(searchInput.trim());
+    setPage(0);
+  };
+
+  const clearSearch = () => {
+    setSearchInput('');
+    setQuery('');
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const cameraName = (id?: string) => cameras.find(c => c.id === id)?.name;
+  // Exports cover everything matching the camera and time filters, not just the page shown
+  const filters = { cameraId: cameraId || undefined, from: toEpoch(from), to: toEpoch(to) };
+
+  return (
+    <motion.div 
+      key="history"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="space-y-8"
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-black tracking-tighter uppercase italic">Security Archives</h2>
+          <p className="text-zinc-500 text-sm">Review all AI-flagged events and suspicious movements.</p>
+        </div>
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <a href={exportUrl('tar', filters)} download title="Archive with snapshots and clips, importable into another install" className={headerButtonClass}>
+            <Download className="w-3.5 h-3.5" />
+            Export
+          </a>
+          <a href={exportUrl('csv', filters)} download title="Event table for spreadsheets" className={headerButtonClass}>
+            <Download className="w-3.5 h-3.5" />
+            CSV
+          </a>
+          {canDelete && (
+            <>
+              <button onClick={() => importInputRef.current?.click()} disabled={isImporting} className={cn(headerButtonClass, "disabled:opacity-50")}>
+                {isImporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+                Import
+              </button>
+              <input ref={importInputRef} type="file" accept=".tar,application/x-tar" onChange={importFile} className="hidden" />
+              <button 
+                onClick={clearLogs}
+                className="px-4 py-2 bg-white/5 hover:bg-red-500/10 text-zinc-400 hover:text-red-500 rounded-xl text-xs font-bold uppercase tracking-widest transition-all border border-white/10"
+              >
+                Clear Logs
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {importStatus && <p className="text-xs text-zinc-400">{importStatus}</p>}
+
+      <div className="flex flex-wrap items-center gap-4 p-4 bg-zinc-900/50 rounded-2xl border border-white/5">
+        <div className="flex bg-black/40 rounded-lg border border-white/10 p-0.5">
+          {(['events', 'incidents'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={cn(
+                "px-3 py-1 rounded-md text-[10px] uppercase font-bold tracking-widest transition-colors",
+                view === option ? "bg-emerald-500 text-black" : "text-zinc-500 hover:text-white"
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        {cameras.length > 1 && (
+          <label className="flex items-center gap-2 text-[10px] uppercase font-bold tracking-widest text-zinc-500">
+            Camera
+            <select
+              value={cameraId}
+              onChange={(e) => { setCameraId(e.target.value); setPage(0); }}
+              className="px-3 py-1.5 bg-black/40 rounded-lg border border-white/10 text-xs text-zinc-300 normal-case tracking-normal"
+            >
+              <option value="">All cameras</option>
+              {cameras.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-[10px] uppercase font-bold tracking-widest text-zinc-500">
+          From
+          <input
+            type="datetime-local"
+            value={from}
+            onChange={(e) => { setFrom(e.target.value); setPage(0); }}
+            className="px-3 py-1.5 bg-black/40 rounded-lg border border-white/10 text-xs font-mono text-zinc-300 normal-case tracking-normal"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-[10px] uppercase font-bold tracking-widest text-zinc-500">
+          To
+          <input
+            type="datetime-local"
+            value={to}
+            onChange={(e) => { setTo(e.target.value); setPage(0); }}
+            className="px-3 py-1.5 bg-black/40 rounded-lg border border-white/10 text-xs font-mono text-zinc-300 normal-case tracking-normal"
+          />
+        </label>
+        {(from || to || cameraId) && (
+          <button
+            onClick={() => { setFrom(''); setTo(''); setCameraId(''); setPage(0); }}
+            className="text-[10px] uppercase font-bold tracking-widest text-zinc-500 hover:text-white transition-colors"
+          >
+            Reset
+          </button>
+        )}
+        <span className="ml-auto text-[10px] font-mono text-zinc-500">
+          {view === 'events' && (isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : `${total} ${query ? 'matches' : 'events'}`)}
+        </span>
+      </div>
+
+      {view === 'events' && (
+        <form onSubmit={submitSearch} className="space-y-2">
+          <div className="flex items-center gap-3 px-4 py-3 bg-zinc-900/50 rounded-2xl border border-white/5 focus-within:border-emerald-500/50 transition-colors">
+            <Search className="w-4 h-4 text-zinc-500 shrink-0" />
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder='Search the archive, e.g. "person in red jacket near the door last Tuesday night"'
+              maxLength={300}
+              className="flex-1 bg-transparent text-sm text-zinc-200 placeholder:text-zinc-600 focus:outline-none"
+            />
+            {query && (
+              <button type="button" onClick={clearSearch} title="Clear search" className="p-1 text-zinc-500 hover:text-white transition-colors">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+          {search && (
+            <p className="px-1 text-[10px] font-mono text-zinc-500">
+              {search.interpretation.text ? `Looking for "${search.interpretation.text}"` : "Everything"}
+              {search.interpretation.from !== undefined && ` from ${new Date(search.interpretation.from).toLocaleString()}`}
+              {search.interpretation.to !== undefined && ` until ${new Date(search.interpretation.to).toLocaleString()}`}
+              {" · best matches first"}
+            </p>
+          )}
+        </form>
+      )}
+
+      {stats.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {stats.map((row) => {
+            const reviewed = row.falsePositives + row.confirmed;
+            return (
+              <div key={row.triggerSource} className="p-4 bg-zinc-900/50 rounded-2xl border border-white/5 space-y-1">
+                <div className="flex items-center gap-2 text-zinc-500">
+                  <BarChart3 className="w-3.5 h-3.5" />
+                  <span className="text-[10px] uppercase font-bold tracking-widest">{row.triggerSource}</span>
+                </div>
+                <p className="text-2xl font-bold">
+                  {reviewed ? `${Math.round((row.falsePositives / reviewed) * 100)}%` : "—"}
+                  <span className="ml-2 text-[10px] font-medium text-zinc-500">false positives</span>
+                </p>
+                <p className="text-[10px] font-mono text-zinc-500">
+                  {row.falsePositives} false · {row.confirmed} confirmed · {row.total - reviewed} unreviewed
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {view === 'incidents' && (
+        <IncidentList cameras={cameras} filters={{ cameraId: cameraId || undefined, from: toEpoch(from), to: toEpoch(to) }} />
+      )}
+
+      {view === 'events' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {events.map((event) => (
+            <div key={event.id} className="bg-zinc-900 rounded-3xl border border-white/5 overflow-hidden hover:shadow-2xl transition-all">
+              <div className="aspect-video relative">
+                {playingId === event.id && event.clip ? (
+                  <video
+                    src={event.clip}
+                    poster={event.image}
+                    controls
+                    autoPlay
+                    onEnded={() => setPlayingId(null)}
+                    className="w-full h-full object-cover bg-black"
+                  />
+                ) : (
+                  <>
+                    <img src={event.image} alt="Event" className="w-full h-full object-cover" />
+                    {event.detections && <DetectionBoxes detections={event.detections} />}
+                    <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent" />
+                    <div className="absolute bottom-4 left-4">
+                      <p className="text-[10px] font-mono text-emerald-500 font-bold uppercase tracking-widest">
+                        Event #{event.id.slice(0, 8)}
+                        {cameraName(event.cameraId) && ` · ${cameraName(event.cameraId)}`}
+                        {event.zone && ` · ${event.zone}`}
+                        {event.rule && ` · ${event.rule}`}
+                      </p>
+                      <h4 className="font-bold text-white">{event.timestamp.toLocaleString()}</h4>
+                    </div>
+                    {event.clip && (
+                      <button
+                        onClick={() => setPlayingId(event.id)}
+                        className="absolute bottom-4 right-4 px-3 py-1.5 bg-emerald-500 text-black rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 hover:bg-emerald-400 transition-colors"
+                      >
+                        <Film className="w-3 h-3" />
+                        Play Clip
+                      </button>
+                    )}
+                  </>
+                )}
+                {search?.scores.has(event.id) && (
+                  <span className="absolute top-4 left-4 px-2 py-1 bg-black/60 backdrop-blur-md border border-white/10 rounded-lg text-[10px] font-mono font-bold text-emerald-400">
+                    {Math.round(search.scores.get(event.id)! * 100)}% match
+                  </span>
+                )}
+                {canDelete && (
+                  <button
+                    onClick={() => removeEvent(event.id)}
+                    title="Delete event"
+                    className="absolute top-4 right-4 p-2 bg-black/60 hover:bg-red-500/20 text-zinc-400 hover:text-red-500 rounded-lg border border-white/10 backdrop-blur-md transition-colors"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              <div className="p-6 space-y-4">
+                <div className="markdown-body text-sm text-zinc-400 leading-relaxed">
+                  <Markdown>{event.reason}</Markdown>
+                </div>
+                {event.caption && <p className="text-xs text-zinc-500 leading-relaxed">{event.caption}</p>}
+                {event.triggerSource === 'tamper' && (
+                  <span className="inline-block px-2 py-1 bg-red-600/20 text-red-400 border border-red-500/30 text-[9px] font-bold uppercase tracking-widest rounded">
+                    Tamper
+                  </span>
+                )}
+                {event.triggerSource === 'system' && (
+                  <span className="inline-block px-2 py-1 bg-amber-500/10 text-amber-400 border border-amber-500/30 text-[9px] font-bold uppercase tracking-widest rounded">
+                    Camera health
+                  </span>
+                )}
+                {event.label && (
+                  <span className={cn(
+                    "inline-block px-2 py-1 text-[9px] font-bold uppercase tracking-widest rounded border",
+                    event.label === 'false-positive'
+                      ? "bg-zinc-500/10 text-zinc-400 border-zinc-500/30"
+                      : "bg-emerald-500/10 text-emerald-400 border-emerald-500/30"
+                  )}>
+                    {event.label === 'false-positive' ? "False positive" : "Confirmed"}
+                  </span>
+                )}
+                {event.detections?.some(d => d.threat) && (
+                  <div className="flex flex-wrap gap-2">
+                    {[...new Set(event.detections.flatMap(d => (d.threat ? [d.threat] : [])))].map(threat => (
+                      <span key={threat} className="px-2 py-1 bg-red-600/20 text-red-400 border border-red-500/30 text-[9px] font-bold uppercase tracking-widest rounded">
+                        {threat}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="pt-4 border-t border-white/5 flex items-center justify-between gap-3">
+                  <a href={frameUrl(event.id)} download className="text-xs font-bold text-emerald-500 hover:underline">Download Frame</a>
+                  <div className="flex items-center gap-3">
+                    {canLabel && event.triggerSource !== 'system' && event.label !== 'false-positive' && (
+                      <button
+                        onClick={() => toggleLabel(event, 'confirmed')}
+                        className={cn("text-xs font-bold hover:text-white", event.label === 'confirmed' ? "text-emerald-500" : "text-zinc-500")}
+                      >
+                        {event.label === 'confirmed' ? "Confirmed" : "Confirm"}
+                      </button>
+                    )}
+                    {canLabel && event.triggerSource !== 'system' && event.label !== 'confirmed' && (
+                      <button
+                        onClick={() => toggleLabel(event, 'false-positive')}
+                        className="text-xs font-bold text-zinc-500 hover:text-white"
+                      >
+                        {event.label === 'false-positive' ? "Undo False Positive" : "Report False Positive"}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {view === 'events' && !query && total > PAGE_SIZE && (
+        <div className="flex items-center justify-center gap-4">
+          <button
+            onClick={() => setPage(p => p - 1)}
+            disabled={page === 0}
+            className="p-2 rounded-full bg-white/5 border border-white/10 text-zinc-400 hover:text-white disabled:opacity-30 transition-colors"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-xs font-mono text-zinc-500">{page + 1} / {pageCount}</span>
+          <button
+            onClick={() => setPage(p => p + 1)}
+            disabled={page + 1 >= pageCount}
+            className="p-2 rounded-full bg-white/5 border border-white/10 text-zinc-400 hover:text-white disabled:opacity-30 transition-colors"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, FileText, Loader2, Printer, Sparkles } from 'lucide-react';
+import Markdown from 'react-markdown';
+import { generateIncidentReport, incidentReportUrl, listIncidents } from '../lib/api';
+import { useCan } from '../lib/session';
+import type { Camera, EventQuery, Incident } from '../types';
+
+const PAGE_SIZE = 6;
+
+const formatRange = (incident: Incident) => {
+  const start = new Date(incident.startedAt);
+  const end = new Date(incident.endedAt);
+  const minutes = Math.max(1, Math.round((end.getTime() - start.getTime()) / 60_000));
+  return `${start.toLocaleString()} – ${end.toLocaleTimeString()} · ${minutes} min`;
+};
+
+interface IncidentListProps {
+  cameras: Camera[];
+  filters: Pick<EventQuery, 'cameraId' | 'from' | 'to'>;
+}
+
+export function IncidentList({ cameras, filters }: IncidentListProps) {
+  const canReport = useCan('operator');
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reportError, setReportError] = useState<{ id: string; message: string } | null>(null);
+  const { cameraId, from, to } = filters;
+
+  useEffect(() => {
+    setPage(0);
+  }, [cameraId, from, to]);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await listIncidents({ cameraId, from, to, limit: PAGE_SIZE, offset: page * PAGE_SIZE });
+      setIncidents(result.incidents);
+      setTotal(result.total);
+    } catch (err) {
+      console.error("Failed to load incidents:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, cameraId, from, to]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const writeReport = async (id: string) => {
+    setReportingId(id);
+    setReportError(null);
+    try {
+      const updated = await generateIncidentReport(id);
+      setIncidents(prev => prev.map(i => (i.id === updated.id ? updated : i)));
+    } catch (err) {
+      console.error("Failed to generate incident report:", err);
+      setReportError({ id, message: err instanceof Error ? err.message : "Report generation failed" });
+    } finally {
+      setReportingId(null);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const cameraName = (id?: string) => cameras.find(c => c.id === id)?.name;
+
+  if (!incidents.length) {
+    return (
+      <div className="py-12 text-center text-sm text-zinc-500">
+        {isLoading ? <Loader2 className="w-4 h-4 mx-auto animate-spin" /> : "No incidents in this range."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {incidents.map((incident) => (
+        <div key={incident.id} className="bg-zinc-900 rounded-3xl border border-white/5 overflow-hidden">
+          <div className="flex gap-1 bg-black overflow-x-auto">
+            {incident.keyFrames.map((image) => (
+              <img key={image} src={image} alt="Key frame" className="h-32 aspect-video object-cover shrink-0" />
+            ))}
+          </div>
+          <div className="p-6 space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <p className="text-[10px] font-mono text-emerald-500 font-bold uppercase tracking-widest">
+                  Incident #{incident.id.slice(0, 8)}
+                  {cameraName(incident.cameraId) && ` · ${cameraName(incident.cameraId)}`}
+                </p>
+                <h4 className="font-bold text-white">{formatRange(incident)}</h4>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="px-2 py-1 bg-white/5 text-zinc-400 border border-white/10 text-[9px] font-bold uppercase tracking-widest rounded">
+                  {incident.eventCount} events
+                </span>
+                {incident.suspiciousCount > 0 && (
+                  <span className="px-2 py-1 bg-red-600/20 text-red-400 border border-red-500/30 text-[9px] font-bold uppercase tracking-widest rounded">
+                    {incident.suspiciousCount} suspicious
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {incident.report ? (
+              <div className="markdown-body text-sm text-zinc-400 leading-relaxed">
+                <Markdown>{incident.report}</Markdown>
+              </div>
+            ) : (
+              <p className="text-xs text-zinc-500">No report yet. Generate one to get an AI-written summary and timeline of this incident.</p>
+            )}
+            {reportError?.id === incident.id && (
+              <p className="text-xs text-red-400">{reportError.message}</p>
+            )}
+
+            <div className="pt-4 border-t border-white/5 flex items-center justify-between gap-3">
+              {canReport ? (
+                <button
+                  onClick={() => writeReport(incident.id)}
+                  disabled={reportingId !== null}
+                  className="flex items-center gap-1.5 text-xs font-bold text-emerald-500 hover:underline disabled:opacity-50"
+                >
+                  {reportingId === incident.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+                  {incident.report ? "Regenerate Report" : "Generate Report"}
+                </button>
+              ) : <span />}
+              {incident.report && (
+                <div className="flex items-center gap-3">
+                  {incident.reportedAt && (
+                    <span className="text-[10px] font-mono text-zinc-500">Written {new Date(incident.reportedAt).toLocaleString()}</span>
+                  )}
+                  <a href={incidentReportUrl(incident.id)} download className="flex items-center gap-1 text-xs font-bold text-zinc-500 hover:text-white">
+                    <FileText className="w-3 h-3" />
+                    HTML
+                  </a>
+                  <a href={incidentReportUrl(incident.id, true)} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-xs font-bold text-zinc-500 hover:text-white">
+                    <Printer className="w-3 h-3" />
+                    PDF
+                  </a>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-center gap-4">
+          <button
+            onClick={() => setPage(p => p - 1)}
+            disabled={page === 0}
+            className="p-2 rounded-full bg-white/5 border border-white/10 text-zinc-400 hover:text-white disabled:opacity-30 transition-colors"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-xs font-mono text-zinc-500">{page + 1} / {pageCount}</span>
+          <button
+            onClick={() => setPage(p => p + 1)}
+            disabled={page + 1 >= pageCount}
+            className="p-2 rounded-full bg-white/5 border border-white/10 text-zinc-400 hover:text-white disabled:opacity-30 transition-colors"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
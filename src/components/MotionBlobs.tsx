@@ -0,0 +1,53 @@
+import { cn } from '../lib/utils';
+import { FRAME_HEIGHT, FRAME_WIDTH } from '../lib/frame';
+import type { MotionTrack } from '../lib/motion';
+
+interface MotionBlobsProps {
+  tracks: MotionTrack[];
+  /** Size of the underlying frame, so the boxes crop exactly like `object-cover`. */
+  frameSize?: { width: number; height: number };
+  className?: string;
+}
+
+/** Thin outlines around tracked moving blobs, drawn under the AI detection boxes. */
+export function MotionBlobs({ tracks, frameSize = { width: FRAME_WIDTH, height: FRAME_HEIGHT }, className }: MotionBlobsProps) {
+  const { width, height } = frameSize;
+  const fontSize = height * 0.025;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid slice"
+      className={cn("absolute inset-0 w-full h-full pointer-events-none", className)}
+    >
+      {tracks.map((track) => {
+        const [x, y, w, h] = track.box;
+        const [cx, cy] = track.centroid;
+        return (
+          <g key={track.id} className="stroke-sky-400 fill-sky-400">
+            <rect
+              x={x * width}
+              y={y * height}
+              width={w * width}
+              height={h * height}
+              vectorEffect="non-scaling-stroke"
+              strokeWidth={1}
+              strokeDasharray="4 3"
+              fillOpacity={0}
+            />
+            <circle cx={cx * width} cy={cy * height} r={fontSize * 0.25} strokeWidth={0} />
+            <text
+              x={x * width + 3}
+              y={y * height + fontSize}
+              fontSize={fontSize}
+              strokeWidth={0}
+              className="font-mono font-bold"
+            >
+              #{track.id}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
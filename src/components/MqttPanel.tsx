@@ -0,0 +1,90 @@
+import type { ReactNode } from 'react';
+import { Radio } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { DEFAULT_MQTT } from '../lib/mqtt';
+import { useServerSetting } from '../lib/useServerSetting';
+import type { MqttSettings } from '../types';
+
+const inputClass = "w-full px-2 py-1.5 bg-black/40 rounded-lg border border-white/10 text-[11px] text-zinc-300 focus:outline-none focus:border-emerald-500/50";
+
+const COMMANDS: { topic: string; payload: string }[] = [
+  { topic: 'command/arm', payload: 'home or away' },
+  { topic: 'command/disarm', payload: 'the PIN' },
+  { topic: 'command/mute', payload: 'silences the siren' },
+  { topic: 'command/snapshot', payload: 'camera id or name, empty for all' },
+];
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="space-y-1">
+      <span className="text-[10px] font-medium text-zinc-500">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+export function MqttPanel() {
+  const [mqtt, setMqtt] = useServerSetting<MqttSettings>('mqtt', DEFAULT_MQTT);
+
+  const update = (patch: Partial<MqttSettings>) => setMqtt(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-500">
+          <Radio className="w-4 h-4" />
+          <span className="text-[10px] uppercase font-bold tracking-widest">Home Automation (MQTT)</span>
+        </div>
+        <button
+          onClick={() => update({ enabled: !mqtt.enabled })}
+          className={cn(
+            "w-10 h-5 rounded-full relative shrink-0 transition-colors",
+            mqtt.enabled ? "bg-emerald-500" : "bg-zinc-700"
+          )}
+        >
+          <motion.div
+            animate={{ x: mqtt.enabled ? 22 : 2 }}
+            className="absolute top-1 w-3 h-3 bg-white rounded-full"
+          />
+        </button>
+      </div>
+
+      <p className="text-[11px] text-zinc-500 leading-relaxed">
+        The server publishes the armed state, camera motion and audio levels and every alert to the broker, and
+        takes commands from it. With a discovery prefix, each camera shows up in Home Assistant with a motion sensor
+        and its latest snapshot.
+      </p>
+
+      <div className={cn("grid gap-3 md:grid-cols-2", !mqtt.enabled && "opacity-50")}>
+        <Field label="Broker URL">
+          <input value={mqtt.url} onChange={(e) => update({ url: e.target.value })} placeholder="mqtt://192.168.1.10:1883" className={inputClass} />
+        </Field>
+        <div className="grid gap-3 grid-cols-2">
+          <Field label="Username">
+            <input value={mqtt.username} onChange={(e) => update({ username: e.target.value })} autoComplete="off" className={inputClass} />
+          </Field>
+          <Field label="Password">
+            <input type="password" value={mqtt.password} onChange={(e) => update({ password: e.target.value })} autoComplete="new-password" className={inputClass} />
+          </Field>
+        </div>
+        <Field label="Topic prefix">
+          <input value={mqtt.topicPrefix} onChange={(e) => update({ topicPrefix: e.target.value.trim() })} className={cn(inputClass, "font-mono")} />
+        </Field>
+        <Field label="Home Assistant discovery prefix (empty = off)">
+          <input value={mqtt.discoveryPrefix} onChange={(e) => update({ discoveryPrefix: e.target.value.trim() })} className={cn(inputClass, "font-mono")} />
+        </Field>
+      </div>
+
+      <div className="p-3 bg-black/40 rounded-2xl border border-white/5 space-y-1">
+        <p className="text-[10px] font-medium text-zinc-500">Command topics</p>
+        {COMMANDS.map(({ topic, payload }) => (
+          <div key={topic} className="flex items-center justify-between gap-4 text-[11px]">
+            <span className="font-mono text-zinc-300">{mqtt.topicPrefix}/{topic}</span>
+            <span className="text-zinc-500">{payload}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState, type ReactNode } from 'react';
+import { BellRing, Loader2, Plus, Send, Trash2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { testNotifier } from '../lib/api';
+import type { Notifier, NotifierKind } from '../types';
+
+const KINDS: { id: NotifierKind; label: string }[] = [
+  { id: 'webhook', label: 'Webhook' },
+  { id: 'email', label: 'Email' },
+  { id: 'ntfy', label: 'ntfy' },
+  { id: 'gotify', label: 'Gotify' },
+];
+
+const DEFAULT_COOLDOWN = 300;
+
+function createNotifier(kind: NotifierKind, count: number): Notifier {
+  const base = { id: crypto.randomUUID(), name: `${KINDS.find(k => k.id === kind)!.label} ${count}`, enabled: true, cooldown: DEFAULT_COOLDOWN };
+  switch (kind) {
+    case 'webhook':
+      return { ...base, kind, url: '', headers: {} };
+    case 'email':
+      return { ...base, kind, host: '', port: 587, secure: false, username: '', password: '', from: '', to: '' };
+    case 'ntfy':
+    case 'gotify':
+      return { ...base, kind, url: kind === 'ntfy' ? 'https://ntfy.sh/' : '', token: '' };
+  }
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-black/40 rounded-lg border border-white/10 text-[11px] text-zinc-300 focus:outline-none focus:border-emerald-500/50";
+
+function Field({ label, className, children }: { label: string; className?: string; children: ReactNode }) {
+  return (
+    <label className={cn("space-y-1", className)}>
+      <span className="text-[10px] font-medium text-zinc-500">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+// Headers are edited as "Name: value" lines
+const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+function parseHeaders(text: string) {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  });
+  return headers;
+}
+
+function NotifierFields({ notifier, onChange }: { notifier: Notifier; onChange: (patch: Partial<Notifier>) => void }) {
+  const [headerText, setHeaderText] = useState(notifier.kind === 'webhook' ? formatHeaders(notifier.headers) : '');
+
+  switch (notifier.kind) {
+    case 'webhook':
+      return (
+        <div className="grid gap-3">
+          <Field label="URL">
+            <input value={notifier.url} onChange={(e) => onChange({ url: e.target.value })} placeholder="https://example.com/hooks/sentry" className={inputClass} />
+          </Field>
+          <Field label="Headers">
+            <textarea
+              rows={2}
+              value={headerText}
+              onChange={(e) => {
+                setHeaderText(e.target.value);
+                onChange({ headers: parseHeaders(e.target.value) });
+              }}
+              placeholder="Authorization: Bearer …"
+              className={cn(inputClass, "font-mono resize-none")}
+            />
+          </Field>
+        </div>
+      );
+    case 'email':
+      return (
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+          <Field label="SMTP host" className="col-span-2">
+            <input value={notifier.host} onChange={(e) => onChange({ host: e.target.value })} placeholder="smtp.example.com" className={inputClass} />
+          </Field>
+          <Field label="Port">
+            <input type="number" value={notifier.port} onChange={(e) => onChange({ port: parseInt(e.target.value) || 587 })} className={inputClass} />
+          </Field>
+          <label className="flex items-center gap-2 pt-4 text-[11px] text-zinc-400">
+            <input type="checkbox" checked={notifier.secure} onChange={(e) => onChange({ secure: e.target.checked })} className="accent-emerald-500" />
+            TLS
+          </label>
+          <Field label="Username" className="col-span-2">
+            <input value={notifier.username} onChange={(e) => onChange({ username: e.target.value })} autoComplete="off" className={inputClass} />
+          </Field>
+          <Field label="Password" className="col-span-2">
+            <input type="password" value={notifier.password} onChange={(e) => onChange({ password: e.target.value })} autoComplete="new-password" className={inputClass} />
+          </Field>
+          <Field label="From" className="col-span-2">
+            <input value={notifier.from} onChange={(e) => onChange({ from: e.target.value })} placeholder="sentry@example.com" className={inputClass} />
+          </Field>
+          <Field label="To" className="col-span-2">
+            <input value={notifier.to} onChange={(e) => onChange({ to: e.target.value })} placeholder="me@example.com, you@example.com" className={inputClass} />
+          </Field>
+        </div>
+      );
+    case 'ntfy':
+    case 'gotify':
+      return (
+        <div className="grid gap-3 md:grid-cols-2">
+          <Field label={notifier.kind === 'ntfy' ? "Topic URL" : "Server URL"}>
+            <input value={notifier.url} onChange={(e) => onChange({ url: e.target.value })} className={inputClass} />
+          </Field>
+          <Field label={notifier.kind === 'ntfy' ? "Access token (optional)" : "App token"}>
+            <input type="password" value={notifier.token} onChange={(e) => onChange({ token: e.target.value })} autoComplete="off" className={inputClass} />
+          </Field>
+        </div>
+      );
+  }
+}
+
+interface NotificationsPanelProps {
+  notifiers: Notifier[];
+  onChange: (notifiers: Notifier[]) => void;
+}
+
+export function NotificationsPanel({ notifiers, onChange }: NotificationsPanelProps) {
+  // Per destination: 'sending', 'sent' or the error message from the last test
+  const [testing, setTesting] = useState<Record<string, string>>({});
+
+  const updateNotifier = (id: string, patch: Partial<Notifier>) =>
+    onChange(notifiers.map(n => (n.id === id ? { ...n, ...patch } as Notifier : n)));
+
+  const addNotifier = (kind: NotifierKind) =>
+    onChange([...notifiers, createNotifier(kind, notifiers.filter(n => n.kind === kind).length + 1)]);
+
+  const test = async (notifier: Notifier) => {
+    setTesting(prev => ({ ...prev, [notifier.id]: 'sending' }));
+    try {
+      await testNotifier(notifier);
+      setTesting(prev => ({ ...prev, [notifier.id]: 'sent' }));
+    } catch (err) {
+      setTesting(prev => ({ ...prev, [notifier.id]: err instanceof Error ? err.message : "Delivery failed" }));
+    }
+  };
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-500">
+          <BellRing className="w-4 h-4" />
+          <span className="text-[10px] uppercase font-bold tracking-widest">Notifications</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          {KINDS.map(kind => (
+            <button
+              key={kind.id}
+              onClick={() => addNotifier(kind.id)}
+              className="px-2.5 py-1.5 bg-white/5 text-zinc-300 hover:text-white rounded-lg text-[10px] font-bold uppercase tracking-widest border border-white/10 flex items-center gap-1 transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+              {kind.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-zinc-500">
+        Rules with the Notify action send their alerts here. Each destination gets at most one message per cooldown; alerts in between are counted in the next message.
+      </p>
+
+      {notifiers.length === 0 ? (
+        <p className="text-xs text-zinc-500">No destinations yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {notifiers.map((notifier) => {
+            const status = testing[notifier.id];
+            return (
+              <div
+                key={notifier.id}
+                className={cn("p-4 bg-black/40 rounded-2xl border border-white/5 space-y-3", !notifier.enabled && "opacity-50")}
+              >
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => updateNotifier(notifier.id, { enabled: !notifier.enabled })}
+                    className={cn(
+                      "w-8 h-4 rounded-full relative transition-colors shrink-0",
+                      notifier.enabled ? "bg-emerald-500" : "bg-zinc-700"
+                    )}
+                  >
+                    <span className={cn("absolute top-0.5 w-3 h-3 bg-white rounded-full transition-all", notifier.enabled ? "left-4" : "left-0.5")} />
+                  </button>
+                  <input
+                    value={notifier.name}
+                    onChange={(e) => updateNotifier(notifier.id, { name: e.target.value })}
+                    className="flex-1 bg-transparent text-sm font-bold text-zinc-200 focus:outline-none"
+                  />
+                  <span className="text-[10px] uppercase font-bold tracking-widest text-zinc-600">{notifier.kind}</span>
+                  <button
+                    onClick={() => onChange(notifiers.filter(n => n.id !== notifier.id))}
+                    className="p-1 text-zinc-600 hover:text-red-500 transition-colors"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+
+                <NotifierFields notifier={notifier} onChange={(patch) => updateNotifier(notifier.id, patch)} />
+
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-2 text-[11px] text-zinc-500">
+                    Cooldown
+                    <input
+                      type="number"
+                      min="0"
+                      value={notifier.cooldown}
+                      onChange={(e) => updateNotifier(notifier.id, { cooldown: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-20 px-2 py-1 bg-black/40 rounded-lg border border-white/10 text-xs font-mono text-zinc-300 focus:outline-none"
+                    />
+                    s
+                  </label>
+                  {status && status !== 'sending' && (
+                    <span className={cn("text-[11px] truncate", status === 'sent' ? "text-emerald-500" : "text-red-500")}>
+                      {status === 'sent' ? "Test sent" : status}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => test(notifier)}
+                    disabled={status === 'sending'}
+                    className="ml-auto px-3 py-1.5 bg-white/5 text-zinc-300 hover:text-white rounded-lg text-[10px] font-bold uppercase tracking-widest border border-white/10 flex items-center gap-1.5 disabled:opacity-30 transition-colors"
+                  >
+                    {status === 'sending' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
+                    Test
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
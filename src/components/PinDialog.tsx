@@ -0,0 +1,87 @@
+import { useState, type FormEvent } from 'react';
+import { motion } from 'motion/react';
+import { KeyRound, Loader2 } from 'lucide-react';
+
+interface PinDialogProps {
+  title: string;
+  description: string;
+  /** Rejects with the server's message when the PIN is wrong. */
+  onSubmit: (pin: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function PinDialog({ title, description, onSubmit, onCancel }: PinDialogProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(pin);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Incorrect PIN");
+      setPin('');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-6"
+      onClick={onCancel}
+    >
+      <motion.form
+        initial={{ scale: 0.95, y: 10 }}
+        animate={{ scale: 1, y: 0 }}
+        onSubmit={submit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-xs p-6 bg-zinc-900 rounded-3xl border border-white/10 shadow-2xl space-y-4"
+      >
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-emerald-500/10 border border-emerald-500/20 flex items-center justify-center">
+            <KeyRound className="w-5 h-5 text-emerald-500" />
+          </div>
+          <div>
+            <h3 className="font-bold">{title}</h3>
+            <p className="text-[11px] text-zinc-500">{description}</p>
+          </div>
+        </div>
+
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          autoFocus
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+          placeholder="PIN"
+          className="w-full px-4 py-3 bg-black/40 rounded-2xl border border-white/10 text-center text-2xl font-mono tracking-[0.5em] text-white focus:outline-none focus:border-emerald-500/50"
+        />
+        {error && <p className="text-xs text-red-500 text-center">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 py-2.5 bg-white/5 text-zinc-400 hover:text-white rounded-xl text-xs font-bold uppercase tracking-widest border border-white/10 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex-1 py-2.5 bg-emerald-500 text-black rounded-xl text-xs font-bold uppercase tracking-widest hover:bg-emerald-400 disabled:opacity-50 transition-colors flex items-center justify-center"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : "Confirm"}
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { DEFAULT_PRIVACY } from '../lib/privacy';
+import { useServerSetting } from '../lib/useServerSetting';
+import type { PrivacySettings } from '../types';
+
+const inputClass = "w-full px-2 py-1.5 bg-black/40 rounded-lg border border-white/10 text-xs font-mono text-zinc-300 focus:outline-none focus:border-emerald-500/50";
+
+// Lowering a limit deletes events for good, so a limit only applies once the field is left, not on every keystroke
+function LimitField({ label, value, onCommit }: { label: string; value: number; onCommit: (value: number) => void }) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const next = Math.max(0, parseInt(draft) || 0);
+    setDraft(String(next));
+    if (next !== value) onCommit(next);
+  };
+
+  return (
+    <label className="space-y-1">
+      <span className="text-[10px] font-medium text-zinc-500">{label}</span>
+      <input
+        type="number"
+        min="0"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className={inputClass}
+      />
+    </label>
+  );
+}
+
+export function PrivacyPanel() {
+  const [privacy, setPrivacy] = useServerSetting<PrivacySettings>('privacy', DEFAULT_PRIVACY);
+
+  const update = (patch: Partial<PrivacySettings>) => setPrivacy(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center gap-2 text-zinc-500">
+        <Lock className="w-4 h-4" />
+        <span className="text-[10px] uppercase font-bold tracking-widest">Privacy & Retention</span>
+      </div>
+
+      <p className="text-[11px] text-zinc-500 leading-relaxed">
+        Draw privacy regions on a camera under Detection Zones to black them out of every frame sent to Gemini or saved to the archive.
+      </p>
+
+      <div className="flex items-center justify-between gap-4 p-3 bg-black/40 rounded-2xl border border-white/5">
+        <div>
+          <p className="text-xs font-bold text-zinc-300">Blur faces in saved snapshots</p>
+          <p className="text-[11px] text-zinc-500">Uses one extra Gemini call per event, which delays saving and notifying it by a moment.</p>
+        </div>
+        <button
+          onClick={() => update({ blurFaces: !privacy.blurFaces })}
+          className={cn(
+            "w-10 h-5 rounded-full relative shrink-0 transition-colors",
+            privacy.blurFaces ? "bg-emerald-500" : "bg-zinc-700"
+          )}
+        >
+          <motion.div
+            animate={{ x: privacy.blurFaces ? 22 : 2 }}
+            className="absolute top-1 w-3 h-3 bg-white rounded-full"
+          />
+        </button>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <LimitField label="Delete events after (days, 0 = never)" value={privacy.retentionDays} onCommit={(retentionDays) => update({ retentionDays })} />
+        <LimitField label="Storage limit (MB, 0 = none)" value={privacy.maxStorageMb} onCommit={(maxStorageMb) => update({ maxStorageMb })} />
+      </div>
+      <p className="text-[11px] text-zinc-500">
+        Events past either limit are deleted with their snapshots and clips as soon as a limit is saved, and every hour after that, oldest first.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { Loader2, MonitorSmartphone } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { AlarmOverlay } from './AlarmOverlay';
+import type { Camera, CameraLevels } from '../types';
+
+interface RemoteFeedProps {
+  camera: Camera;
+  levels: CameraLevels;
+  /** Latest event snapshot from this camera, shown in place of video. */
+  snapshot?: string;
+  /** Zone name of the active alert on this camera, `null` for a whole-frame alert, `undefined` when not alerting. */
+  alertZone: string | null | undefined;
+  onDismiss?: () => void;
+}
+
+// `scale` stretches the bar like the camera's own feed does; motion rarely covers more than a fifth of the frame
+function Meter({ label, level, scale = 1, threshold }: { label: string; level: number; scale?: number; threshold: number }) {
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center justify-between text-[8px] font-bold uppercase tracking-tighter text-zinc-500">
+        <span>{label}</span>
+        <span>{Math.round(level)}%</span>
+      </div>
+      <div className="w-32 h-1 bg-black/40 rounded-full overflow-hidden border border-white/5">
+        <motion.div
+          animate={{ width: `${Math.min(level * scale, 100)}%` }}
+          className={cn("h-full transition-colors", level > threshold ? "bg-red-500" : "bg-emerald-500")}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A webcam that another device is running. Its video never leaves that
+ * browser, so this shows the meters it shares and the last snapshot instead.
+ */
+export function RemoteFeed({ camera, levels, snapshot, alertZone, onDismiss }: RemoteFeedProps) {
+  return (
+    <div className="relative aspect-video bg-zinc-900 rounded-3xl overflow-hidden border border-white/10 shadow-2xl">
+      {snapshot ? (
+        <img src={snapshot} alt={camera.name} className="w-full h-full object-cover opacity-40" />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <MonitorSmartphone className="w-10 h-10 text-zinc-700" />
+        </div>
+      )}
+
+      <div className="absolute top-6 left-6 flex flex-col gap-3 pointer-events-none">
+        <div className="flex items-center gap-3">
+          <div className="px-3 py-1.5 bg-black/60 backdrop-blur-md rounded-lg border border-white/10 flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+            <span className="text-[10px] font-mono uppercase tracking-widest font-bold">{camera.name}</span>
+          </div>
+          <div className="px-3 py-1.5 bg-black/60 backdrop-blur-md rounded-lg border border-white/10">
+            <span className="text-[10px] font-mono uppercase tracking-widest font-bold text-zinc-400">On another device</span>
+          </div>
+          {levels.analyzing && (
+            <div className="px-3 py-1.5 bg-emerald-500/20 backdrop-blur-md rounded-lg border border-emerald-500/30 flex items-center gap-2 animate-pulse">
+              <Loader2 className="w-3 h-3 text-emerald-500 animate-spin" />
+              <span className="text-[10px] font-mono uppercase tracking-widest font-bold text-emerald-500">AI Scanning...</span>
+            </div>
+          )}
+        </div>
+
+        <Meter label="Motion" level={levels.motion} scale={5} threshold={100 - camera.sensitivity} />
+        {camera.audioDeviceId !== undefined && (
+          <Meter label="Audio" level={levels.audio} threshold={100 - camera.audioSensitivity} />
+        )}
+      </div>
+
+      <AlarmOverlay zone={alertZone} onDismiss={onDismiss} />
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import type { ReactNode } from 'react';
+import { ListChecks, Plus, Trash2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { RULE_CLASSES } from '../lib/rules';
+import { Chips } from './Chips';
+import type { ArmedMode, Camera, Rule, RuleAction, RuleSchedule, TriggerSource } from '../types';
+
+const TRIGGER_SOURCES: TriggerSource[] = ['motion', 'sound'];
+const RULE_ACTIONS: { id: RuleAction; label: string }[] = [
+  { id: 'alarm', label: 'Sound alarm' },
+  { id: 'log', label: 'Log' },
+  { id: 'notify', label: 'Notify' },
+];
+const ARMED_MODES: { id: ArmedMode; label: string }[] = [
+  { id: 'home', label: 'Armed home' },
+  { id: 'away', label: 'Armed away' },
+];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEFAULT_SCHEDULE: RuleSchedule = { days: [0, 1, 2, 3, 4, 5, 6], start: '22:00', end: '06:00' };
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-baseline gap-2">
+        <span className="text-xs font-medium text-zinc-400">{label}</span>
+        {hint && <span className="text-[10px] text-zinc-600">{hint}</span>}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+interface RulesPanelProps {
+  rules: Rule[];
+  cameras: Camera[];
+  onChange: (rules: Rule[]) => void;
+}
+
+export function RulesPanel({ rules, cameras, onChange }: RulesPanelProps) {
+  // Zones are matched by name, so one rule covers the same-named zone on every camera
+  const zoneNames = [...new Set(cameras.flatMap(c => c.zones.filter(z => z.kind === 'include').map(z => z.name)))];
+
+  const updateRule = (id: string, patch: Partial<Rule>) =>
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const setActions = (rule: Rule, actions: RuleAction[]) => {
+    if (actions.includes('notify') && 'Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {});
+    }
+    updateRule(rule.id, { actions });
+  };
+
+  const addRule = () => onChange([...rules, {
+    id: crypto.randomUUID(),
+    name: `Rule ${rules.length + 1}`,
+    enabled: true,
+    classes: ['person'],
+    zones: [],
+    triggerSources: [],
+    schedule: null,
+    minDwell: 1,
+    actions: ['alarm'],
+  }]);
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-500">
+          <ListChecks className="w-4 h-4" />
+          <span className="text-[10px] uppercase font-bold tracking-widest">Alert Rules</span>
+        </div>
+        <button
+          onClick={addRule}
+          className="px-3 py-1.5 bg-white/5 text-zinc-300 hover:text-white rounded-lg text-[10px] font-bold uppercase tracking-widest border border-white/10 flex items-center gap-1.5 transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Rule
+        </button>
+      </div>
+
+      <p className="text-xs text-zinc-500">
+        While the system is armed, an event is recorded only when at least one enabled rule matches. Leave a filter empty to match anything.
+      </p>
+
+      {rules.length === 0 ? (
+        <p className="text-xs text-zinc-500">No rules: nothing will raise an alert.</p>
+      ) : (
+        <div className="space-y-3">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={cn("p-4 bg-black/40 rounded-2xl border border-white/5 space-y-4", !rule.enabled && "opacity-50")}
+            >
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                  className={cn(
+                    "w-8 h-4 rounded-full relative transition-colors shrink-0",
+                    rule.enabled ? "bg-emerald-500" : "bg-zinc-700"
+                  )}
+                >
+                  <span className={cn("absolute top-0.5 w-3 h-3 bg-white rounded-full transition-all", rule.enabled ? "left-4" : "left-0.5")} />
+                </button>
+                <input
+                  value={rule.name}
+                  onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                  className="flex-1 bg-transparent text-sm font-bold text-zinc-200 focus:outline-none"
+                />
+                <button
+                  onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                  className="p-1 text-zinc-600 hover:text-red-500 transition-colors"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <Field label="Objects" hint={rule.classes.length ? undefined : "anything suspicious"}>
+                  <Chips
+                    options={RULE_CLASSES.map(c => ({ id: c, label: c }))}
+                    selected={rule.classes}
+                    onChange={(classes) => updateRule(rule.id, { classes })}
+                  />
+                </Field>
+
+                <Field label="Triggers" hint={rule.triggerSources.length ? undefined : "any"}>
+                  <Chips
+                    options={TRIGGER_SOURCES.map(t => ({ id: t, label: t }))}
+                    selected={rule.triggerSources}
+                    onChange={(triggerSources) => updateRule(rule.id, { triggerSources })}
+                  />
+                </Field>
+
+                <Field label="Modes" hint={rule.modes?.length ? undefined : "any armed mode"}>
+                  <Chips
+                    options={ARMED_MODES}
+                    selected={rule.modes ?? []}
+                    onChange={(modes) => updateRule(rule.id, { modes })}
+                  />
+                </Field>
+
+                <Field label="Zones" hint={rule.zones.length ? undefined : "whole frame"}>
+                  {zoneNames.length === 0 && rule.zones.length === 0 ? (
+                    <p className="text-[10px] text-zinc-600">Draw zones on the live feed to filter by them.</p>
+                  ) : (
+                    <Chips
+                      // Keep zones that were renamed or deleted visible so they can be deselected
+                      options={[...new Set([...zoneNames, ...rule.zones])].map(z => ({ id: z, label: z }))}
+                      selected={rule.zones}
+                      onChange={(zones) => updateRule(rule.id, { zones })}
+                    />
+                  )}
+                </Field>
+
+                <Field label="Actions">
+                  <Chips
+                    options={RULE_ACTIONS}
+                    selected={rule.actions}
+                    onChange={(actions) => setActions(rule, actions)}
+                  />
+                </Field>
+
+                <Field label="Dwell" hint="consecutive matching frames">
+                  <input
+                    type="number"
+                    min="1"
+                    max="20"
+                    value={rule.minDwell}
+                    onChange={(e) => updateRule(rule.id, { minDwell: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="w-20 px-2 py-1 bg-black/40 rounded-lg border border-white/10 text-xs font-mono text-zinc-300 focus:outline-none"
+                  />
+                </Field>
+
+                <Field label="Schedule" hint={rule.schedule ? undefined : "always active"}>
+                  <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-[11px] text-zinc-400">
+                      <input
+                        type="checkbox"
+                        checked={rule.schedule !== null}
+                        onChange={(e) => updateRule(rule.id, { schedule: e.target.checked ? DEFAULT_SCHEDULE : null })}
+                        className="accent-emerald-500"
+                      />
+                      Only at certain times
+                    </label>
+                    {rule.schedule && (
+                      <>
+                        <Chips
+                          options={WEEKDAYS.map((label, id) => ({ id, label }))}
+                          selected={rule.schedule.days}
+                          onChange={(days) => updateRule(rule.id, { schedule: { ...rule.schedule!, days: days.sort((a, b) => a - b) } })}
+                        />
+                        <div className="flex items-center gap-2 text-[11px] text-zinc-500">
+                          <input
+                            type="time"
+                            value={rule.schedule.start}
+                            onChange={(e) => e.target.value && updateRule(rule.id, { schedule: { ...rule.schedule!, start: e.target.value } })}
+                            className="px-2 py-1 bg-black/40 rounded-lg border border-white/10 text-xs font-mono text-zinc-300 focus:outline-none"
+                          />
+                          to
+                          <input
+                            type="time"
+                            value={rule.schedule.end}
+                            onChange={(e) => e.target.value && updateRule(rule.id, { schedule: { ...rule.schedule!, end: e.target.value } })}
+                            className="px-2 py-1 bg-black/40 rounded-lg border border-white/10 text-xs font-mono text-zinc-300 focus:outline-none"
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </Field>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { CalendarClock, Plus, Trash2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useServerSetting } from '../lib/useServerSetting';
+import { Chips } from './Chips';
+import type { ArmSchedule, SecurityMode } from '../types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MODES: { id: SecurityMode; label: string }[] = [
+  { id: 'away', label: 'Arm away' },
+  { id: 'home', label: 'Arm home' },
+  { id: 'disarmed', label: 'Disarm' },
+];
+
+export function SchedulePanel() {
+  const [schedules, setSchedules] = useServerSetting<ArmSchedule[]>('armSchedules', []);
+
+  const update = (id: string, patch: Partial<ArmSchedule>) =>
+    setSchedules(prev => prev.map(s => (s.id === id ? { ...s, ...patch } : s)));
+
+  const add = () => setSchedules(prev => [...prev, {
+    id: crypto.randomUUID(),
+    enabled: true,
+    days: [1, 2, 3, 4, 5],
+    time: prev.length % 2 ? '17:30' : '08:30',
+    mode: prev.length % 2 ? 'disarmed' : 'away',
+  }]);
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-500">
+          <CalendarClock className="w-4 h-4" />
+          <span className="text-[10px] uppercase font-bold tracking-widest">Arm Schedule</span>
+        </div>
+        <button
+          onClick={add}
+          className="px-3 py-1.5 bg-white/5 text-zinc-300 hover:text-white rounded-lg text-[10px] font-bold uppercase tracking-widest border border-white/10 flex items-center gap-1.5 transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Entry
+        </button>
+      </div>
+
+      <p className="text-xs text-zinc-500">
+        The server arms or disarms at these times in its own time zone, even with no dashboard open. Devices that
+        monitored from this browser before start their cameras again when a schedule arms the system.
+      </p>
+
+      {schedules.length === 0 ? (
+        <p className="text-xs text-zinc-500">No schedule: the system is only armed by hand.</p>
+      ) : (
+        <div className="space-y-3">
+          {schedules.map((schedule) => (
+            <div
+              key={schedule.id}
+              className={cn("p-4 bg-black/40 rounded-2xl border border-white/5 space-y-3", !schedule.enabled && "opacity-50")}
+            >
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => update(schedule.id, { enabled: !schedule.enabled })}
+                  className={cn(
+                    "w-8 h-4 rounded-full relative transition-colors shrink-0",
+                    schedule.enabled ? "bg-emerald-500" : "bg-zinc-700"
+                  )}
+                >
+                  <span className={cn("absolute top-0.5 w-3 h-3 bg-white rounded-full transition-all", schedule.enabled ? "left-4" : "left-0.5")} />
+                </button>
+                <input
+                  type="time"
+                  value={schedule.time}
+                  onChange={(e) => e.target.value && update(schedule.id, { time: e.target.value })}
+                  className="px-2 py-1 bg-black/40 rounded-lg border border-white/10 text-xs font-mono text-zinc-300 focus:outline-none"
+                />
+                <select
+                  value={schedule.mode}
+                  onChange={(e) => update(schedule.id, { mode: e.target.value as SecurityMode })}
+                  className="px-2 py-1 bg-black/40 rounded-lg border border-white/10 text-[11px] text-zinc-300 focus:outline-none"
+                >
+                  {MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+                </select>
+                <button
+                  onClick={() => setSchedules(prev => prev.filter(s => s.id !== schedule.id))}
+                  className="ml-auto p-1 text-zinc-600 hover:text-red-500 transition-colors"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <Chips
+                options={WEEKDAYS.map((label, id) => ({ id, label }))}
+                selected={schedule.days}
+                onChange={(days) => update(schedule.id, { days: days.sort((a, b) => a - b) })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
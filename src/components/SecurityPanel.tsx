@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { Home, Lock, LockOpen, Timer } from 'lucide-react';
+import { exitDeadline } from '../lib/security';
+import { cn } from '../lib/utils';
+import type { ArmedMode, SecurityMode, SecurityState } from '../types';
+
+const MODES: { id: SecurityMode; label: string; hint: string; icon: typeof Lock }[] = [
+  { id: 'disarmed', label: 'Disarmed', hint: 'Live view only', icon: LockOpen },
+  { id: 'home', label: 'Armed Home', hint: 'Someone is home', icon: Home },
+  { id: 'away', label: 'Armed Away', hint: 'Nobody is home', icon: Lock },
+];
+
+function useCountdown(deadline: number | null) {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (deadline === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [deadline]);
+  return deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+}
+
+interface SecurityPanelProps {
+  security: SecurityState | null;
+  /** When a pending alarm sounds unless the system is disarmed first. */
+  entryDeadline: number | null;
+  onArm: (mode: ArmedMode) => void;
+  onDisarm: () => void;
+  /** Shows the mode without letting it be changed, for viewers. */
+  readOnly?: boolean;
+}
+
+export function SecurityPanel({ security, entryDeadline, onArm, onDisarm, readOnly = false }: SecurityPanelProps) {
+  const exitIn = useCountdown(security && exitDeadline(security));
+  const entryIn = useCountdown(entryDeadline);
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-500">
+          <Lock className="w-4 h-4" />
+          <span className="text-[10px] uppercase font-bold tracking-widest">Security Mode</span>
+        </div>
+        {entryIn !== null ? (
+          <span className="flex items-center gap-1.5 text-[10px] font-mono font-bold text-red-500 animate-pulse">
+            <Timer className="w-3 h-3" />
+            Alarm in {entryIn}s · disarm now
+          </span>
+        ) : exitIn ? (
+          <span className="flex items-center gap-1.5 text-[10px] font-mono text-amber-500">
+            <Timer className="w-3 h-3" />
+            Arming in {exitIn}s
+          </span>
+        ) : security && !security.hasPin && (
+          <span className="text-[10px] text-amber-500">No PIN set · anyone can disarm</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {MODES.map((mode) => {
+          const isActive = security?.mode === mode.id;
+          return (
+            <button
+              key={mode.id}
+              disabled={!security || isActive || readOnly}
+              onClick={() => (mode.id === 'disarmed' ? onDisarm() : onArm(mode.id))}
+              className={cn(
+                "p-3 rounded-2xl border text-left space-y-1 transition-all disabled:cursor-default",
+                isActive
+                  ? mode.id === 'disarmed'
+                    ? "bg-white/10 border-white/20"
+                    : "bg-emerald-500/10 border-emerald-500/30 text-emerald-400"
+                  : "bg-black/40 border-white/5 text-zinc-400 hover:text-white hover:border-white/10"
+              )}
+            >
+              <mode.icon className="w-4 h-4" />
+              <p className="text-xs font-bold">{mode.label}</p>
+              <p className="text-[9px] text-zinc-500">{mode.hint}</p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { updateSecurity } from '../lib/api';
+import type { SecurityState } from '../types';
+
+interface SecuritySettingsProps {
+  security: SecurityState;
+  onChange: (security: SecurityState) => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-black/40 rounded-xl border border-white/10 text-xs font-mono text-zinc-300 focus:outline-none focus:border-emerald-500/50";
+
+export function SecuritySettings({ security, onChange }: SecuritySettingsProps) {
+  const [entryDelay, setEntryDelay] = useState(security.entryDelay);
+  const [exitDelay, setExitDelay] = useState(security.exitDelay);
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [status, setStatus] = useState<{ error: boolean; message: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setEntryDelay(security.entryDelay);
+    setExitDelay(security.exitDelay);
+  }, [security.entryDelay, security.exitDelay]);
+
+  const save = async (e: FormEvent) => {
+    e.preventDefault();
+    if (newPin !== confirmPin) {
+      setStatus({ error: true, message: "New PINs don't match" });
+      return;
+    }
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      onChange(await updateSecurity({ pin: currentPin, entryDelay, exitDelay, newPin: newPin || undefined }));
+      setCurrentPin('');
+      setNewPin('');
+      setConfirmPin('');
+      setStatus({ error: false, message: "Saved" });
+    } catch (err) {
+      setStatus({ error: true, message: err instanceof Error ? err.message : "Failed to save" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const digitsOnly = (set: (value: string) => void) => (e: { target: { value: string } }) => set(e.target.value.replace(/\D/g, ''));
+
+  return (
+    <form onSubmit={save} className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center gap-2 text-zinc-500">
+        <KeyRound className="w-4 h-4" />
+        <span className="text-[10px] uppercase font-bold tracking-widest">PIN & Delays</span>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="space-y-1.5">
+          <span className="text-xs font-medium text-zinc-400">Entry delay (seconds)</span>
+          <input type="number" min="0" max="300" value={entryDelay} onChange={(e) => setEntryDelay(parseInt(e.target.value) || 0)} className={inputClass} />
+        </label>
+        <label className="space-y-1.5">
+          <span className="text-xs font-medium text-zinc-400">Exit delay (seconds)</span>
+          <input type="number" min="0" max="300" value={exitDelay} onChange={(e) => setExitDelay(parseInt(e.target.value) || 0)} className={inputClass} />
+        </label>
+        <label className="space-y-1.5">
+          <span className="text-xs font-medium text-zinc-400">New PIN</span>
+          <input type="password" inputMode="numeric" autoComplete="new-password" placeholder="4-12 digits" value={newPin} onChange={digitsOnly(setNewPin)} className={inputClass} />
+        </label>
+        <label className="space-y-1.5">
+          <span className="text-xs font-medium text-zinc-400">Confirm new PIN</span>
+          <input type="password" inputMode="numeric" autoComplete="new-password" value={confirmPin} onChange={digitsOnly(setConfirmPin)} className={inputClass} />
+        </label>
+      </div>
+
+      <div className="flex items-end gap-3">
+        {security.hasPin && (
+          <label className="flex-1 space-y-1.5">
+            <span className="text-xs font-medium text-zinc-400">Current PIN</span>
+            <input type="password" inputMode="numeric" autoComplete="current-password" value={currentPin} onChange={digitsOnly(setCurrentPin)} className={inputClass} />
+          </label>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="ml-auto px-5 py-2 bg-emerald-500 text-black rounded-xl text-xs font-bold uppercase tracking-widest hover:bg-emerald-400 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          Save
+        </button>
+      </div>
+
+      {status && <p className={status.error ? "text-xs text-red-500" : "text-xs text-emerald-500"}>{status.message}</p>}
+      {!security.hasPin && (
+        <p className="text-[11px] text-amber-500">Set a PIN so that disarming and dismissing alarms can't be done by anyone at the screen.</p>
+      )}
+    </form>
+  );
+}
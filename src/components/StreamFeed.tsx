@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react';
+import { CameraOff, Loader2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { listStreams, streamUrl } from '../lib/api';
+import { FRAME_HEIGHT, FRAME_WIDTH } from '../lib/frame';
+import { AlarmOverlay } from './AlarmOverlay';
+import { ZoneOverlay, type ZoneDraft } from './ZoneOverlay';
+import type { Camera, StreamStatus } from '../types';
+
+const STATUS_INTERVAL = 1000;
+const RECONNECT_DELAY = 2000; // After the live view drops, e.g. while the server restarts the stream
+
+const STATE_LABELS: Record<StreamStatus['state'], string> = {
+  starting: 'Connecting',
+  running: 'Live',
+  retrying: 'Reconnecting',
+  ended: 'Ended',
+};
+
+interface StreamFeedProps {
+  camera: Camera;
+  isSelected: boolean;
+  /** Zone name of the active alert on this camera, `null` for a whole-frame alert, `undefined` when not alerting. */
+  alertZone: string | null | undefined;
+  zoneDraft: ZoneDraft | null;
+  onSelect: () => void;
+  onDismiss?: () => void;
+  onAddZonePoint: (point: [number, number]) => void;
+}
+
+/**
+ * Live view of a camera the server watches itself. Motion, analysis and rules
+ * all run on the server; this only shows the feed and what the monitor reports.
+ */
+export function StreamFeed({ camera, isSelected, alertZone, zoneDraft, onSelect, onDismiss, onAddZonePoint }: StreamFeedProps) {
+  const [status, setStatus] = useState<StreamStatus | null>(null);
+  // Bumped to open a new MJPEG connection; the old one ends when the server restarts the stream
+  const [session, setSession] = useState(0);
+  const [frameSize, setFrameSize] = useState({ width: FRAME_WIDTH, height: FRAME_HEIGHT });
+  const stateRef = useRef<StreamStatus['state'] | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    const poll = () => listStreams()
+      .then(statuses => {
+        if (cancelled) return;
+        const next = statuses.find(s => s.cameraId === camera.id) ?? null;
+        if (next?.state === 'running' && stateRef.current !== 'running') setSession(Date.now());
+        stateRef.current = next?.state;
+        setStatus(next);
+      })
+      .catch(err => console.error(`Failed to load stream status for ${camera.name}:`, err));
+
+    poll();
+    const interval = setInterval(poll, STATUS_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [camera.id, camera.name, camera.source]);
+
+  const reconnect = () => setTimeout(() => setSession(Date.now()), RECONNECT_DELAY);
+
+  const motionLevel = status?.motion ?? 0;
+  const error = status?.state === 'running' ? undefined : status?.error;
+
+  return (
+    <div
+      onClick={onSelect}
+      className={cn(
+        "relative aspect-video bg-zinc-900 rounded-3xl overflow-hidden border shadow-2xl group cursor-pointer transition-colors",
+        isSelected ? "border-emerald-500/50" : "border-white/10"
+      )}
+    >
+      {session > 0 && (
+        <img
+          src={streamUrl(camera.id, session)}
+          alt={camera.name}
+          onLoad={(e) => setFrameSize({
+            width: e.currentTarget.naturalWidth || FRAME_WIDTH,
+            height: e.currentTarget.naturalHeight || FRAME_HEIGHT,
+          })}
+          onError={reconnect}
+          className="w-full h-full object-cover"
+        />
+      )}
+
+      <ZoneOverlay
+        zones={camera.zones}
+        activeZoneId={null}
+        draft={zoneDraft}
+        frameSize={frameSize}
+        onAddPoint={onAddZonePoint}
+      />
+
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-zinc-900/90 p-6 text-center">
+          <CameraOff className="w-8 h-8 text-red-500" />
+          <p className="text-xs text-zinc-400 max-w-xs">{error}</p>
+        </div>
+      )}
+
+      <div className="absolute top-6 left-6 flex flex-col gap-3 pointer-events-none">
+        <div className="flex items-center gap-3">
+          <div className="px-3 py-1.5 bg-black/60 backdrop-blur-md rounded-lg border border-white/10 flex items-center gap-2">
+            <div className={cn("w-2 h-2 rounded-full", status?.state === 'running' ? "bg-red-500 animate-pulse" : "bg-zinc-500")} />
+            <span className="text-[10px] font-mono uppercase tracking-widest font-bold">{camera.name}</span>
+          </div>
+          <div className="px-3 py-1.5 bg-black/60 backdrop-blur-md rounded-lg border border-white/10">
+            <span className="text-[10px] font-mono uppercase tracking-widest font-bold text-zinc-400">
+              {status ? STATE_LABELS[status.state] : 'Not running'}
+            </span>
+          </div>
+          {status?.analyzing && (
+            <div className="px-3 py-1.5 bg-emerald-500/20 backdrop-blur-md rounded-lg border border-emerald-500/30 flex items-center gap-2 animate-pulse">
+              <Loader2 className="w-3 h-3 text-emerald-500 animate-spin" />
+              <span className="text-[10px] font-mono uppercase tracking-widest font-bold text-emerald-500">AI Scanning...</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center justify-between text-[8px] font-bold uppercase tracking-tighter text-zinc-500">
+            <span>Motion</span>
+            <span>{Math.round(motionLevel)}%</span>
+          </div>
+          <div className="w-32 h-1 bg-black/40 rounded-full overflow-hidden border border-white/5">
+            <motion.div
+              animate={{ width: `${Math.min(motionLevel * 5, 100)}%` }}
+              className={cn(
+                "h-full transition-colors",
+                motionLevel > (100 - camera.sensitivity) ? "bg-red-500" : "bg-emerald-500"
+              )}
+            />
+          </div>
+        </div>
+      </div>
+
+      <AlarmOverlay zone={alertZone} onDismiss={onDismiss} />
+    </div>
+  );
+}
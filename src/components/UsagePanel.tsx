@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useState, type ReactNode } from 'react';
+import { Gauge, RefreshCw } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { getUsage } from '../lib/api';
+import { getQueueStats, type QueueStats } from '../lib/analysisQueue';
+import { DEFAULT_BUDGET } from '../lib/usage';
+import { useServerSetting } from '../lib/useServerSetting';
+import type { AnalysisBudget, AnalysisOutcome, Camera, UsageSummary, UsageTotals } from '../types';
+
+const OUTCOME_STYLES: Record<AnalysisOutcome, { label: string; className: string }> = {
+  ok: { label: 'OK', className: 'text-emerald-500' },
+  error: { label: 'Error', className: 'text-red-500' },
+  'rate-limited': { label: 'Rate limited', className: 'text-amber-500' },
+  'over-budget': { label: 'Over budget', className: 'text-amber-500' },
+};
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+const formatCount = (n: number) => n.toLocaleString();
+
+const inputClass = "w-full px-2 py-1.5 bg-black/40 rounded-lg border border-white/10 text-xs font-mono text-zinc-300 focus:outline-none focus:border-emerald-500/50";
+
+function Meter({ label, used, limit }: { label: string; used: number; limit: number }) {
+  const share = Math.min(1, used / limit);
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-widest text-zinc-500">
+        <span>{label}</span>
+        <span className="font-mono">{used} / {limit}</span>
+      </div>
+      <div className="h-1 bg-black/40 rounded-full overflow-hidden border border-white/5">
+        <div
+          style={{ width: `${share * 100}%` }}
+          className={cn("h-full transition-all", share >= 1 ? "bg-red-500" : share >= 0.8 ? "bg-amber-500" : "bg-emerald-500")}
+        />
+      </div>
+    </div>
+  );
+}
+
+function Totals({ title, totals }: { title: string; totals: UsageTotals }) {
+  return (
+    <div className="p-4 bg-black/40 rounded-2xl border border-white/5 space-y-2">
+      <span className="text-[10px] uppercase font-bold tracking-widest text-zinc-500">{title}</span>
+      <div className="flex items-baseline gap-2">
+        <span className="text-xl font-bold">{formatCount(totals.calls)}</span>
+        <span className="text-xs text-zinc-500">calls · {formatCost(totals.cost)}</span>
+      </div>
+      <p className="text-[11px] text-zinc-500">
+        {formatCount(totals.inputTokens)} in / {formatCount(totals.outputTokens)} out tokens · {totals.averageLatency} ms avg
+      </p>
+      <p className="text-[11px] text-zinc-500">
+        {(Object.keys(OUTCOME_STYLES) as AnalysisOutcome[])
+          .filter(outcome => totals.outcomes[outcome])
+          .map(outcome => `${totals.outcomes[outcome]} ${OUTCOME_STYLES[outcome].label.toLowerCase()}`)
+          .join(' · ') || "No calls"}
+      </p>
+    </div>
+  );
+}
+
+function BudgetField({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="space-y-1">
+      <span className="text-[10px] font-medium text-zinc-500">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+interface UsagePanelProps {
+  cameras: Camera[];
+}
+
+export function UsagePanel({ cameras }: UsagePanelProps) {
+  const [budget, setBudget] = useServerSetting<AnalysisBudget>('budget', DEFAULT_BUDGET);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [queueStats, setQueueStats] = useState<QueueStats>(getQueueStats);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setQueueStats(getQueueStats());
+    try {
+      setUsage(await getUsage());
+    } catch (err) {
+      console.error("Failed to load AI usage:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const updateBudget = (patch: Partial<AnalysisBudget>) => setBudget(prev => ({ ...prev, ...patch }));
+  const cameraName = (id?: string) => cameras.find(c => c.id === id)?.name ?? "Unknown camera";
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-500">
+          <Gauge className="w-4 h-4" />
+          <span className="text-[10px] uppercase font-bold tracking-widest">AI Usage</span>
+        </div>
+        <button
+          onClick={load}
+          className="p-1.5 text-zinc-500 hover:text-white transition-colors"
+        >
+          <RefreshCw className={cn("w-3.5 h-3.5", isLoading && "animate-spin")} />
+        </button>
+      </div>
+
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+        <BudgetField label="Calls per minute">
+          <input type="number" min="1" value={budget.perMinute} onChange={(e) => updateBudget({ perMinute: Math.max(1, parseInt(e.target.value) || 1) })} className={inputClass} />
+        </BudgetField>
+        <BudgetField label="Calls per day">
+          <input type="number" min="1" value={budget.perDay} onChange={(e) => updateBudget({ perDay: Math.max(1, parseInt(e.target.value) || 1) })} className={inputClass} />
+        </BudgetField>
+        <BudgetField label="Input $ / 1M tokens">
+          <input type="number" min="0" step="0.01" value={budget.inputPrice} onChange={(e) => updateBudget({ inputPrice: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputClass} />
+        </BudgetField>
+        <BudgetField label="Output $ / 1M tokens">
+          <input type="number" min="0" step="0.01" value={budget.outputPrice} onChange={(e) => updateBudget({ outputPrice: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputClass} />
+        </BudgetField>
+      </div>
+
+      {usage && (
+        <>
+          <div className="grid gap-3 md:grid-cols-2">
+            <Meter label="Last minute" used={usage.lastMinute} limit={usage.budget.perMinute} />
+            <Meter label="Last 24 hours" used={usage.lastDay} limit={usage.budget.perDay} />
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-2">
+            <Totals title="Last 24 hours" totals={usage.day} />
+            <Totals title="Last 7 days" totals={usage.week} />
+          </div>
+        </>
+      )}
+
+      <p className="text-[11px] text-zinc-500">
+        This session: {queueStats.submitted} frames queued, {queueStats.analyzed} analyzed, {queueStats.coalesced} merged into newer frames, {queueStats.duplicates} skipped as duplicates, {queueStats.failed} failed.
+      </p>
+
+      {usage && usage.recent.length > 0 && (
+        <div className="divide-y divide-white/5">
+          {usage.recent.map((call) => (
+            <div key={call.id} className="flex items-center gap-3 py-2 text-xs">
+              <span className="w-36 font-mono text-[10px] text-zinc-500">{new Date(call.timestamp).toLocaleString()}</span>
+              <span className={cn("w-24 font-bold", OUTCOME_STYLES[call.outcome].className)}>{OUTCOME_STYLES[call.outcome].label}</span>
+              <span className="text-zinc-400 truncate">{cameraName(call.cameraId)} · {call.triggerSource}</span>
+              <span className="ml-auto font-mono text-[10px] text-zinc-500 shrink-0">
+                {call.outcome === 'ok' ? `${call.latencyMs} ms · ${call.inputTokens + call.outputTokens} tok` : call.error ?? ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { KeyRound, Loader2, Plus, Trash2, Users } from 'lucide-react';
+import { createUser, deleteUser, listUsers, updateUser } from '../lib/api';
+import { useSession } from '../lib/session';
+import { USER_ROLES, type User, type UserRole } from '../types';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  operator: 'Operator',
+  admin: 'Admin',
+};
+
+const inputClass = "px-2 py-1.5 bg-black/40 rounded-lg border border-white/10 text-[11px] text-zinc-300 focus:outline-none focus:border-emerald-500/50";
+
+function RoleSelect({ value, onChange }: { value: UserRole; onChange: (role: UserRole) => void }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value as UserRole)} className={inputClass}>
+      {USER_ROLES.map(role => (
+        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+      ))}
+    </select>
+  );
+}
+
+export function UsersPanel() {
+  const { user: currentUser } = useSession();
+  const [users, setUsers] = useState<User[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('viewer');
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    listUsers()
+      .then(setUsers)
+      .catch(err => console.error("Failed to load users:", err));
+  }, []);
+
+  // Every change goes straight to the server, which refuses to leave the dashboard without an admin
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    }
+  };
+
+  const add = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsAdding(true);
+    await run(async () => {
+      const created = await createUser(username.trim(), password, role);
+      setUsers(prev => [...prev, created].sort((a, b) => a.username.localeCompare(b.username)));
+      setUsername('');
+      setPassword('');
+    });
+    setIsAdding(false);
+  };
+
+  const changeRole = (target: User, next: UserRole) => run(async () => {
+    const updated = await updateUser(target.id, { role: next });
+    setUsers(prev => prev.map(u => (u.id === updated.id ? updated : u)));
+  });
+
+  const resetPassword = (target: User) => {
+    const next = window.prompt(`New password for ${target.username} (8+ characters). They will be signed out everywhere.`);
+    if (!next) return;
+    run(async () => {
+      await updateUser(target.id, { password: next });
+    });
+  };
+
+  const remove = (target: User) => {
+    if (!window.confirm(`Delete ${target.username}?`)) return;
+    run(async () => {
+      await deleteUser(target.id);
+      setUsers(prev => prev.filter(u => u.id !== target.id));
+    });
+  };
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center gap-2 text-zinc-500">
+        <Users className="w-4 h-4" />
+        <span className="text-[10px] uppercase font-bold tracking-widest">Users</span>
+      </div>
+
+      <p className="text-[11px] text-zinc-500 leading-relaxed">
+        Viewers can watch feeds and browse events. Operators can also arm, disarm, dismiss alarms and run cameras.
+        Admins manage settings, users and deletions.
+      </p>
+
+      <div className="divide-y divide-white/5">
+        {users.map(u => (
+          <div key={u.id} className="flex items-center gap-3 py-2 text-xs">
+            <span className="font-bold text-zinc-300 truncate">{u.username}</span>
+            {u.id === currentUser.id && <span className="text-[10px] uppercase font-bold tracking-widest text-emerald-500">You</span>}
+            <div className="ml-auto flex items-center gap-2">
+              <RoleSelect value={u.role} onChange={(next) => changeRole(u, next)} />
+              <button
+                onClick={() => resetPassword(u)}
+                title="Reset password"
+                className="p-1.5 text-zinc-500 hover:text-white transition-colors"
+              >
+                <KeyRound className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => remove(u)}
+                title="Delete user"
+                className="p-1.5 text-zinc-500 hover:text-red-500 transition-colors"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={add} className="flex flex-wrap items-center gap-2">
+        <input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="off"
+          className={`${inputClass} flex-1 min-w-32`}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete="new-password"
+          className={`${inputClass} flex-1 min-w-32`}
+        />
+        <RoleSelect value={role} onChange={setRole} />
+        <button
+          type="submit"
+          disabled={isAdding || !username.trim() || !password}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-500 border border-emerald-500/20 rounded-lg text-[10px] font-bold uppercase tracking-widest disabled:opacity-50 transition-colors"
+        >
+          {isAdding ? <Loader2 className="w-3 h-3 animate-spin" /> : <Plus className="w-3 h-3" />}
+          Add
+        </button>
+      </form>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import type React from 'react';
+import { cn } from '../lib/utils';
+import type { Zone, ZoneKind } from '../types';
+
+export interface ZoneDraft {
+  kind: ZoneKind;
+  points: [number, number][];
+}
+
+interface ZoneOverlayProps {
+  zones: Zone[];
+  activeZoneId: string | null;
+  draft: ZoneDraft | null;
+  /** Intrinsic video size, so the overlay crops exactly like `object-cover`. */
+  frameSize: { width: number; height: number };
+  onAddPoint: (point: [number, number]) => void;
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+export function ZoneOverlay({ zones, activeZoneId, draft, frameSize, onAddPoint }: ZoneOverlayProps) {
+  const { width, height } = frameSize;
+  const toSvg = (points: [number, number][]) => points.map(([x, y]) => `${x * width},${y * height}`).join(' ');
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    const svg = e.currentTarget;
+    const ctm = svg.getScreenCTM();
+    if (!ctm) return;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    onAddPoint([clamp01(point.x / width), clamp01(point.y / height)]);
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid slice"
+      onClick={handleClick}
+      className={cn("absolute inset-0 w-full h-full", draft ? "cursor-crosshair" : "pointer-events-none")}
+    >
+      {zones.map((zone) => {
+        const isActive = zone.id === activeZoneId;
+        const [labelX, labelY] = zone.points[0] ?? [0, 0];
+        return (
+          <g key={zone.id}>
+            <polygon
+              points={toSvg(zone.points)}
+              vectorEffect="non-scaling-stroke"
+              strokeWidth={isActive ? 3 : 1.5}
+              strokeDasharray={zone.kind === 'include' ? undefined : '6 4'}
+              className={cn(
+                "transition-colors",
+                zone.kind === 'privacy'
+                  ? "fill-black stroke-zinc-600"
+                  : zone.kind === 'ignore'
+                    ? "fill-black/40 stroke-zinc-400"
+                    : isActive
+                      ? "fill-red-500/20 stroke-red-500"
+                      : "fill-emerald-500/10 stroke-emerald-500"
+              )}
+            />
+            <text
+              x={labelX * width + 6}
+              y={labelY * height + height * 0.04}
+              fontSize={height * 0.03}
+              className={cn("font-mono font-bold uppercase", isActive ? "fill-red-400" : "fill-white/70")}
+            >
+              {zone.name}
+            </text>
+          </g>
+        );
+      })}
+
+      {draft && (
+        <g>
+          <polyline
+            points={toSvg(draft.points)}
+            vectorEffect="non-scaling-stroke"
+            strokeWidth={2}
+            className={cn("fill-none", draft.kind === 'include' ? "stroke-emerald-400" : "stroke-zinc-300")}
+          />
+          {draft.points.map(([x, y], i) => (
+            <circle key={i} cx={x * width} cy={y * height} r={height * 0.008} className="fill-white" />
+          ))}
+        </g>
+      )}
+    </svg>
+  );
+}
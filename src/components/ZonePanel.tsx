@@ -0,0 +1,131 @@
+import { EyeOff, Lock, Plus, ScanLine, Trash2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { Zone, ZoneKind } from '../types';
+import type { ZoneDraft } from './ZoneOverlay';
+
+const DRAFT_NAMES: Record<ZoneKind, string> = {
+  include: 'zone',
+  ignore: 'ignore mask',
+  privacy: 'privacy region',
+};
+
+const KIND_COLORS: Record<ZoneKind, string> = {
+  include: 'bg-emerald-500',
+  ignore: 'bg-zinc-500',
+  privacy: 'bg-black border border-zinc-500',
+};
+
+interface ZonePanelProps {
+  zones: Zone[];
+  onChange: (zones: Zone[]) => void;
+  draft: ZoneDraft | null;
+  canDraw: boolean;
+  onStartDraft: (kind: ZoneKind) => void;
+  onFinishDraft: () => void;
+  onCancelDraft: () => void;
+}
+
+export function ZonePanel({ zones, onChange, draft, canDraw, onStartDraft, onFinishDraft, onCancelDraft }: ZonePanelProps) {
+  const updateZone = (id: string, patch: Partial<Zone>) =>
+    onChange(zones.map(z => (z.id === id ? { ...z, ...patch } : z)));
+
+  return (
+    <div className="p-6 bg-zinc-900/50 rounded-3xl border border-white/5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-500">
+          <ScanLine className="w-4 h-4" />
+          <span className="text-[10px] uppercase font-bold tracking-widest">Detection Zones</span>
+        </div>
+        {draft ? (
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-mono text-zinc-500">{draft.points.length} points</span>
+            <button
+              onClick={onFinishDraft}
+              disabled={draft.points.length < 3}
+              className="px-3 py-1.5 bg-emerald-500 text-black rounded-lg text-[10px] font-bold uppercase tracking-widest disabled:opacity-30 transition-opacity"
+            >
+              Save
+            </button>
+            <button
+              onClick={onCancelDraft}
+              className="px-3 py-1.5 bg-white/5 text-zinc-400 hover:text-white rounded-lg text-[10px] font-bold uppercase tracking-widest border border-white/10 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onStartDraft('include')}
+              disabled={!canDraw}
+              className="px-3 py-1.5 bg-white/5 text-zinc-300 hover:text-white rounded-lg text-[10px] font-bold uppercase tracking-widest border border-white/10 flex items-center gap-1.5 disabled:opacity-30 transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+              Zone
+            </button>
+            <button
+              onClick={() => onStartDraft('ignore')}
+              disabled={!canDraw}
+              className="px-3 py-1.5 bg-white/5 text-zinc-300 hover:text-white rounded-lg text-[10px] font-bold uppercase tracking-widest border border-white/10 flex items-center gap-1.5 disabled:opacity-30 transition-colors"
+            >
+              <EyeOff className="w-3 h-3" />
+              Mask
+            </button>
+            <button
+              onClick={() => onStartDraft('privacy')}
+              disabled={!canDraw}
+              className="px-3 py-1.5 bg-white/5 text-zinc-300 hover:text-white rounded-lg text-[10px] font-bold uppercase tracking-widest border border-white/10 flex items-center gap-1.5 disabled:opacity-30 transition-colors"
+            >
+              <Lock className="w-3 h-3" />
+              Privacy
+            </button>
+          </div>
+        )}
+      </div>
+
+      {draft ? (
+        <p className="text-xs text-zinc-500">Click on the live feed to place the corners of the {DRAFT_NAMES[draft.kind]}.</p>
+      ) : zones.length === 0 ? (
+        <p className="text-xs text-zinc-500">
+          The whole frame is watched. {canDraw ? "Add zones to watch specific areas, masks to ignore them, or privacy regions to black them out of every saved or analyzed frame." : "Start the feed to draw zones."}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {zones.map((zone) => (
+            <div key={zone.id} className="flex items-center gap-3 p-3 bg-black/40 rounded-2xl border border-white/5">
+              <div className={cn("w-2 h-2 rounded-full shrink-0", KIND_COLORS[zone.kind])} />
+              <input
+                value={zone.name}
+                onChange={(e) => updateZone(zone.id, { name: e.target.value })}
+                className="w-28 bg-transparent text-xs font-bold text-zinc-300 focus:outline-none"
+              />
+              {zone.kind === 'include' ? (
+                <>
+                  <input
+                    type="range"
+                    min="1"
+                    max="99"
+                    value={zone.sensitivity}
+                    onChange={(e) => updateZone(zone.id, { sensitivity: parseInt(e.target.value) })}
+                    className="flex-1 h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                  />
+                  <span className="w-8 text-right text-[10px] font-mono text-emerald-500">{zone.sensitivity}%</span>
+                </>
+              ) : (
+                <span className="flex-1 text-[10px] uppercase font-bold tracking-widest text-zinc-600">
+                  {zone.kind === 'privacy' ? "Blacked out" : "Ignored"}
+                </span>
+              )}
+              <button
+                onClick={() => onChange(zones.filter(z => z.id !== zone.id))}
+                className="p-1 text-zinc-600 hover:text-red-500 transition-colors"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { hammingDistance, hashImage } from './phash';
+import type { Detector, DetectorInput } from './detectors';
+import type { DetectionResult } from '../types';
+
+/**
+ * Sits in front of a detector: one frame is analyzed at a time, a burst of
+ * frames collapses to the newest one waiting, and a frame that looks the same
+ * as the last analyzed one gets that frame's verdict instead of costing
+ * another call. Repeating the verdict keeps rules that need someone to stay
+ * in view for several frames counting while the scene holds still.
+ */
+
+const DUPLICATE_DISTANCE = 3; // dHash bits; stricter than false-positive matching so someone stepping in still counts
+const DUPLICATE_WINDOW = 10000; // After this long the scene is analyzed again even if it looks unchanged
+
+export interface QueueStats {
+  submitted: number;
+  analyzed: number;
+  /** Replaced by a newer frame before they were analyzed. */
+  coalesced: number;
+  duplicates: number;
+  failed: number;
+}
+
+// Shared by every camera's queue and counted since the page loaded
+const stats: QueueStats = { submitted: 0, analyzed: 0, coalesced: 0, duplicates: 0, failed: 0 };
+
+export const getQueueStats = (): QueueStats => ({ ...stats });
+
+export interface AnalysisQueue {
+  /** Resolves with the verdict, or null when the frame was coalesced into a newer one. A duplicate gets the last verdict again. */
+  submit: (input: DetectorInput) => Promise<DetectionResult | null>;
+}
+
+interface Job {
+  input: DetectorInput;
+  resolve: (result: DetectionResult | null) => void;
+  reject: (err: unknown) => void;
+}
+
+export function createAnalysisQueue(detector: Detector, onBusyChange?: (busy: boolean) => void): AnalysisQueue {
+  let pending: Job | null = null;
+  let running = false;
+  let last: { phash: string; at: number; result: DetectionResult } | null = null;
+
+  const run = async ({ input, resolve, reject }: Job) => {
+    try {
+      // A frame that can't be hashed is simply never treated as a duplicate
+      const phash = input.phash ?? await hashImage(input.image).catch(() => null);
+      const now = Date.now();
+      if (phash && last && now - last.at <= DUPLICATE_WINDOW && hammingDistance(phash, last.phash) <= DUPLICATE_DISTANCE) {
+        stats.duplicates++;
+        resolve(last.result);
+        return;
+      }
+      const result = await detector.detect(input);
+      stats.analyzed++;
+      if (phash) last = { phash, at: now, result };
+      resolve(result);
+    } catch (err) {
+      stats.failed++;
+      reject(err);
+    }
+  };
+
+  const drain = async () => {
+    if (running) return;
+    running = true;
+    onBusyChange?.(true);
+    while (pending) {
+      const job = pending;
+      pending = null;
+      await run(job);
+    }
+    running = false;
+    onBusyChange?.(false);
+  };
+
+  const submit = (input: DetectorInput) => new Promise<DetectionResult | null>((resolve, reject) => {
+    stats.submitted++;
+    if (pending) {
+      stats.coalesced++;
+      pending.resolve(null);
+    }
+    pending = { input, resolve, reject };
+    void drain();
+  });
+
+  return { submit };
+}
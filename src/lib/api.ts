@@ -0,0 +1,288 @@
+import type {
+  AlarmState,
+  AnalysisResult,
+  ArmedMode,
+  AuditEntry,
+  CameraLevels,
+  Detection,
+  DetectionEvent,
+  EventPage,
+  EventQuery,
+  EventLabel,
+  EventRecord,
+  IgnoredFrame,
+  ImportResult,
+  Incident,
+  IncidentPage,
+  LabelStats,
+  Notifier,
+  SearchResponse,
+  SecurityState,
+  SessionInfo,
+  StreamStatus,
+  EventSource,
+  TriggerSource,
+  UsageSummary,
+  User,
+  UserRole,
+} from '../types';
+
+/** A non-2xx response; `retryAfter` is in seconds when the server asked the client to back off. */
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfter?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+let onSignedOut = () => {};
+
+/** Called whenever the server answers that the session is gone, e.g. it expired or the password changed. */
+export function setSignedOutHandler(handler: () => void) {
+  onSignedOut = handler;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (res.status === 401) onSignedOut();
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    const retryAfter = Number(res.headers.get('Retry-After')) || undefined;
+    throw new ApiError(body.error || `${init?.method ?? 'GET'} ${url} failed with ${res.status}`, res.status, retryAfter);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+function sendJson<T>(method: string, url: string, body: unknown) {
+  return request<T>(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function toQueryString(query: object) {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
+export function parseEvent(record: EventRecord): DetectionEvent {
+  return { ...record, timestamp: new Date(record.timestamp) };
+}
+
+export function requestAnalysis(image: string, triggerSource: TriggerSource, cameraId?: string) {
+  return sendJson<AnalysisResult>('POST', '/api/analyze', { image, triggerSource, cameraId });
+}
+
+export interface NewEvent {
+  image: string;
+  reason: string;
+  triggerSource: EventSource;
+  /** Everything but watchdog reports is an alert. */
+  isSuspicious?: boolean;
+  zone?: string;
+  cameraId?: string;
+  detections?: Detection[];
+  /** Name of the rule that raised the event. */
+  rule?: string;
+  /** Send the event to the configured webhook, email and push destinations. */
+  notify?: boolean;
+  phash?: string;
+  caption?: string;
+  tags?: string[];
+}
+
+export async function saveEvent(event: NewEvent) {
+  return parseEvent(await sendJson<EventRecord>('POST', '/api/events', { isSuspicious: true, ...event }));
+}
+
+export async function uploadClip(id: string, clip: Blob) {
+  return parseEvent(await request<EventRecord>(`/api/events/${encodeURIComponent(id)}/clip`, {
+    method: 'PUT',
+    // Codec parameters such as "codecs=vp9,opus" are not valid in a Content-Type header
+    headers: { 'Content-Type': clip.type.split(';')[0] },
+    body: clip,
+  }));
+}
+
+export async function listEvents(query: EventQuery = {}): Promise<EventPage> {
+  const page = await request<{ events: EventRecord[]; total: number }>(`/api/events${toQueryString(query)}`);
+  return { events: page.events.map(parseEvent), total: page.total };
+}
+
+/** Ranked natural-language search; the browser's time zone resolves phrases like "last night". */
+export function searchEvents(q: string, filters: Pick<EventQuery, 'cameraId' | 'from' | 'to'> = {}) {
+  const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return request<SearchResponse>(`/api/events/search${toQueryString({ ...filters, q, tz })}`);
+}
+
+/** `null` clears the label. */
+export async function labelEvent(id: string, label: EventLabel | null) {
+  return parseEvent(await sendJson<EventRecord>('PUT', `/api/events/${encodeURIComponent(id)}/label`, { label }));
+}
+
+export function listIgnoredFrames() {
+  return request<IgnoredFrame[]>('/api/events/ignored');
+}
+
+export function getLabelStats(query: Pick<EventQuery, 'cameraId' | 'from' | 'to'> = {}) {
+  return request<LabelStats[]>(`/api/events/stats${toQueryString(query)}`);
+}
+
+/** Download URL for the snapshot with the event's metadata embedded. */
+export function frameUrl(id: string) {
+  return `/api/events/${encodeURIComponent(id)}/frame`;
+}
+
+/** Download URLs for the events matching the filters: `tar` is an importable archive with media, `csv` a spreadsheet. */
+export function exportUrl(format: 'tar' | 'csv', filters: Pick<EventQuery, 'cameraId' | 'from' | 'to'> = {}) {
+  return `/api/events/export.${format}${toQueryString(filters)}`;
+}
+
+export function importArchive(archive: File) {
+  return request<ImportResult>('/api/events/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-tar' },
+    body: archive,
+  });
+}
+
+export function deleteEvent(id: string) {
+  return request<void>(`/api/events/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/** Deletes every event in the range, or the whole archive when no range is given. */
+export function deleteEvents(range: Pick<EventQuery, 'from' | 'to'> = {}) {
+  return request<{ deleted: number }>(`/api/events${toQueryString(range)}`, { method: 'DELETE' });
+}
+
+export function listIncidents(query: EventQuery = {}) {
+  return request<IncidentPage>(`/api/incidents${toQueryString(query)}`);
+}
+
+/** Has the AI write (or rewrite) the incident's report. */
+export function generateIncidentReport(id: string) {
+  return request<Incident>(`/api/incidents/${encodeURIComponent(id)}/report`, { method: 'POST' });
+}
+
+/** Standalone HTML report; `print` opens it with the print dialog for saving as PDF. */
+export function incidentReportUrl(id: string, print = false) {
+  return `/api/incidents/${encodeURIComponent(id)}/report.html${print ? '?print=1' : ''}`;
+}
+
+export function getSetting<T>(key: string) {
+  return request<T>(`/api/settings/${key}`);
+}
+
+export function putSetting<T>(key: string, value: T) {
+  return sendJson<T>('PUT', `/api/settings/${key}`, value);
+}
+
+export function getSecurity() {
+  return request<SecurityState>('/api/security');
+}
+
+export function armSystem(mode: ArmedMode) {
+  return sendJson<SecurityState>('POST', '/api/security/arm', { mode });
+}
+
+export function disarmSystem(pin: string) {
+  return sendJson<SecurityState>('POST', '/api/security/disarm', { pin });
+}
+
+/** Silences an alarm without disarming; `detail` is kept in the audit trail. */
+export function dismissAlarm(pin: string, detail?: string) {
+  return sendJson<void>('POST', '/api/security/dismiss', { pin, detail });
+}
+
+export interface SecurityConfig {
+  /** Current PIN, required once one is set. */
+  pin: string;
+  entryDelay: number;
+  exitDelay: number;
+  /** Replacement PIN; an empty string removes it. */
+  newPin?: string;
+}
+
+export function updateSecurity(config: SecurityConfig) {
+  return sendJson<SecurityState>('PUT', '/api/security/config', config);
+}
+
+export function getAlarm() {
+  return request<AlarmState | null>('/api/security/alarm');
+}
+
+/** Starts the shared entry-delay countdown, or returns the alarm already running. */
+export function raiseAlarm(cameraId: string, zone: string | null) {
+  return sendJson<AlarmState>('POST', '/api/security/alarm', { cameraId, zone });
+}
+
+export function listAudit(query: Pick<EventQuery, 'limit' | 'offset'> = {}) {
+  return request<{ entries: AuditEntry[]; total: number }>(`/api/security/audit${toQueryString(query)}`);
+}
+
+/** Sends a sample alert to a destination, which need not be saved yet. */
+export function testNotifier(notifier: Notifier) {
+  return sendJson<void>('POST', '/api/notifications/test', notifier);
+}
+
+export function getUsage() {
+  return request<UsageSummary>('/api/usage');
+}
+
+/** State of every camera the server watches itself. */
+export function listStreams() {
+  return request<StreamStatus[]>('/api/streams');
+}
+
+/** MJPEG feed of a server-watched camera, for an <img>; `session` forces a fresh connection. */
+export const streamUrl = (cameraId: string, session = 0) =>
+  `/api/streams/${encodeURIComponent(cameraId)}/live${session ? `?session=${session}` : ''}`;
+
+/** Shares a camera's meters with other open dashboards. */
+export function reportLevels(levels: CameraLevels) {
+  return sendJson<void>('POST', '/api/live/levels', levels);
+}
+
+/** Answers a snapshot request with a current frame from a camera this device runs. */
+export function shareSnapshot(cameraId: string, image: string) {
+  return sendJson<void>('POST', '/api/live/snapshot', { cameraId, image });
+}
+
+export function getSession() {
+  return request<SessionInfo>('/api/auth/session');
+}
+
+export function signIn(username: string, password: string) {
+  return sendJson<User>('POST', '/api/auth/login', { username, password });
+}
+
+/** Creates the first account, an admin, and signs it in. */
+export function createFirstAccount(username: string, password: string) {
+  return sendJson<User>('POST', '/api/auth/setup', { username, password });
+}
+
+export function signOut() {
+  return sendJson<void>('POST', '/api/auth/logout', {});
+}
+
+export function listUsers() {
+  return request<User[]>('/api/users');
+}
+
+export function createUser(username: string, password: string, role: UserRole) {
+  return sendJson<User>('POST', '/api/users', { username, password, role });
+}
+
+/** A new password signs that user out on every device. */
+export function updateUser(id: string, changes: { role?: UserRole; password?: string }) {
+  return sendJson<User>('PUT', `/api/users/${id}`, changes);
+}
+
+export function deleteUser(id: string) {
+  return request<void>(`/api/users/${id}`, { method: 'DELETE' });
+}
@@ -0,0 +1,251 @@
+import type { SoundClass } from '../types';
+
+/**
+ * Rule-based sound classifier over `AnalyserNode` spectra. Loud passages are
+ * cut into segments, each summarized by a few spectral features and scored
+ * against a hand-tuned profile per class. Footsteps are recognized from the
+ * rhythm of recent short impacts rather than from a single segment.
+ */
+
+export const SOUND_LABELS: Record<SoundClass, string> = {
+  'glass-break': 'Glass break',
+  scream: 'Scream',
+  footsteps: 'Footsteps',
+  speech: 'Speech',
+  'dog-bark': 'Dog bark',
+  alarm: 'Alarm',
+  bang: 'Door slam / bang',
+};
+
+/** Used by cameras that haven't picked classes; speech is left out because people talk at home. */
+export const DEFAULT_SOUND_CLASSES: SoundClass[] = ['glass-break', 'scream', 'footsteps', 'dog-bark', 'alarm', 'bang'];
+
+export interface SoundEvent {
+  label: SoundClass;
+  confidence: number;
+}
+
+export interface AudioClassifier {
+  /**
+   * Feeds one byte frequency spectrum. `gate` is the level (0-100, like the
+   * audio meter) a sound must exceed to be classified at all. Returns an event
+   * when a loud segment ends, or when it has run long enough to judge.
+   */
+  push: (spectrum: Uint8Array, sampleRate: number, gate: number, time: number) => SoundEvent | null;
+  reset: () => void;
+}
+
+// --- Tuning ---
+
+const SEGMENT_END_SILENCE = 150; // ms below the gate that closes a segment
+const MAX_SEGMENT = 3000; // Sustained sounds (alarms, screams) are judged after this long
+const FRAME_DURATION = 16; // Roughly one animation frame, the duration of a single-frame segment
+const IMPULSE_WINDOW = 4000; // How far back short impacts count towards footsteps
+const MIN_CONFIDENCE = 0.75;
+
+interface FrameFeatures {
+  time: number;
+  /** Total power, linear. */
+  energy: number;
+  /** Hz */
+  centroid: number;
+  /** Share of the power in the strongest bin: high for tones and whistles, tiny for noise. */
+  tonality: number;
+  /** Frequency of the strongest bin, Hz. */
+  dominant: number;
+  /** Share of the power below 500 Hz and above 3 kHz. */
+  low: number;
+  high: number;
+}
+
+interface SegmentSummary {
+  duration: number;
+  centroid: number;
+  tonality: number;
+  dominant: number;
+  /** Relative spread of the dominant frequency; steady tones are near 0. */
+  spread: number;
+  low: number;
+  high: number;
+  /** 0..1, how abruptly the segment rose above the quiet floor before it. */
+  attack: number;
+  /** Loudness bursts per second, e.g. syllables. */
+  rate: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+
+// 1 inside [lo, hi], falling linearly to 0 over `soft` outside it
+const within = (x: number, lo: number, hi: number, soft: number) =>
+  x < lo ? Math.max(0, 1 - (lo - x) / soft) : x > hi ? Math.max(0, 1 - (x - hi) / soft) : 1;
+
+function measure(spectrum: Uint8Array, sampleRate: number, time: number): FrameFeatures {
+  const binWidth = sampleRate / 2 / spectrum.length;
+  let energy = 0, weighted = 0, peak = 0, peakBin = 1, low = 0, high = 0;
+
+  // Bytes span the analyser's 70 dB default range; bin 0 is DC and skipped
+  for (let i = 1; i < spectrum.length; i++) {
+    const power = 10 ** ((spectrum[i] / 255) * 7);
+    const frequency = i * binWidth;
+    energy += power;
+    weighted += power * frequency;
+    if (power > peak) {
+      peak = power;
+      peakBin = i;
+    }
+    if (frequency < 500) low += power;
+    else if (frequency > 3000) high += power;
+  }
+
+  return {
+    time,
+    energy,
+    centroid: weighted / energy,
+    tonality: peak / energy,
+    dominant: peakBin * binWidth,
+    low: low / energy,
+    high: high / energy,
+  };
+}
+
+function summarize(frames: FrameFeatures[], floor: number): SegmentSummary {
+  const start = frames[0].time;
+  const duration = frames[frames.length - 1].time - start + FRAME_DURATION;
+  const dominants = frames.map(f => f.dominant);
+  const dominant = mean(dominants);
+  const spread = Math.sqrt(mean(dominants.map(d => (d - dominant) ** 2))) / dominant;
+
+  const early = Math.max(...frames.filter(f => f.time - start <= 50).map(f => f.energy));
+  const attackDb = 10 * Math.log10(early / Math.max(floor, 1));
+
+  // Count rises to within 6 dB of the loudest frame after dropping 12 dB below it
+  const peakDb = 10 * Math.log10(Math.max(...frames.map(f => f.energy)));
+  let bursts = 0;
+  let isUp = false;
+  frames.forEach(f => {
+    const db = 10 * Math.log10(f.energy);
+    if (!isUp && db > peakDb - 6) {
+      bursts++;
+      isUp = true;
+    } else if (isUp && db < peakDb - 12) {
+      isUp = false;
+    }
+  });
+
+  return {
+    duration,
+    centroid: mean(frames.map(f => f.centroid)),
+    tonality: mean(frames.map(f => f.tonality)),
+    dominant,
+    spread,
+    low: mean(frames.map(f => f.low)),
+    high: mean(frames.map(f => f.high)),
+    attack: Math.min(1, Math.max(0, attackDb / 20)),
+    rate: bursts / (duration / 1000),
+  };
+}
+
+const isImpulse = (s: SegmentSummary) => s.duration < 250 && s.attack > 0.4 && s.centroid < 2000;
+
+function scoreSegment(s: SegmentSummary): Record<Exclude<SoundClass, 'footsteps'>, number> {
+  return {
+    alarm: mean([
+      within(s.duration, 1000, Infinity, 600),
+      within(s.tonality, 0.15, 1, 0.1),
+      within(s.dominant, 900, 4500, 500),
+      within(s.spread, 0, 0.2, 0.2),
+    ]),
+    scream: mean([
+      within(s.duration, 400, Infinity, 300),
+      within(s.tonality, 0.08, 1, 0.06),
+      within(s.dominant, 500, 3000, 400),
+      within(s.spread, 0.05, 0.4, 0.1),
+      within(s.rate, 0, 1.5, 1.5),
+    ]),
+    speech: mean([
+      within(s.duration, 600, Infinity, 400),
+      within(s.centroid, 300, 2500, 500),
+      within(s.rate, 2, 8, 2),
+      within(s.tonality, 0.01, 0.2, 0.05),
+    ]),
+    'dog-bark': mean([
+      within(s.duration, 80, 450, 150),
+      within(s.dominant, 250, 1500, 300),
+      within(s.tonality, 0.1, 1, 0.05),
+      within(s.attack, 0.5, 1, 0.4),
+    ]),
+    bang: mean([
+      within(s.duration, 0, 400, 300),
+      within(s.attack, 0.6, 1, 0.4),
+      within(s.low, 0.4, 1, 0.3),
+      within(s.tonality, 0, 0.03, 0.04),
+      within(s.high, 0, 0.3, 0.2),
+    ]),
+    'glass-break': mean([
+      within(s.duration, 100, 1500, 300),
+      within(s.attack, 0.5, 1, 0.4),
+      within(s.high, 0.35, 1, 0.2),
+      within(s.tonality, 0, 0.03, 0.04),
+    ]),
+  };
+}
+
+// Footsteps are a run of short, low impacts at a walking pace
+function scoreFootsteps(impulses: number[], s: SegmentSummary) {
+  const gaps = impulses.slice(1).map((t, i) => t - impulses[i]).sort((a, b) => a - b);
+  const medianGap = gaps.length ? gaps[Math.floor(gaps.length / 2)] : 0;
+  return mean([
+    within(impulses.length, 3, Infinity, 2),
+    within(medianGap, 250, 1200, 300),
+    within(s.centroid, 0, 1500, 800),
+  ]);
+}
+
+export function createAudioClassifier(): AudioClassifier {
+  let segment: FrameFeatures[] = [];
+  let lastLoud = 0;
+  let floor = 0; // Energy of the quiet background, tracked between segments
+  let impulses: number[] = [];
+
+  const classify = (time: number): SoundEvent | null => {
+    const summary = summarize(segment, floor);
+    segment = [];
+
+    const scores: Partial<Record<SoundClass, number>> = scoreSegment(summary);
+    if (isImpulse(summary)) {
+      impulses = [...impulses.filter(t => time - t <= IMPULSE_WINDOW), time];
+      scores.footsteps = scoreFootsteps(impulses, summary);
+    }
+
+    const [label, confidence] = (Object.entries(scores) as [SoundClass, number][])
+      .reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+    return confidence >= MIN_CONFIDENCE ? { label, confidence } : null;
+  };
+
+  const push = (spectrum: Uint8Array, sampleRate: number, gate: number, time: number) => {
+    let max = 0;
+    for (const value of spectrum) max = Math.max(max, value);
+    const level = (max / 255) * 100;
+    const frame = measure(spectrum, sampleRate, time);
+
+    if (level > gate) {
+      lastLoud = time;
+      segment.push(frame);
+      return time - segment[0].time >= MAX_SEGMENT ? classify(time) : null;
+    }
+
+    if (!segment.length) {
+      floor = floor ? floor + 0.1 * (frame.energy - floor) : frame.energy;
+      return null;
+    }
+    return time - lastLoud >= SEGMENT_END_SILENCE ? classify(time) : null;
+  };
+
+  const reset = () => {
+    segment = [];
+    impulses = [];
+    floor = 0;
+  };
+
+  return { push, reset };
+}
@@ -0,0 +1,18 @@
+import type { Camera } from '../types';
+
+export const DEFAULT_CAMERA_SETTINGS = {
+  sensitivity: 85,
+  audioSensitivity: 60,
+  isSmartGuard: true,
+  zones: [],
+};
+
+export function createCamera(name: string, deviceId = '', audioDeviceId?: string): Camera {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    deviceId,
+    audioDeviceId,
+    ...DEFAULT_CAMERA_SETTINGS,
+  };
+}
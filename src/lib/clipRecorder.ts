@@ -0,0 +1,117 @@
+/**
+ * Rolling MediaRecorder buffer that can cut a clip spanning a pre-roll before
+ * an alert through a post-roll after it.
+ *
+ * MediaRecorder only writes the container header into its first chunk, so that
+ * chunk is kept for the lifetime of the recorder and prepended to every clip.
+ * Later chunks are pruned once they fall out of the pre-roll window.
+ */
+
+const CHUNK_MS = 1000;
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+
+interface Chunk {
+  data: Blob;
+  at: number;
+}
+
+export interface ClipRecorder {
+  /** Resolves with a clip from `preRollMs` before now to `postRollMs` after now. */
+  capture: (postRollMs: number) => Promise<Blob>;
+  stop: () => void;
+}
+
+export function createClipRecorder(stream: MediaStream, preRollMs: number): ClipRecorder | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) return null;
+
+  const recorder = new MediaRecorder(stream, { mimeType });
+  let header: Blob | null = null;
+  let chunks: Chunk[] = [];
+  const listeners = new Set<(chunk: Chunk | null) => void>();
+
+  recorder.ondataavailable = (e) => {
+    if (!e.data.size) return;
+    const chunk = { data: e.data, at: Date.now() };
+    if (!header) {
+      header = chunk.data;
+    } else {
+      chunks.push(chunk);
+      // Keep one extra chunk so the window always reaches back a full pre-roll
+      chunks = chunks.filter(c => c.at >= chunk.at - preRollMs - CHUNK_MS);
+    }
+    listeners.forEach(listener => listener(chunk));
+  };
+  recorder.onstop = () => {
+    listeners.forEach(listener => listener(null));
+  };
+  recorder.start(CHUNK_MS);
+
+  const capture = (postRollMs: number) => new Promise<Blob>((resolve) => {
+    const start = Date.now();
+    const parts: Blob[] = chunks.filter(c => c.at >= start - preRollMs).map(c => c.data);
+
+    const finish = () => {
+      listeners.delete(onChunk);
+      resolve(new Blob(header ? [header, ...parts] : parts, { type: mimeType }));
+    };
+    const onChunk = (chunk: Chunk | null) => {
+      if (!chunk) return finish();
+      if (chunk.data !== header) parts.push(chunk.data);
+      if (chunk.at >= start + postRollMs) finish();
+    };
+    if (recorder.state === 'inactive') return finish();
+    listeners.add(onChunk);
+  });
+
+  const stop = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  return { capture, stop };
+}
+
+export interface MaskedStream {
+  /** The camera's audio with video painted from `draw`, to record in place of the camera stream. */
+  stream: MediaStream;
+  /** Paints one frame with `polygons` (normalized 0..1 points) blacked out. */
+  draw: (frame: CanvasImageSource, polygons: [number, number][][]) => void;
+  stop: () => void;
+}
+
+/**
+ * Routes a camera's video through a canvas, so privacy regions are blacked
+ * out of recorded clips as they are out of snapshots. The canvas only
+ * produces a frame when `draw` is called.
+ */
+export function createMaskedStream(stream: MediaStream, width: number, height: number): MaskedStream | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || typeof canvas.captureStream !== 'function') return null;
+  const [video] = canvas.captureStream().getVideoTracks();
+
+  const draw = (frame: CanvasImageSource, polygons: [number, number][][]) => {
+    ctx.drawImage(frame, 0, 0, width, height);
+    ctx.fillStyle = '#000';
+    for (const points of polygons) {
+      ctx.beginPath();
+      points.forEach(([x, y], i) => (i ? ctx.lineTo(x * width, y * height) : ctx.moveTo(x * width, y * height)));
+      ctx.closePath();
+      ctx.fill();
+    }
+  };
+
+  return {
+    stream: new MediaStream([video, ...stream.getAudioTracks()]),
+    draw,
+    stop: () => video.stop(),
+  };
+}
@@ -0,0 +1,177 @@
+import type { ObjectDetection } from '@tensorflow-models/coco-ssd';
+import { ApiError, requestAnalysis } from './api';
+import type { DetectionResult, DetectorMode, TriggerSource } from '../types';
+
+export interface DetectorInput {
+  /** JPEG data URL of the frame. */
+  image: string;
+  triggerSource: TriggerSource;
+  /** Lets the server pick this camera's reported false positives as examples. */
+  cameraId?: string;
+  /** dHash of the frame when the caller already has it, e.g. the server, which has no canvas to hash with. */
+  phash?: string;
+}
+
+export interface Detector {
+  name: string;
+  detect: (input: DetectorInput) => Promise<DetectionResult>;
+}
+
+export const DEFAULT_DETECTOR: DetectorMode = 'gemini-fallback';
+
+export const DETECTOR_MODES: { id: DetectorMode; label: string }[] = [
+  { id: 'gemini-fallback', label: 'Gemini, on-device if offline' },
+  { id: 'local-gate', label: 'On-device gate, Gemini confirms' },
+  { id: 'gemini', label: 'Gemini only' },
+  { id: 'local', label: 'On-device only' },
+];
+
+// --- Gemini ---
+
+const RETRY_DELAYS = [1000, 3000, 8000];
+// Longer waits (e.g. a spent daily budget) fail instead, so a fallback detector can take over
+const MAX_RETRY_AFTER = 15;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Network failures, rate limits and gateway errors are worth another try; bad requests are not
+function retryDelay(err: unknown, attempt: number) {
+  if (attempt >= RETRY_DELAYS.length) return null;
+  if (err instanceof TypeError) return RETRY_DELAYS[attempt];
+  if (!(err instanceof ApiError) || (err.status !== 429 && err.status < 502)) return null;
+  if (err.retryAfter === undefined) return RETRY_DELAYS[attempt];
+  return err.retryAfter <= MAX_RETRY_AFTER ? Math.max(err.retryAfter * 1000, RETRY_DELAYS[attempt]) : null;
+}
+
+export const geminiDetector: Detector = {
+  name: 'gemini',
+  detect: async ({ image, triggerSource, cameraId }) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        // Gemini is called by the server so the API key never ships to the browser
+        const result = await requestAnalysis(image, triggerSource, cameraId);
+        return { ...result, detector: 'gemini' };
+      } catch (err) {
+        const delay = retryDelay(err, attempt);
+        if (delay === null) throw err;
+        await sleep(delay);
+      }
+    }
+  },
+};
+
+// --- On-device (COCO-SSD) ---
+
+// Served from public/ after `npm run fetch-model`; otherwise the hosted copy is used
+const LOCAL_MODEL_URL = '/models/coco-ssd/model.json';
+const MIN_PERSON_CONFIDENCE = 0.5;
+
+let modelPromise: Promise<ObjectDetection> | null = null;
+
+function loadModel() {
+  if (!modelPromise) {
+    // TF.js is only downloaded the first time a camera actually needs it
+    modelPromise = Promise.all([
+      import('@tensorflow-models/coco-ssd'),
+      import('@tensorflow/tfjs-backend-webgl'),
+    ]).then(async ([cocoSsd]) => {
+      try {
+        return await cocoSsd.load({ base: 'lite_mobilenet_v2', modelUrl: LOCAL_MODEL_URL });
+      } catch {
+        return cocoSsd.load({ base: 'lite_mobilenet_v2' });
+      }
+    });
+    // Let the next frame retry instead of caching a failure forever
+    modelPromise.catch(() => { modelPromise = null; });
+  }
+  return modelPromise;
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+async function decode(image: string) {
+  const img = new Image();
+  img.src = image;
+  await img.decode();
+  return img;
+}
+
+export const localDetector: Detector = {
+  name: 'local',
+  detect: async ({ image }) => {
+    const [model, img] = await Promise.all([loadModel(), decode(image)]);
+    const { naturalWidth: width, naturalHeight: height } = img;
+    const detections = (await model.detect(img)).map(({ class: label, score, bbox: [x, y, w, h] }) => ({
+      label,
+      confidence: score,
+      box: [x / width, y / height, w / width, h / height].map(clamp01) as [number, number, number, number],
+    }));
+
+    const person = detections
+      .filter(d => d.label === 'person' && d.confidence >= MIN_PERSON_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence)[0];
+
+    return {
+      isSuspicious: Boolean(person),
+      reason: person
+        ? `Person detected on-device (${Math.round(person.confidence * 100)}% confidence)`
+        : detections.length
+          ? `No person; saw ${[...new Set(detections.map(d => d.label))].join(', ')}`
+          : "No objects detected",
+      detections,
+      detector: 'local',
+    };
+  },
+};
+
+// --- Composition ---
+
+/** Uses `primary`, and `fallback` only when `primary` throws. */
+export function withFallback(primary: Detector, fallback: Detector): Detector {
+  return {
+    name: `${primary.name}>${fallback.name}`,
+    detect: async (input) => {
+      try {
+        return await primary.detect(input);
+      } catch (err) {
+        console.warn(`${primary.name} detector failed, falling back to ${fallback.name}:`, err);
+        return fallback.detect(input);
+      }
+    },
+  };
+}
+
+/**
+ * Runs the cheap `gate` first and only asks `confirm` about frames the gate
+ * flags. If `confirm` fails, the gate's verdict stands.
+ */
+export function withGate(gate: Detector, confirm: Detector): Detector {
+  return {
+    name: `${gate.name}+${confirm.name}`,
+    detect: async (input) => {
+      const gated = await gate.detect(input);
+      if (!gated.isSuspicious) return gated;
+      try {
+        const confirmed = await confirm.detect(input);
+        // Keep the gate's boxes when the confirming detector doesn't return any
+        return confirmed.detections.length ? confirmed : { ...confirmed, detections: gated.detections };
+      } catch (err) {
+        console.warn(`${confirm.name} detector failed, keeping ${gate.name} verdict:`, err);
+        return gated;
+      }
+    },
+  };
+}
+
+export function createDetector(mode: DetectorMode = DEFAULT_DETECTOR): Detector {
+  switch (mode) {
+    case 'gemini':
+      return geminiDetector;
+    case 'local':
+      return localDetector;
+    case 'local-gate':
+      return withGate(localDetector, geminiDetector);
+    case 'gemini-fallback':
+      return withFallback(geminiDetector, localDetector);
+  }
+}
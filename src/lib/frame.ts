@@ -0,0 +1,9 @@
+// Every camera frame is scaled onto a canvas of this size before analysis,
+// so snapshots and anything drawn over them share these dimensions.
+export const FRAME_WIDTH = 640;
+export const FRAME_HEIGHT = 480;
+// Motion detection runs on a much smaller copy; each cell covers 4x4 snapshot pixels
+export const MOTION_WIDTH = 160;
+export const MOTION_HEIGHT = 120;
+// Browser cameras hand a scaled-down frame to their analysis worker this often
+export const FRAME_INTERVAL = 100;
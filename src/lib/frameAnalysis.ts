@@ -0,0 +1,81 @@
+import type { SoundEvent } from './audioClassifier';
+import type { HealthIssue } from './health';
+import type { MotionTrack } from './motion';
+import type { TamperKind } from './tamper';
+import type { SoundClass, TriggerSource, Zone } from '../types';
+
+/**
+ * Motion and audio analysis for one camera runs in a dedicated worker; the
+ * feed only hands it scaled-down frames and audio spectra and gets back
+ * throttled level updates and triggers. While a stream is watched, the worker
+ * also runs the camera's watchdog and tamper detection, and a clock the feed
+ * can follow when the tab is hidden and animation frames stop.
+ */
+
+export interface AnalyzerConfig {
+  zones: Zone[];
+  sensitivity: number;
+  audioSensitivity: number;
+  /** Classified sounds outside this list never trigger. */
+  soundClasses: SoundClass[];
+  /** Minimum milliseconds between two triggers. */
+  cooldown: number;
+}
+
+export type AnalyzerRequest =
+  | { type: 'config'; config: AnalyzerConfig }
+  /** A frame already scaled to the motion grid; ownership moves to the worker. */
+  | { type: 'frame'; frame: ImageBitmap }
+  /** Byte frequency data from the camera's AnalyserNode. */
+  | { type: 'audio'; spectrum: Uint8Array; sampleRate: number }
+  /** A stream (re)started: start the watchdog and the clock. A reconnect keeps the tamper reference. */
+  | { type: 'watch'; reconnect: boolean }
+  /** The stream stopped: clear motion state and stop watching. */
+  | { type: 'reset' };
+
+export type AnalyzerEvent =
+  | {
+    type: 'levels';
+    motion: number;
+    /** Peak audio level since the previous update. */
+    audio: number;
+    /** Blobs followed long enough to count as real movement. */
+    tracks: MotionTrack[];
+    lightingChange: boolean;
+    /** Zone id of motion seen since the previous update, `null` for the whole frame, `undefined` for none. */
+    motionZoneId: string | null | undefined;
+  }
+  /** `sound` is set for sound triggers. */
+  | { type: 'trigger'; source: TriggerSource; zoneId: string | null; sound?: SoundEvent }
+  /** Every FRAME_INTERVAL while watching; timers in a worker keep running in a hidden tab. */
+  | { type: 'tick' }
+  /** The watchdog's verdict changed: an issue, or null once the stream is confirmed fine. */
+  | { type: 'health'; issue: HealthIssue | null }
+  /** Tampering was confirmed; sent once per episode. */
+  | { type: 'tamper'; kind: TamperKind };
+
+export interface FrameAnalyzer {
+  configure: (config: AnalyzerConfig) => void;
+  sendFrame: (frame: ImageBitmap) => void;
+  sendAudio: (spectrum: Uint8Array, sampleRate: number) => void;
+  watch: (reconnect: boolean) => void;
+  reset: () => void;
+  terminate: () => void;
+}
+
+export function createFrameAnalyzer(onEvent: (event: AnalyzerEvent) => void): FrameAnalyzer {
+  const worker = new Worker(new URL('./frameAnalysis.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<AnalyzerEvent>) => onEvent(e.data);
+  worker.onerror = (err) => console.error("Frame analysis worker failed:", err);
+
+  const send = (request: AnalyzerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+  return {
+    configure: (config) => send({ type: 'config', config }),
+    sendFrame: (frame) => send({ type: 'frame', frame }, [frame]),
+    sendAudio: (spectrum, sampleRate) => send({ type: 'audio', spectrum, sampleRate }),
+    watch: (reconnect) => send({ type: 'watch', reconnect }),
+    reset: () => send({ type: 'reset' }),
+    terminate: () => worker.terminate(),
+  };
+}
@@ -0,0 +1,127 @@
+import { createAudioClassifier, DEFAULT_SOUND_CLASSES, type SoundEvent } from './audioClassifier';
+import type { MotionTrack } from './motion';
+import { createMotionTrigger } from './motionTrigger';
+import { FRAME_INTERVAL, MOTION_HEIGHT, MOTION_WIDTH } from './frame';
+import { createHealthCheck, type HealthIssue } from './health';
+import { createTamperCheck } from './tamper';
+import type { AnalyzerConfig, AnalyzerEvent, AnalyzerRequest } from './frameAnalysis';
+import type { TriggerSource } from '../types';
+
+const LEVEL_UPDATE_INTERVAL = 250; // The feed re-renders at most this often for meters and overlays
+
+const canvas = new OffscreenCanvas(MOTION_WIDTH, MOTION_HEIGHT);
+const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+const motionTrigger = createMotionTrigger(MOTION_WIDTH, MOTION_HEIGHT);
+const audioClassifier = createAudioClassifier();
+const health = createHealthCheck();
+const tamper = createTamperCheck(MOTION_WIDTH, MOTION_HEIGHT);
+
+let config: AnalyzerConfig = { zones: [], sensitivity: 50, audioSensitivity: 50, soundClasses: DEFAULT_SOUND_CLASSES, cooldown: 1000 };
+let lastTrigger = 0;
+
+// Accumulated between level updates
+let lastUpdate = 0;
+let motionLevel = 0;
+let peakAudio = 0;
+let tracks: MotionTrack[] = [];
+let lightingChange = false;
+let motionZoneId: string | null | undefined;
+
+let watchTimer: ReturnType<typeof setInterval> | undefined;
+let healthStatus: HealthIssue | null | undefined;
+
+const emit = (event: AnalyzerEvent) => postMessage(event);
+
+function trigger(source: TriggerSource, zoneId: string | null, sound?: SoundEvent) {
+  const now = Date.now();
+  if (now - lastTrigger <= config.cooldown) return;
+  lastTrigger = now;
+  emit({ type: 'trigger', source, zoneId, sound });
+}
+
+function flushLevels() {
+  const now = Date.now();
+  if (now - lastUpdate < LEVEL_UPDATE_INTERVAL) return;
+  lastUpdate = now;
+  emit({ type: 'levels', motion: motionLevel, audio: peakAudio, tracks, lightingChange, motionZoneId });
+  peakAudio = 0;
+  motionZoneId = undefined;
+}
+
+function processAudio(spectrum: Uint8Array, sampleRate: number) {
+  // The meter shows the peak bin, so sharp sounds like footsteps register
+  let max = 0;
+  for (const value of spectrum) max = Math.max(max, value);
+  peakAudio = Math.max(peakAudio, (max / 255) * 100);
+  health.audio((max / 255) * 100, Date.now());
+
+  // Sensitivity sets how loud a sound must be; the classifier decides what it was
+  const sound = audioClassifier.push(spectrum, sampleRate, 100 - config.audioSensitivity, performance.now());
+  if (sound && config.soundClasses.includes(sound.label)) trigger('sound', null, sound);
+  flushLevels();
+}
+
+function processFrame(frame: ImageBitmap) {
+  ctx.drawImage(frame, 0, 0, MOTION_WIDTH, MOTION_HEIGHT);
+  frame.close();
+
+  const pixels = ctx.getImageData(0, 0, MOTION_WIDTH, MOTION_HEIGHT).data;
+  const now = Date.now();
+  health.frame(pixels, now);
+  const tampered = tamper.frame(pixels, now);
+  if (tampered) emit({ type: 'tamper', kind: tampered });
+  const sample = motionTrigger.process(pixels);
+  tracks = sample.tracks;
+  lightingChange = sample.lightingChange;
+  motionLevel = sample.level;
+
+  // Tampering takes priority; the motion it causes would only raise duplicate alerts
+  if (sample.zoneId !== undefined && !tamper.active()) {
+    motionZoneId = sample.zoneId;
+    trigger('motion', sample.zoneId);
+  }
+  flushLevels();
+}
+
+function watch(reconnect: boolean) {
+  clearInterval(watchTimer);
+  health.reset(Date.now());
+  // A lens covered while the camera was reconnecting must still count as covered
+  if (!reconnect) tamper.reset(Date.now());
+  healthStatus = undefined;
+  watchTimer = setInterval(() => {
+    emit({ type: 'tick' });
+    const status = health.status(Date.now());
+    if (status !== undefined && status !== healthStatus) emit({ type: 'health', issue: status });
+    healthStatus = status;
+  }, FRAME_INTERVAL);
+}
+
+onmessage = (e: MessageEvent<AnalyzerRequest>) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'config':
+      config = request.config;
+      motionTrigger.configure(config.zones, config.sensitivity);
+      break;
+    case 'frame':
+      processFrame(request.frame);
+      break;
+    case 'audio':
+      processAudio(request.spectrum, request.sampleRate);
+      break;
+    case 'watch':
+      watch(request.reconnect);
+      break;
+    case 'reset':
+      clearInterval(watchTimer);
+      motionTrigger.reset();
+      audioClassifier.reset();
+      motionLevel = 0;
+      peakAudio = 0;
+      tracks = [];
+      lightingChange = false;
+      motionZoneId = undefined;
+      break;
+  }
+};
@@ -0,0 +1,98 @@
+/**
+ * Camera watchdog shared by the browser (in the frame analysis worker) and
+ * the server's stream monitor: it notices frames that stop arriving, stop
+ * changing or go black, and a microphone that goes completely silent. A black
+ * picture is reported whether or not the system is armed, and also covers a
+ * camera that was already dark when tamper detection took its reference. It
+ * is never reconnected over: a covered lens or a dark room stays black after
+ * reconnecting, and tamper detection has to keep its reference meanwhile.
+ */
+
+/** `unavailable` means the camera can't be opened at all, e.g. it was unplugged. */
+export type HealthIssue = 'unavailable' | 'stalled' | 'frozen' | 'black' | 'microphone' | 'analysis';
+
+// A problem has to last this long before it counts, and a reconnected camera has to stay fine this long to count as recovered
+export const WATCHDOG_TIMEOUT = 10_000;
+const MICROPHONE_TIMEOUT = 30_000; // Quiet rooms still have a noise floor; a dead microphone reads exactly zero
+const BLACK_LEVEL = 12; // Mean brightness (0-255) below which a frame counts as black
+export const MAX_ANALYSIS_FAILURES = 5; // Consecutive failed AI calls before the camera is reported
+
+// Reconnect delays; after RECONNECTS_BEFORE_REPORT failed attempts the camera is reported, then retried at the last delay
+export const RECONNECT_DELAYS = [2000, 5000, 15000, 30000];
+export const RECONNECTS_BEFORE_REPORT = 3;
+
+/** Whether the watchdog reopens the camera over an issue; the others are only reported. */
+export const reconnectsOver = (issue: HealthIssue) => issue !== 'black';
+
+/** What the archive says about a watchdog event; `null` is a camera that recovered. */
+export function healthReason(issue: HealthIssue | null) {
+  switch (issue) {
+    case null: return "Camera back online";
+    case 'unavailable': return "Camera offline: the device or stream can't be opened";
+    case 'stalled': return "Camera offline: no video is arriving";
+    case 'frozen': return "Camera offline: the picture is frozen";
+    case 'black': return "Possible tamper: the picture stays black";
+    case 'microphone': return "Microphone offline: no sound at all";
+    case 'analysis': return `AI analysis failed ${MAX_ANALYSIS_FAILURES} times in a row`;
+  }
+}
+
+function meanBrightness(rgba: Uint8ClampedArray) {
+  let sum = 0;
+  for (let i = 0; i < rgba.length; i += 4) sum += rgba[i] + rgba[i + 1] + rgba[i + 2];
+  return sum / (rgba.length / 4) / 3;
+}
+
+function differs(a: Uint8ClampedArray, b: Uint8ClampedArray) {
+  if (a.length !== b.length) return true;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return true;
+  }
+  return false;
+}
+
+export interface HealthCheck {
+  /** Starts watching afresh, e.g. after (re)connecting. */
+  reset: (now: number) => void;
+  /** A motion-grid RGBA frame. */
+  frame: (rgba: Uint8ClampedArray, now: number) => void;
+  /** Peak audio level (0-100); the microphone is only checked once levels arrive. */
+  audio: (level: number, now: number) => void;
+  /** `undefined` until WATCHDOG_TIMEOUT has passed since the reset, then the current issue or null. */
+  status: (now: number) => HealthIssue | null | undefined;
+}
+
+export function createHealthCheck(): HealthCheck {
+  let startedAt = 0;
+  let lastFrameAt = 0;
+  let lastChangeAt = 0;
+  let lastLitAt = 0;
+  let lastSoundAt: number | undefined;
+  let previous: Uint8ClampedArray | null = null;
+
+  return {
+    reset: (now) => {
+      startedAt = lastFrameAt = lastChangeAt = lastLitAt = now;
+      lastSoundAt = undefined;
+      previous = null;
+    },
+    frame: (rgba, now) => {
+      lastFrameAt = now;
+      if (!previous || differs(previous, rgba)) lastChangeAt = now;
+      if (meanBrightness(rgba) >= BLACK_LEVEL) lastLitAt = now;
+      previous = rgba;
+    },
+    audio: (level, now) => {
+      if (level > 0 || lastSoundAt === undefined) lastSoundAt = now;
+    },
+    status: (now) => {
+      if (now - startedAt < WATCHDOG_TIMEOUT) return undefined;
+      if (now - lastFrameAt > WATCHDOG_TIMEOUT) return 'stalled';
+      // A black frame never changes either, so black is checked first
+      if (now - lastLitAt > WATCHDOG_TIMEOUT) return 'black';
+      if (now - lastChangeAt > WATCHDOG_TIMEOUT) return 'frozen';
+      if (lastSoundAt !== undefined && now - lastSoundAt > MICROPHONE_TIMEOUT) return 'microphone';
+      return null;
+    },
+  };
+}
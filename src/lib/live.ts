@@ -0,0 +1,18 @@
+import type { LiveMessage } from '../types';
+
+/**
+ * Listens to the server's realtime channel. EventSource reconnects by itself,
+ * and the server opens every connection with the current security and alarm
+ * state, so a device that dropped off catches up without a reload.
+ */
+export function connectLive(onMessage: (message: LiveMessage) => void) {
+  const source = new EventSource('/api/live');
+  source.onmessage = (e) => {
+    try {
+      onMessage(JSON.parse(e.data));
+    } catch (err) {
+      console.error("Ignoring a malformed live message:", err);
+    }
+  };
+  return () => source.close();
+}
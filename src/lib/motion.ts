@@ -0,0 +1,221 @@
+/**
+ * Motion pipeline run on a small grayscale copy of each frame:
+ * brightness normalization → adaptive background model → foreground mask →
+ * morphological cleanup → connected-component blobs → frame-to-frame tracks.
+ */
+
+/** A connected patch of foreground; coordinates are normalized to 0..1 of the frame. */
+export interface MotionBlob {
+  box: [number, number, number, number];
+  centroid: [number, number];
+  /** Fraction of the frame covered by foreground cells of this blob. */
+  area: number;
+}
+
+export interface MotionTrack extends MotionBlob {
+  id: number;
+  /** Consecutive frames the blob has been matched. */
+  age: number;
+  /** Frames since it was last matched; the blob fields are from that frame. */
+  missed: number;
+  /** Distance the centroid has moved since the track started. */
+  travel: number;
+}
+
+export interface MotionResult {
+  /** 1 for cleaned-up foreground cells, row-major over the motion grid. */
+  mask: Uint8Array;
+  blobs: MotionBlob[];
+  /** Tracks matched in this frame. */
+  tracks: MotionTrack[];
+  /** True while a global brightness jump (lights, auto-exposure) is being absorbed. */
+  lightingChange: boolean;
+}
+
+export interface MotionDetector {
+  /** Feeds one RGBA frame of the grid size given at creation; cells set in `ignore` never count as foreground. */
+  process: (rgba: Uint8ClampedArray, ignore?: Uint8Array | null) => MotionResult;
+  reset: () => void;
+}
+
+// --- Tuning ---
+
+const WARMUP_FRAMES = 10; // Frames used to seed the background before anything counts
+const WARMUP_LEARNING_RATE = 0.3;
+const LEARNING_RATE = 0.05; // Background adaptation for pixels that look like background
+const FOREGROUND_LEARNING_RATE = 0.002; // Lets objects that stop moving fade into the background
+const MIN_PIXEL_DIFF = 18; // Gray levels; floors the per-pixel threshold in flat, noise-free areas
+const VARIANCE_FACTOR = 2.5; // Foreground when further than this many standard deviations from the mean
+const INITIAL_VARIANCE = 15 * 15;
+const LIGHTING_JUMP = 0.2; // Relative change in mean brightness treated as a lighting change
+const MIN_BLOB_AREA = 0.001; // Blobs smaller than this fraction of the frame are noise
+const MAX_BLOB_AREA = 0.6; // A blob covering most of the frame is the camera moving, not an intruder
+const MAX_TRACK_JUMP = 0.15; // Furthest a centroid may move between frames and keep its track
+const MAX_MISSED = 5; // Frames a track survives without a match
+
+export function createMotionDetector(width: number, height: number): MotionDetector {
+  const size = width * height;
+  const gray = new Float32Array(size);
+  const mean = new Float32Array(size);
+  const variance = new Float32Array(size);
+  const raw = new Uint8Array(size);
+  const scratch = new Uint8Array(size);
+  const mask = new Uint8Array(size);
+  const labels = new Int32Array(size);
+  const queue = new Int32Array(size);
+
+  let frames = 0;
+  let backgroundBrightness = 0;
+  let relearning = false;
+  let tracks: MotionTrack[] = [];
+  let nextTrackId = 1;
+
+  // 3x3 erosion keeps a cell only when its whole neighbourhood is set, dilation when any of it is;
+  // cells outside the grid count as background
+  const morph = (src: Uint8Array, dst: Uint8Array, erode: boolean) => {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let count = 0;
+        for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+          for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+            count += src[ny * width + nx];
+          }
+        }
+        dst[y * width + x] = (erode ? count === 9 : count > 0) ? 1 : 0;
+      }
+    }
+  };
+
+  const findBlobs = (): MotionBlob[] => {
+    labels.fill(0);
+    const blobs: MotionBlob[] = [];
+    let label = 0;
+
+    for (let start = 0; start < size; start++) {
+      if (!mask[start] || labels[start]) continue;
+      label++;
+      let head = 0;
+      let tail = 0;
+      queue[tail++] = start;
+      labels[start] = label;
+      let minX = width, minY = height, maxX = 0, maxY = 0, sumX = 0, sumY = 0;
+
+      while (head < tail) {
+        const i = queue[head++];
+        const x = i % width;
+        const y = (i - x) / width;
+        minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+        sumX += x; sumY += y;
+        // 8-connected neighbours
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+            const n = ny * width + nx;
+            if (mask[n] && !labels[n]) {
+              labels[n] = label;
+              queue[tail++] = n;
+            }
+          }
+        }
+      }
+
+      const area = tail / size;
+      if (area < MIN_BLOB_AREA || area > MAX_BLOB_AREA) continue;
+      blobs.push({
+        box: [minX / width, minY / height, (maxX - minX + 1) / width, (maxY - minY + 1) / height],
+        centroid: [(sumX / tail + 0.5) / width, (sumY / tail + 0.5) / height],
+        area,
+      });
+    }
+    return blobs;
+  };
+
+  // Greedy nearest-centroid matching, largest blobs first
+  const updateTracks = (blobs: MotionBlob[]) => {
+    const unmatched = new Set(tracks);
+    const matched: MotionTrack[] = [];
+
+    for (const blob of [...blobs].sort((a, b) => b.area - a.area)) {
+      let best: MotionTrack | undefined;
+      let bestDistance = MAX_TRACK_JUMP;
+      for (const track of unmatched) {
+        const distance = Math.hypot(track.centroid[0] - blob.centroid[0], track.centroid[1] - blob.centroid[1]);
+        if (distance < bestDistance) {
+          best = track;
+          bestDistance = distance;
+        }
+      }
+      if (best) {
+        unmatched.delete(best);
+        matched.push({ ...blob, id: best.id, age: best.age + 1, missed: 0, travel: best.travel + bestDistance });
+      } else {
+        matched.push({ ...blob, id: nextTrackId++, age: 1, missed: 0, travel: 0 });
+      }
+    }
+
+    const coasting = [...unmatched]
+      .map(track => ({ ...track, missed: track.missed + 1 }))
+      .filter(track => track.missed <= MAX_MISSED);
+    tracks = [...matched, ...coasting];
+    return matched;
+  };
+
+  const process = (rgba: Uint8ClampedArray, ignore?: Uint8Array | null): MotionResult => {
+    let brightness = 0;
+    for (let i = 0; i < size; i++) {
+      const j = i * 4;
+      gray[i] = rgba[j] * 0.299 + rgba[j + 1] * 0.587 + rgba[j + 2] * 0.114;
+      brightness += gray[i];
+    }
+    brightness /= size;
+
+    // A jump in overall brightness (lights, auto-exposure) re-seeds the background instead of
+    // flagging every pixel; smaller drift is normalized away by scaling to the background's level
+    const jump = frames > 0 && Math.abs(brightness / backgroundBrightness - 1) > LIGHTING_JUMP;
+    if (frames === 0 || jump) {
+      mean.set(gray);
+      variance.fill(INITIAL_VARIANCE);
+      backgroundBrightness = brightness;
+      relearning = jump;
+      frames = 0;
+    }
+    frames++;
+
+    const warmingUp = frames <= WARMUP_FRAMES;
+    if (!warmingUp) relearning = false;
+    const gain = brightness > 1 ? backgroundBrightness / brightness : 1;
+
+    for (let i = 0; i < size; i++) {
+      const value = Math.min(255, gray[i] * gain);
+      const diff = value - mean[i];
+      const threshold = Math.max(MIN_PIXEL_DIFF, VARIANCE_FACTOR * Math.sqrt(variance[i]));
+      const foreground = !warmingUp && Math.abs(diff) > threshold;
+      raw[i] = foreground && !ignore?.[i] ? 1 : 0;
+
+      const rate = warmingUp ? WARMUP_LEARNING_RATE : foreground ? FOREGROUND_LEARNING_RATE : LEARNING_RATE;
+      mean[i] += rate * diff;
+      variance[i] += rate * (diff * diff - variance[i]);
+    }
+    backgroundBrightness += LEARNING_RATE * (brightness - backgroundBrightness);
+
+    // Opening drops speckle noise, closing fills small holes inside real objects
+    morph(raw, scratch, true);
+    morph(scratch, mask, false);
+    morph(mask, scratch, false);
+    morph(scratch, mask, true);
+
+    const blobs = warmingUp ? [] : findBlobs();
+    return { mask, blobs, tracks: updateTracks(blobs), lightingChange: relearning };
+  };
+
+  const reset = () => {
+    frames = 0;
+    relearning = false;
+    tracks = [];
+  };
+
+  return { process, reset };
+}
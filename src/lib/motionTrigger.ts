@@ -0,0 +1,73 @@
+import { createMotionDetector, type MotionTrack } from './motion';
+import { buildIgnoreMask, buildZoneRegions, pointInPolygon, zoneThreshold, type ZoneRegion } from './zones';
+import type { Zone } from '../types';
+
+/**
+ * Turns the motion pipeline's output into trigger decisions per zone. Shared
+ * by the browser's analysis worker and the server's stream monitor, so a
+ * camera fires the same way wherever its frames are decoded.
+ */
+
+export interface MotionSample {
+  /** Highest share (0-100) of moving cells in any zone, or the whole frame. */
+  level: number;
+  /** Tracks old enough to count. */
+  tracks: MotionTrack[];
+  lightingChange: boolean;
+  /** Zone that fired (`null` for the whole frame), or `undefined` when nothing did. */
+  zoneId: string | null | undefined;
+}
+
+export interface MotionTrigger {
+  configure: (zones: Zone[], sensitivity: number) => void;
+  /** Feeds one RGBA frame of the grid size given at creation. */
+  process: (rgba: Uint8ClampedArray) => MotionSample;
+  reset: () => void;
+}
+
+const MIN_TRACK_AGE = 3; // Frames a blob must be followed before it can trigger, so flickers don't
+
+export function createMotionTrigger(width: number, height: number): MotionTrigger {
+  const detector = createMotionDetector(width, height);
+  let sensitivity = 50;
+  let regions: ZoneRegion[] = buildZoneRegions([], width, height);
+  let ignoreMask: Uint8Array | null = null;
+
+  const configure = (zones: Zone[], nextSensitivity: number) => {
+    sensitivity = nextSensitivity;
+    regions = buildZoneRegions(zones, width, height);
+    ignoreMask = buildIgnoreMask(zones, width, height);
+  };
+
+  const process = (rgba: Uint8ClampedArray): MotionSample => {
+    const result = detector.process(rgba, ignoreMask);
+    const tracks = result.tracks.filter(track => track.age >= MIN_TRACK_AGE);
+
+    let level = 0;
+    let fired: { region: ZoneRegion; ratio: number } | null = null;
+
+    // Each zone (or the whole frame, minus ignore masks) is measured against its own threshold,
+    // and only fires with a tracked blob centred inside it
+    for (const region of regions) {
+      let moving = 0;
+      for (const k of region.samples) moving += result.mask[k];
+
+      const regionLevel = region.samples.length ? (moving / region.samples.length) * 100 : 0;
+      const ratio = regionLevel / zoneThreshold(region.zone?.sensitivity ?? sensitivity);
+      level = Math.max(level, regionLevel);
+
+      const zone = region.zone;
+      const tracked = tracks.some(({ centroid: [x, y] }) => !zone || pointInPolygon(x, y, zone.points));
+      if (tracked && ratio > 1 && (!fired || ratio > fired.ratio)) fired = { region, ratio };
+    }
+
+    return {
+      level,
+      tracks,
+      lightingChange: result.lightingChange,
+      zoneId: fired && !result.lightingChange ? fired.region.zone?.id ?? null : undefined,
+    };
+  };
+
+  return { configure, process, reset: detector.reset };
+}
@@ -0,0 +1,10 @@
+import type { MqttSettings } from '../types';
+
+export const DEFAULT_MQTT: MqttSettings = {
+  enabled: false,
+  url: 'mqtt://localhost:1883',
+  username: '',
+  password: '',
+  topicPrefix: 'sentryai',
+  discoveryPrefix: 'homeassistant',
+};
@@ -0,0 +1,65 @@
+import type { IgnoredFrame } from '../types';
+
+// dHash: compare each pixel of a 9x8 grayscale thumbnail with its right-hand neighbour
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/** Frames this many bits apart or fewer count as the same scene. */
+export const SIMILARITY_THRESHOLD = 8;
+
+let canvas: HTMLCanvasElement | null = null;
+
+const luma = (data: ArrayLike<number>, i: number) => data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+
+function dHash(thumbnail: (x: number, y: number) => number) {
+  let hash = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      hash = (hash << 1n) | (thumbnail(x, y) > thumbnail(x + 1, y) ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+export async function hashImage(dataUrl: string) {
+  const img = new Image();
+  img.src = dataUrl;
+  await img.decode();
+
+  canvas ??= Object.assign(document.createElement('canvas'), { width: HASH_WIDTH, height: HASH_HEIGHT });
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  return dHash((x, y) => luma(data, (y * HASH_WIDTH + x) * 4));
+}
+
+/** The same hash from raw RGBA pixels, box-averaged down to the thumbnail; for frames decoded without a canvas. */
+export function hashPixels(rgba: ArrayLike<number>, width: number, height: number) {
+  const sums = new Float64Array(HASH_WIDTH * HASH_HEIGHT);
+  const counts = new Uint32Array(HASH_WIDTH * HASH_HEIGHT);
+  for (let y = 0; y < height; y++) {
+    const cellRow = Math.floor((y * HASH_HEIGHT) / height) * HASH_WIDTH;
+    for (let x = 0; x < width; x++) {
+      const cell = cellRow + Math.floor((x * HASH_WIDTH) / width);
+      sums[cell] += luma(rgba, (y * width + x) * 4);
+      counts[cell]++;
+    }
+  }
+  return dHash((x, y) => sums[y * HASH_WIDTH + x] / counts[y * HASH_WIDTH + x]);
+}
+
+export function hammingDistance(a: string, b: string) {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  for (; diff; diff >>= 1n) count += Number(diff & 1n);
+  return count;
+}
+
+/** Whether a frame looks like one already reported as a false positive from the same camera and zone. */
+export function isIgnored(frames: IgnoredFrame[], cameraId: string, zone: string | undefined, phash: string) {
+  return frames.some(frame =>
+    frame.cameraId === cameraId
+    && frame.zone === zone
+    && hammingDistance(frame.phash, phash) <= SIMILARITY_THRESHOLD
+  );
+}
@@ -0,0 +1,7 @@
+import type { PrivacySettings } from '../types';
+
+export const DEFAULT_PRIVACY: PrivacySettings = {
+  blurFaces: false,
+  retentionDays: 0,
+  maxStorageMb: 0,
+};
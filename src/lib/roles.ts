@@ -0,0 +1,4 @@
+import { USER_ROLES, type UserRole } from '../types';
+
+/** Whether `role` may do what `required` may; admins can do everything operators can, and so on. */
+export const hasRole = (role: UserRole, required: UserRole) => USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
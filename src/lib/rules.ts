@@ -0,0 +1,111 @@
+import type { Detection, Rule, RuleClass, RuleSchedule, SecurityMode, TriggerSource } from '../types';
+
+/** Everything a rule can be matched against for one analyzed frame. */
+export interface RuleCandidate {
+  cameraId: string;
+  triggerSource: TriggerSource;
+  zone: string | null;
+  isSuspicious: boolean;
+  detections: Detection[];
+}
+
+// Detector labels (COCO-SSD classes and Gemini's free text) grouped into rule classes
+const CLASS_LABELS: Record<RuleClass, string[]> = {
+  person: ['person', 'man', 'woman', 'child', 'people', 'human', 'intruder'],
+  vehicle: ['vehicle', 'car', 'truck', 'bus', 'van', 'motorcycle', 'bicycle', 'boat', 'train'],
+  animal: ['animal', 'dog', 'cat', 'bird', 'horse', 'sheep', 'cow', 'bear', 'fox', 'deer'],
+};
+
+export const RULE_CLASSES = Object.keys(CLASS_LABELS) as RuleClass[];
+
+// Consecutive matches further apart than this no longer count as one dwell
+const DWELL_GAP = 5000;
+
+export const DEFAULT_RULES: Rule[] = [
+  {
+    id: 'default',
+    name: 'Any suspicious activity',
+    enabled: true,
+    classes: [],
+    zones: [],
+    triggerSources: [],
+    schedule: null,
+    minDwell: 1,
+    actions: ['alarm'],
+  },
+];
+
+export function candidateClasses({ isSuspicious, detections }: RuleCandidate): Set<RuleClass> {
+  const classes = new Set<RuleClass>();
+  detections.forEach(({ label }) => {
+    // Match whole words so "red car" counts but "scatter" doesn't; drop a plural "s"
+    const words = label.toLowerCase().split(/[^a-z]+/).flatMap(w => [w, w.replace(/s$/, '')]);
+    RULE_CLASSES.forEach(ruleClass => {
+      if (words.some(w => CLASS_LABELS[ruleClass].includes(w))) classes.add(ruleClass);
+    });
+  });
+  // The AI prompt asks specifically about people, so a bare "suspicious" verdict means one
+  if (isSuspicious && !detections.length) classes.add('person');
+  return classes;
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export function isScheduled(schedule: RuleSchedule | null, date: Date) {
+  if (!schedule) return true;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(schedule.start);
+  const end = toMinutes(schedule.end);
+  // Overnight windows such as 22:00-06:00 belong to the day they started on
+  const overnight = start > end;
+  const inWindow = overnight ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+  if (!inWindow) return false;
+  const day = overnight && minutes < end ? (date.getDay() + 6) % 7 : date.getDay();
+  return schedule.days.includes(day);
+}
+
+/** Rules only ever fire while armed, and then only in the modes they list. */
+export function appliesInMode(rule: Rule, mode: SecurityMode) {
+  if (mode === 'disarmed') return false;
+  return !rule.modes?.length || rule.modes.includes(mode);
+}
+
+function matches(rule: Rule, candidate: RuleCandidate, classes: Set<RuleClass>, date: Date) {
+  if (!rule.enabled) return false;
+  // Without a class filter a rule applies to anything the detector flags as suspicious
+  if (rule.classes.length ? !rule.classes.some(c => classes.has(c)) : !candidate.isSuspicious) return false;
+  if (rule.zones.length && (!candidate.zone || !rule.zones.includes(candidate.zone))) return false;
+  if (rule.triggerSources.length && !rule.triggerSources.includes(candidate.triggerSource)) return false;
+  return isScheduled(rule.schedule, date);
+}
+
+export interface RuleEngine {
+  /** Returns the rules that fire for this candidate, counting dwell per rule and camera. */
+  evaluate: (rules: Rule[], candidate: RuleCandidate, now?: number) => Rule[];
+}
+
+export function createRuleEngine(): RuleEngine {
+  const dwell = new Map<string, { count: number; lastAt: number }>();
+
+  const evaluate = (rules: Rule[], candidate: RuleCandidate, now = Date.now()) => {
+    const classes = candidateClasses(candidate);
+    const date = new Date(now);
+
+    return rules.filter(rule => {
+      const key = `${rule.id}:${candidate.cameraId}`;
+      if (!matches(rule, candidate, classes, date)) {
+        dwell.delete(key);
+        return false;
+      }
+      const previous = dwell.get(key);
+      const count = previous && now - previous.lastAt <= DWELL_GAP ? previous.count + 1 : 1;
+      dwell.set(key, { count, lastAt: now });
+      return count >= rule.minDwell;
+    });
+  };
+
+  return { evaluate };
+}
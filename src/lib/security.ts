@@ -0,0 +1,13 @@
+import type { SecurityState } from '../types';
+
+/** When the exit delay ends, or null once rules are live (or the system is disarmed). */
+export function exitDeadline(security: SecurityState, now = Date.now()) {
+  if (security.mode === 'disarmed') return null;
+  const deadline = security.changedAt + security.exitDelay * 1000;
+  return deadline > now ? deadline : null;
+}
+
+/** Whether detections should be run through the rules right now. */
+export function isArmed(security: SecurityState | null, now = Date.now()) {
+  return security !== null && security.mode !== 'disarmed' && exitDeadline(security, now) === null;
+}
@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { hasRole } from './roles';
+import type { User, UserRole } from '../types';
+
+export interface Session {
+  user: User;
+  signOut: () => void;
+}
+
+export const SessionContext = createContext<Session | null>(null);
+
+/** The signed-in user; only valid below `AuthGate`. */
+export function useSession() {
+  const session = useContext(SessionContext);
+  if (!session) throw new Error('useSession must be used inside AuthGate');
+  return session;
+}
+
+/** Whether the signed-in user may do what `role` may. The server checks again; this only keeps the UI honest. */
+export const useCan = (role: UserRole) => hasRole(useSession().user.role, role);
@@ -0,0 +1,153 @@
+/**
+ * Tamper detection shared by the browser (in the frame analysis worker) and
+ * the server's stream monitor. Each motion-grid frame is compared with a
+ * reference frame of the camera's normal view: a covered lens loses its
+ * detail or brightness, a light shone into it clips most of the picture, and
+ * a camera that was turned or moved shows a different scene altogether.
+ */
+
+export type TamperKind = 'covered' | 'blinded' | 'moved';
+
+// Checked in this order; a flashlight also washes out detail and any of them changes the scene
+const TAMPER_KINDS: TamperKind[] = ['blinded', 'covered', 'moved'];
+
+const TAMPER_HOLD = 3000; // A condition must last this long, so someone walking right past the lens doesn't count
+const SETTLE_TIME = 5000; // After a (re)start or a move, the view needs this long before it is taken as the reference
+const REFERENCE_INTERVAL = 60_000; // An undisturbed view replaces the reference this often, following daylight
+const DETAIL_LOSS = 0.3; // Share of the reference's detail below which the lens counts as covered
+const DARK_LEVEL = 20; // Mean brightness (0-255) that counts as dark, when it is also far below the reference
+const BRIGHTNESS_LOSS = 0.3;
+const CLIPPED_LEVEL = 250; // Pixels at least this bright are blown out
+const CLIPPED_SHARE = 0.5;
+const SCENE_BLOCK = 8; // Scene changes are compared on blocks of this many grid cells, ignoring noise and small shifts
+const SCENE_CHANGE = 0.75; // Mean difference of the normalized blocks; about 1.1 for unrelated scenes
+
+/** What the archive says about a tamper event. */
+export function tamperReason(kind: TamperKind) {
+  switch (kind) {
+    case 'covered': return "Camera tampering: the lens was covered or the picture went dark";
+    case 'blinded': return "Camera tampering: a bright light is blinding the camera";
+    case 'moved': return "Camera tampering: the camera was moved or turned away";
+  }
+}
+
+interface View {
+  brightness: number;
+  /** Mean luma difference between neighbouring cells. */
+  detail: number;
+  /** Share of blown-out cells. */
+  clipped: number;
+  /** Block means scaled to zero mean and unit variance, so a change in lighting alone leaves them alike. */
+  blocks: Float32Array;
+}
+
+function measure(rgba: Uint8ClampedArray, width: number, height: number): View {
+  const luma = new Float32Array(width * height);
+  let sum = 0;
+  let clipped = 0;
+  for (let k = 0; k < luma.length; k++) {
+    const value = 0.299 * rgba[k * 4] + 0.587 * rgba[k * 4 + 1] + 0.114 * rgba[k * 4 + 2];
+    luma[k] = value;
+    sum += value;
+    if (value >= CLIPPED_LEVEL) clipped++;
+  }
+
+  let detail = 0;
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const k = y * width + x;
+      detail += Math.abs(luma[k + 1] - luma[k]) + Math.abs(luma[k + width] - luma[k]);
+    }
+  }
+
+  const columns = Math.floor(width / SCENE_BLOCK);
+  const rows = Math.floor(height / SCENE_BLOCK);
+  const blocks = new Float32Array(columns * rows);
+  for (let y = 0; y < rows * SCENE_BLOCK; y++) {
+    for (let x = 0; x < columns * SCENE_BLOCK; x++) {
+      blocks[Math.floor(y / SCENE_BLOCK) * columns + Math.floor(x / SCENE_BLOCK)] += luma[y * width + x];
+    }
+  }
+  const mean = blocks.reduce((a, b) => a + b, 0) / blocks.length;
+  const deviation = Math.sqrt(blocks.reduce((a, b) => a + (b - mean) ** 2, 0) / blocks.length);
+  for (let i = 0; i < blocks.length; i++) blocks[i] = deviation > 0 ? (blocks[i] - mean) / deviation : 0;
+
+  return {
+    brightness: sum / luma.length,
+    detail: detail / ((width - 1) * (height - 1)),
+    clipped: clipped / luma.length,
+    blocks,
+  };
+}
+
+function sceneChange(a: Float32Array, b: Float32Array) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+}
+
+export interface TamperCheck {
+  /** Starts over with a new reference, e.g. after (re)connecting. */
+  reset: (now: number) => void;
+  /** Feeds one RGBA frame of the grid size given at creation; returns the kind on the frame tampering is confirmed. */
+  frame: (rgba: Uint8ClampedArray, now: number) => TamperKind | undefined;
+  /** The tampering going on right now, if any; ordinary motion alerts are held back meanwhile. */
+  active: () => TamperKind | null;
+}
+
+export function createTamperCheck(width: number, height: number): TamperCheck {
+  let reference: View | null = null;
+  let referenceAt = 0;
+  let settleUntil = 0;
+  let active: TamperKind | null = null;
+  // When each condition was first seen in the current unbroken run of frames
+  let since: Partial<Record<TamperKind, number>> = {};
+
+  const reset = (now: number) => {
+    reference = null;
+    settleUntil = now + SETTLE_TIME;
+    active = null;
+    since = {};
+  };
+
+  const frame = (rgba: Uint8ClampedArray, now: number) => {
+    const view = measure(rgba, width, height);
+    if (!reference) {
+      if (now >= settleUntil) {
+        reference = view;
+        referenceAt = now;
+      }
+      return undefined;
+    }
+
+    const blinded = view.clipped > CLIPPED_SHARE;
+    const covered = !blinded && (
+      view.detail < reference.detail * DETAIL_LOSS
+      || view.brightness < Math.min(DARK_LEVEL, reference.brightness * BRIGHTNESS_LOSS)
+    );
+    const conditions: Record<TamperKind, boolean> = {
+      blinded,
+      covered,
+      moved: !blinded && !covered && sceneChange(view.blocks, reference.blocks) > SCENE_CHANGE,
+    };
+    for (const kind of TAMPER_KINDS) {
+      if (!conditions[kind]) delete since[kind];
+      else since[kind] ??= now;
+    }
+
+    const confirmed = TAMPER_KINDS.find(kind => since[kind] !== undefined && now - since[kind]! >= TAMPER_HOLD) ?? null;
+    const detected = confirmed && confirmed !== active ? confirmed : undefined;
+    active = confirmed;
+
+    if (confirmed === 'moved') {
+      // The new view is the one to guard from now on, once the camera has come to rest
+      reset(now);
+    } else if (!active && !Object.keys(since).length && now - referenceAt >= REFERENCE_INTERVAL) {
+      reference = view;
+      referenceAt = now;
+    }
+    return detected;
+  };
+
+  return { reset, frame, active: () => active };
+}
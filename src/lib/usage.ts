@@ -0,0 +1,11 @@
+import type { AnalysisBudget } from '../types';
+
+export const DEFAULT_BUDGET: AnalysisBudget = {
+  perMinute: 10,
+  perDay: 2000,
+  inputPrice: 0.5,
+  outputPrice: 3,
+};
+
+export const estimateCost = (inputTokens: number, outputTokens: number, budget: AnalysisBudget) =>
+  (inputTokens * budget.inputPrice + outputTokens * budget.outputPrice) / 1_000_000;
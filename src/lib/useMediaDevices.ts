@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Lists the cameras and microphones the browser can see. Device labels stay
+ * blank until the page has been granted media access, which `requestAccess`
+ * asks for.
+ */
+export function useMediaDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await navigator.mediaDevices.enumerateDevices());
+    } catch (err) {
+      console.error("Failed to enumerate devices:", err);
+    }
+  }, []);
+
+  const requestAccess = useCallback(async () => {
+    try {
+      const s = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+      s.getTracks().forEach(track => track.stop());
+    } catch (err) {
+      console.error("Error accessing camera/mic:", err);
+    }
+    await refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return {
+    videoInputs: devices.filter(d => d.kind === 'videoinput'),
+    audioInputs: devices.filter(d => d.kind === 'audioinput'),
+    refresh,
+    requestAccess,
+  };
+}
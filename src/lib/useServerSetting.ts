@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import { getSetting, putSetting } from './api';
+
+const SAVE_DELAY = 500; // Debounce slider drags into a single write
+
+/**
+ * State that is loaded from and saved back to `/api/settings/:key`.
+ * Local updates apply immediately; the server copy follows after a short delay.
+ * Disabled, for a user who may not see the setting, it stays at `initial`.
+ */
+export function useServerSetting<T>(key: string, initial: T, enabled = true) {
+  const [value, setValue] = useState<T>(initial);
+  // The value the server is known to hold, so loads are not echoed back as saves
+  const syncedRef = useRef<T>(initial);
+
+  useEffect(() => {
+    if (!enabled) return;
+    getSetting<T>(key)
+      .then(loaded => {
+        syncedRef.current = loaded;
+        setValue(loaded);
+      })
+      .catch(err => console.error(`Failed to load ${key}:`, err));
+  }, [key, enabled]);
+
+  useEffect(() => {
+    if (value === syncedRef.current) return;
+    const timer = setTimeout(() => {
+      syncedRef.current = value;
+      putSetting(key, value).catch(err => console.error(`Failed to save ${key}:`, err));
+    }, SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
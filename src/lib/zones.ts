@@ -0,0 +1,65 @@
+import type { Zone } from '../types';
+
+/** A set of motion-grid cells with its own motion threshold; `zone` is null for the whole frame. */
+export interface ZoneRegion {
+  zone: Zone | null;
+  /** Row-major indices into the motion grid. */
+  samples: Uint32Array;
+}
+
+// Even at 99%, we require at least 0.5% of the region to move
+export const zoneThreshold = (sensitivity: number) => Math.max(0.5, (100 - sensitivity) / 2);
+
+export function pointInPolygon(x: number, y: number, points: [number, number][]) {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+const usable = (zones: Zone[], ...kinds: Zone['kind'][]) => zones.filter(z => kinds.includes(z.kind) && z.points.length >= 3);
+
+/** Zones to black out of frames before they leave the camera's own view. */
+export const privacyZones = (zones: Zone[]) => usable(zones, 'privacy');
+
+const cellCenter = (k: number, width: number, height: number): [number, number] =>
+  [((k % width) + 0.5) / width, (Math.floor(k / width) + 0.5) / height];
+
+/**
+ * Precomputes which motion-grid cells belong to each include zone, with ignore
+ * and privacy masks cut out of every zone. Without include zones the whole
+ * frame (minus masks) is a single region.
+ */
+export function buildZoneRegions(zones: Zone[], width: number, height: number): ZoneRegion[] {
+  const includes = usable(zones, 'include');
+  const ignores = usable(zones, 'ignore', 'privacy');
+  const targets: (Zone | null)[] = includes.length ? includes : [null];
+  const members: number[][] = targets.map(() => []);
+
+  for (let k = 0; k < width * height; k++) {
+    const [x, y] = cellCenter(k, width, height);
+    if (ignores.some(z => pointInPolygon(x, y, z.points))) continue;
+    targets.forEach((zone, t) => {
+      if (!zone || pointInPolygon(x, y, zone.points)) members[t].push(k);
+    });
+  }
+
+  return targets.map((zone, t) => ({ zone, samples: Uint32Array.from(members[t]) }));
+}
+
+/** 1 for motion-grid cells under an ignore mask, so they never form blobs; null without masks. */
+export function buildIgnoreMask(zones: Zone[], width: number, height: number): Uint8Array | null {
+  const ignores = usable(zones, 'ignore', 'privacy');
+  if (!ignores.length) return null;
+  const mask = new Uint8Array(width * height);
+  for (let k = 0; k < mask.length; k++) {
+    const [x, y] = cellCenter(k, width, height);
+    if (ignores.some(z => pointInPolygon(x, y, z.points))) mask[k] = 1;
+  }
+  return mask;
+}
@@ -0,0 +1,508 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Shared between the React client and the Express server.
+
+export type TriggerSource = 'motion' | 'sound';
+
+/**
+ * What recorded an event: a trigger, `tamper` for a covered, blinded or moved
+ * camera, or `system` for the camera watchdog (offline, frozen or black feed, failing analysis).
+ */
+export type EventSource = TriggerSource | 'tamper' | 'system';
+
+/** `privacy` zones are ignored like `ignore` masks and also blacked out in every frame sent to Gemini or stored. */
+export type ZoneKind = 'include' | 'ignore' | 'privacy';
+
+/** A polygon drawn over the feed; points are normalized to 0..1 of the frame. */
+export interface Zone {
+  id: string;
+  name: string;
+  kind: ZoneKind;
+  points: [number, number][];
+  /** Motion sensitivity for this zone, same 1-99 scale as the global slider. */
+  sensitivity: number;
+}
+
+/**
+ * Which detector Smart Guard runs on a candidate frame:
+ * - `gemini`: Gemini only
+ * - `local`: the on-device object detector only
+ * - `gemini-fallback`: Gemini, falling back to on-device when Gemini fails (e.g. offline)
+ * - `local-gate`: on-device first, and Gemini only confirms frames it flags
+ */
+export type DetectorMode = 'gemini' | 'local' | 'gemini-fallback' | 'local-gate';
+
+/** Detection settings that each camera keeps for itself. */
+export interface CameraSettings {
+  sensitivity: number;
+  audioSensitivity: number;
+  isSmartGuard: boolean;
+  /** Missing on cameras saved before detectors were configurable. */
+  detector?: DetectorMode;
+  zones: Zone[];
+  /** Sound classes that raise alerts; missing on cameras saved before audio was classified. */
+  soundClasses?: SoundClass[];
+}
+
+export interface Camera extends CameraSettings {
+  id: string;
+  name: string;
+  /** `MediaDeviceInfo.deviceId` of the webcam; '' picks the browser default. */
+  deviceId: string;
+  /** Microphone to listen on; '' picks the default and undefined disables audio. */
+  audioDeviceId?: string;
+  /**
+   * RTSP/HTTP MJPEG URL or server-side video file. Set, the server watches the
+   * camera itself and the browser only shows its feed; `deviceId` is ignored.
+   */
+  source?: string;
+  /** Start a file source over when it ends. */
+  loop?: boolean;
+}
+
+export const THREAT_CATEGORIES = ['intruder', 'weapon', 'forced-entry', 'fire', 'suspicious-object'] as const;
+
+export type ThreatCategory = typeof THREAT_CATEGORIES[number];
+
+/** Sounds the on-device audio classifier recognizes; `bang` covers door slams and other impacts. */
+export const SOUND_CLASSES = ['glass-break', 'scream', 'footsteps', 'speech', 'dog-bark', 'alarm', 'bang'] as const;
+
+export type SoundClass = typeof SOUND_CLASSES[number];
+
+/** An object found in a frame; `box` is `[x, y, width, height]` normalized to 0..1. */
+export interface Detection {
+  label: string;
+  confidence: number;
+  box: [number, number, number, number];
+  threat?: ThreatCategory;
+}
+
+export interface AnalysisResult {
+  isSuspicious: boolean;
+  reason: string;
+  detections: Detection[];
+  /** Fuller description of the scene written for archive search. */
+  caption?: string;
+  /** Lowercase keywords for archive search, e.g. "red jacket", "front door". */
+  tags?: string[];
+}
+
+export type SecurityMode = 'disarmed' | 'home' | 'away';
+
+export type ArmedMode = Exclude<SecurityMode, 'disarmed'>;
+
+/** Arming state as the server reports it; the PIN itself never leaves the server. */
+export interface SecurityState {
+  mode: SecurityMode;
+  /** Epoch milliseconds of the last arm or disarm. */
+  changedAt: number;
+  hasPin: boolean;
+  /** Seconds between an alarm rule firing and the siren, to allow disarming on the way in. */
+  entryDelay: number;
+  /** Seconds after arming before rules start firing, to allow leaving. */
+  exitDelay: number;
+}
+
+/** Switches the system to `mode` at a time of day on the given weekdays (0 = Sunday). */
+export interface ArmSchedule {
+  id: string;
+  enabled: boolean;
+  days: number[];
+  /** HH:MM in the server's local time. */
+  time: string;
+  mode: SecurityMode;
+}
+
+/** Dashboard roles, least privileged first; each can do everything the ones before it can. */
+export const USER_ROLES = ['viewer', 'operator', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+  /** ISO 8601 time the account was created. */
+  createdAt: string;
+}
+
+/** What the dashboard needs before it can show anything. */
+export interface SessionInfo {
+  user: User | null;
+  /** No accounts exist yet; the first one to be created is an admin. */
+  needsSetup: boolean;
+}
+
+export type AuditAction = 'arm' | 'disarm' | 'dismiss' | 'pin' | 'config';
+
+export interface AuditEntry {
+  id: number;
+  /** ISO 8601 time of the action. */
+  timestamp: string;
+  action: AuditAction;
+  /** Security mode after the action. */
+  mode: SecurityMode;
+  /** False for a rejected PIN. */
+  success: boolean;
+  detail?: string;
+}
+
+export type NotifierKind = 'webhook' | 'email' | 'ntfy' | 'gotify';
+
+interface NotifierBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Minimum seconds between messages to this destination; alerts in between are summarised in the next one. */
+  cooldown: number;
+}
+
+/** POSTs the event as JSON. */
+export interface WebhookNotifier extends NotifierBase {
+  kind: 'webhook';
+  url: string;
+  /** Extra request headers, e.g. an Authorization token. */
+  headers: Record<string, string>;
+}
+
+export interface EmailNotifier extends NotifierBase {
+  kind: 'email';
+  host: string;
+  port: number;
+  /** Use implicit TLS (usually port 465); otherwise STARTTLS is negotiated when offered. */
+  secure: boolean;
+  username: string;
+  password: string;
+  from: string;
+  /** Comma-separated recipients. */
+  to: string;
+}
+
+/** ntfy topic URL, e.g. https://ntfy.sh/my-sentry, or Gotify server URL. */
+export interface PushNotifier extends NotifierBase {
+  kind: 'ntfy' | 'gotify';
+  url: string;
+  /** ntfy access token or Gotify application token. */
+  token: string;
+}
+
+export type Notifier = WebhookNotifier | EmailNotifier | PushNotifier;
+
+export type RuleClass = 'person' | 'vehicle' | 'animal';
+
+/** `notify` raises a browser notification and sends the event to every enabled notifier. */
+export type RuleAction = 'alarm' | 'log' | 'notify';
+
+/** Local time window on the given weekdays (0 = Sunday); `start` after `end` wraps past midnight. */
+export interface RuleSchedule {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+/**
+ * User-defined alert condition. Empty lists match anything; with no classes
+ * the rule fires on whatever the detector flags as suspicious.
+ */
+export interface Rule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  classes: RuleClass[];
+  /** Zone names, matched across cameras. */
+  zones: string[];
+  triggerSources: TriggerSource[];
+  /** Armed modes the rule applies in; missing or empty means every armed mode. */
+  modes?: ArmedMode[];
+  schedule: RuleSchedule | null;
+  /** Consecutive matching frames required before the rule fires. */
+  minDwell: number;
+  actions: RuleAction[];
+}
+
+export interface DetectionResult extends AnalysisResult {
+  /** Name of the detector that produced the verdict. */
+  detector: string;
+}
+
+/** Reviewer verdict on an archived event. */
+export type EventLabel = 'false-positive' | 'confirmed';
+
+export interface DetectionEvent {
+  id: string;
+  timestamp: Date;
+  /** URL of the stored snapshot, served from /media. */
+  image: string;
+  isSuspicious: boolean;
+  reason: string;
+  triggerSource: EventSource;
+  /** URL of the recorded pre-roll/post-roll clip, once uploaded. */
+  clip?: string;
+  /** Name of the detection zone whose motion fired the event. */
+  zone?: string;
+  /** Camera that raised the event; missing on events recorded before multi-camera support. */
+  cameraId?: string;
+  detections?: Detection[];
+  /** Name of the rule that recorded the event. */
+  rule?: string;
+  label?: EventLabel;
+  /** 64-bit difference hash of the snapshot as 16 hex digits, for matching similar frames. */
+  phash?: string;
+  incidentId?: string;
+  caption?: string;
+  tags?: string[];
+}
+
+/** A `DetectionEvent` as it travels over JSON. */
+export type EventRecord = Omit<DetectionEvent, 'timestamp'> & { timestamp: string };
+
+/** Paging, camera and time-range filters for the event archive; times are epoch milliseconds. */
+export interface EventQuery {
+  cameraId?: string;
+  incidentId?: string;
+  limit?: number;
+  offset?: number;
+  from?: number;
+  to?: number;
+}
+
+export interface EventPage {
+  events: DetectionEvent[];
+  total: number;
+}
+
+/** Consecutive events from one camera, each within a couple of minutes of the last. */
+export interface Incident {
+  id: string;
+  cameraId?: string;
+  startedAt: string;
+  endedAt: string;
+  eventCount: number;
+  suspiciousCount: number;
+  /** Snapshot URLs of the frames a report is written from, in time order. */
+  keyFrames: string[];
+  /** Markdown narrative written by the AI. */
+  report?: string;
+  reportedAt?: string;
+}
+
+export interface IncidentPage {
+  incidents: Incident[];
+  total: number;
+}
+
+/** Archive format version this build writes; imports accept it and any older one. */
+export const ARCHIVE_VERSION = 1;
+
+/**
+ * `manifest.json` at the root of an exported archive, a tar file that also
+ * holds `events.csv` and the media files the events point to. Times are ISO
+ * 8601 and media paths are relative to the archive root.
+ */
+export interface ArchiveManifest {
+  format: 'sentryai-archive';
+  version: number;
+  exportedAt: string;
+  /** The filters the archive was exported with. */
+  filters: { cameraId?: string; from?: string; to?: string };
+  /** Names of the cameras the events came from, as they were at export time. */
+  cameras: { id: string; name: string }[];
+  incidents: ArchivedIncident[];
+  /** Oldest first. */
+  events: ArchivedEvent[];
+}
+
+export interface ArchivedIncident {
+  id: string;
+  cameraId?: string;
+  startedAt: string;
+  endedAt: string;
+  /** Markdown narrative written by the AI, if one was generated. */
+  report?: string;
+  reportedAt?: string;
+}
+
+export interface ArchivedEvent {
+  id: string;
+  timestamp: string;
+  cameraId?: string;
+  incidentId?: string;
+  triggerSource: EventSource;
+  isSuspicious: boolean;
+  reason: string;
+  zone?: string;
+  rule?: string;
+  detections: Detection[];
+  label?: EventLabel;
+  caption?: string;
+  tags?: string[];
+  /** Perceptual hash, so a false positive keeps suppressing similar frames after an import. */
+  phash?: string;
+  /** Path of the JPEG snapshot, e.g. `media/<id>.jpg`. */
+  image: string;
+  /** Path of the recorded clip, if there is one. */
+  clip?: string;
+}
+
+/** What an import added; events whose id already exists are skipped. */
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+}
+
+export type StreamState = 'starting' | 'running' | 'retrying' | 'ended';
+
+/** A camera the server is watching from its `source`. */
+export interface StreamStatus {
+  cameraId: string;
+  state: StreamState;
+  /** Why the stream last stopped, when it failed. */
+  error?: string;
+  /** Latest motion level, 0-100. */
+  motion: number;
+  /** True while a frame is with the AI. */
+  analyzing: boolean;
+  lastFrameAt?: string;
+}
+
+/** The alarm the server is holding for every connected dashboard. */
+export interface AlarmState {
+  cameraId: string;
+  /** Zone that raised it, `null` for the whole frame. */
+  zone: string | null;
+  /** Epoch milliseconds at which the entry delay runs out. */
+  deadline: number;
+  /** The entry delay ran out without a disarm. */
+  sounding: boolean;
+  /** The siren was silenced on every dashboard, e.g. from home automation; the alarm itself stays up. */
+  muted: boolean;
+}
+
+/** Meter readings a dashboard running a camera shares with the others. */
+export interface CameraLevels {
+  cameraId: string;
+  /** 0-100, like the feed's own meters. */
+  motion: number;
+  audio: number;
+  analyzing: boolean;
+}
+
+/** What the server pushes down `/api/live` as it happens. */
+export type LiveMessage =
+  | { type: 'security'; state: SecurityState }
+  | { type: 'alarm'; alarm: AlarmState | null }
+  /** A new event, or a change to one (clip attached, label set). */
+  | { type: 'event'; event: EventRecord }
+  | { type: 'levels'; levels: CameraLevels }
+  /** Home automation asked for a current frame from a camera that a dashboard runs. */
+  | { type: 'snapshot'; cameraId: string };
+
+/** How the server read a search query: what to look for and, if it named one, when. */
+export interface SearchInterpretation {
+  text: string;
+  /** Epoch milliseconds. */
+  from?: number;
+  to?: number;
+}
+
+export interface SearchHit {
+  event: EventRecord;
+  /** 0..1, higher is a better match. */
+  score: number;
+}
+
+export interface SearchResponse {
+  interpretation: SearchInterpretation;
+  hits: SearchHit[];
+}
+
+/** A frame reported as a false positive; similar frames in the same place are suppressed. */
+export interface IgnoredFrame {
+  cameraId?: string;
+  zone?: string;
+  phash: string;
+}
+
+export interface LabelStats {
+  triggerSource: EventSource;
+  total: number;
+  falsePositives: number;
+  confirmed: number;
+}
+
+/** What happens to archived frames, and how long they are kept. */
+export interface PrivacySettings {
+  /** Blur faces in each saved snapshot; costs one extra Gemini call per event. */
+  blurFaces: boolean;
+  /** Delete events older than this many days; 0 keeps them forever. */
+  retentionDays: number;
+  /** Delete the oldest events once their media takes more than this many MB; 0 for no limit. */
+  maxStorageMb: number;
+}
+
+/** Connection to an MQTT broker, for home automation. */
+export interface MqttSettings {
+  enabled: boolean;
+  /** mqtt://, mqtts://, ws:// or wss:// */
+  url: string;
+  username: string;
+  password: string;
+  /** Every topic published or listened on starts with this. */
+  topicPrefix: string;
+  /** Home Assistant's discovery prefix; empty turns discovery off. */
+  discoveryPrefix: string;
+}
+
+/** Limits on Gemini calls and the prices used to estimate their cost. */
+export interface AnalysisBudget {
+  perMinute: number;
+  perDay: number;
+  /** USD per million input and output tokens. */
+  inputPrice: number;
+  outputPrice: number;
+}
+
+/** `over-budget` calls were refused locally; `rate-limited` ones were refused by Gemini. */
+export type AnalysisOutcome = 'ok' | 'error' | 'rate-limited' | 'over-budget';
+
+/**
+ * What a Gemini call was for: analyzing a frame its trigger sent, finding
+ * `faces` to blur in a snapshot, archive `search`, or an incident `report`.
+ */
+export type CallPurpose = TriggerSource | 'faces' | 'search' | 'report';
+
+export interface AnalysisCall {
+  id: number;
+  timestamp: string;
+  cameraId?: string;
+  triggerSource: CallPurpose;
+  outcome: AnalysisOutcome;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  error?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  outcomes: Record<AnalysisOutcome, number>;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated USD at the budget's prices. */
+  cost: number;
+  /** Mean latency of successful calls in milliseconds. */
+  averageLatency: number;
+}
+
+export interface UsageSummary {
+  budget: AnalysisBudget;
+  /** Calls counted against each budget right now. */
+  lastMinute: number;
+  lastDay: number;
+  day: UsageTotals;
+  week: UsageTotals;
+  recent: AnalysisCall[];
+}